@@ -0,0 +1,335 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ActiveSelection, Canvas as FabricCanvas, FabricImage, FabricObject, Rect } from 'fabric';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PIXELS_PER_POINT } from '@/components/RDLPageCanvas';
+import { PDFEngineError, PDFJSLoader } from '@/utils/PDFJSLoader';
+import { FieldLayoutTools, LayoutAlignment, LayoutAxis, LayoutBox, SnapGuide, SnapOptions } from '@/utils/FieldLayoutTools';
+import {
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter
+} from 'lucide-react';
+
+export interface LayoutField extends LayoutBox {
+  id: string;
+  section: 'header' | 'body' | 'footer';
+  label: string;
+}
+
+export type LayoutChange = LayoutBox & { id: string };
+
+interface FieldLayoutCanvasProps {
+  fields: LayoutField[];
+  // Page 1 of this file is drawn behind the fields
+  pdfFile?: File | null;
+  pageWidth: number;
+  pageHeight: number;
+  // Called once per finished drag, resize or command with the new boxes of the fields it changed
+  onLayoutChange: (changes: LayoutChange[]) => void;
+}
+
+const SECTION_COLORS: Record<LayoutField['section'], string> = {
+  header: '#3b82f6',
+  body: '#22c55e',
+  footer: '#a855f7'
+};
+
+const ZOOM_LEVELS = [0.75, 1, 1.5];
+const GRID_SIZES = [3, 6, 9, 12];
+const STROKE_WIDTH = 1;
+// Pixels an edge is pulled to reach a sibling's edge, whatever the zoom
+const SNAP_DISTANCE = 6;
+
+const ALIGNMENTS: Array<{ alignment: LayoutAlignment; title: string; Icon: React.ElementType }> = [
+  { alignment: 'left', title: 'Align left edges', Icon: AlignStartVertical },
+  { alignment: 'center', title: 'Align horizontal centers', Icon: AlignCenterVertical },
+  { alignment: 'right', title: 'Align right edges', Icon: AlignEndVertical },
+  { alignment: 'top', title: 'Align top edges', Icon: AlignStartHorizontal },
+  { alignment: 'middle', title: 'Align vertical centers', Icon: AlignCenterHorizontal },
+  { alignment: 'bottom', title: 'Align bottom edges', Icon: AlignEndHorizontal }
+];
+
+const DISTRIBUTIONS: Array<{ axis: LayoutAxis; title: string; Icon: React.ElementType }> = [
+  { axis: 'horizontal', title: 'Distribute horizontally', Icon: AlignHorizontalDistributeCenter },
+  { axis: 'vertical', title: 'Distribute vertically', Icon: AlignVerticalDistributeCenter }
+];
+
+const rounded = (value: number) => Math.round(value * 100) / 100;
+
+// Field box in points; Fabric's bounding rect includes the outline
+const boxOf = (object: FabricObject, scale: number): LayoutBox => {
+  const { left, top, width, height } = object.getBoundingRect();
+  return {
+    x: (left + STROKE_WIDTH / 2) / scale,
+    y: (top + STROKE_WIDTH / 2) / scale,
+    width: (width - STROKE_WIDTH) / scale,
+    height: (height - STROKE_WIDTH) / scale
+  };
+};
+
+export const FieldLayoutCanvas: React.FC<FieldLayoutCanvasProps> = ({ fields, pdfFile, pageWidth, pageHeight, onLayoutChange }) => {
+  const canvasElementRef = useRef<HTMLCanvasElement>(null);
+  const canvasRef = useRef<FabricCanvas | null>(null);
+  const fieldIds = useRef(new Map<FabricObject, string>());
+  const guides = useRef<SnapGuide[]>([]);
+  const [zoom, setZoom] = useState(1);
+  const [gridSize, setGridSize] = useState(6);
+  const [snapToGrid, setSnapToGrid] = useState(true);
+  const [snapToSiblings, setSnapToSiblings] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pageImage, setPageImage] = useState<HTMLCanvasElement>();
+  const [pdfError, setPdfError] = useState<string>();
+
+  const scale = PIXELS_PER_POINT * zoom;
+  const snapOptions: SnapOptions = { snapToGrid, snapToSiblings, gridSize, threshold: SNAP_DISTANCE / scale };
+
+  // Fabric's handlers are attached once and read the current render's values from here
+  const latest = useRef({ fields, scale, snapOptions, selectedIds, onLayoutChange });
+  latest.current = { fields, scale, snapOptions, selectedIds, onLayoutChange };
+
+  useEffect(() => {
+    if (!canvasElementRef.current) return;
+
+    const canvas = new FabricCanvas(canvasElementRef.current, {
+      backgroundColor: '#ffffff',
+      preserveObjectStacking: true,
+      uniformScaling: false,
+      renderOnAddRemove: false
+    });
+    canvasRef.current = canvas;
+
+    const siblingsOf = (target: FabricObject) => {
+      const moving = new Set(target instanceof ActiveSelection ? target.getObjects() : [target]);
+      return [...fieldIds.current.keys()].filter(object => !moving.has(object)).map(object => boxOf(object, latest.current.scale));
+    };
+
+    canvas.on('object:moving', ({ target }) => {
+      const { scale, snapOptions } = latest.current;
+      const { dx, dy, guides: snapGuides } = FieldLayoutTools.snapMove(boxOf(target, scale), siblingsOf(target), snapOptions);
+      target.set({ left: target.left + dx * scale, top: target.top + dy * scale });
+      target.setCoords();
+      guides.current = snapGuides;
+    });
+
+    // Only a single field snaps while resizing; a resized selection scales as a whole
+    canvas.on('object:scaling', ({ target, transform }) => {
+      if (target instanceof ActiveSelection) return;
+      const { scale, snapOptions } = latest.current;
+      const corner = transform.corner;
+      const edges = { left: corner.includes('l'), right: corner.includes('r'), top: corner.includes('t'), bottom: corner.includes('b') };
+      const { box, guides: snapGuides } = FieldLayoutTools.snapResize(boxOf(target, scale), edges, siblingsOf(target), snapOptions);
+      target.set({
+        left: box.x * scale - STROKE_WIDTH / 2,
+        top: box.y * scale - STROKE_WIDTH / 2,
+        scaleX: box.width * scale / target.width,
+        scaleY: box.height * scale / target.height
+      });
+      target.setCoords();
+      guides.current = snapGuides;
+    });
+
+    canvas.on('object:modified', ({ target }) => {
+      const { scale, onLayoutChange } = latest.current;
+      const objects = target instanceof ActiveSelection ? target.getObjects() : [target];
+      const changes = objects.flatMap(object => {
+        const id = fieldIds.current.get(object);
+        if (!id) return [];
+        const { x, y, width, height } = boxOf(object, scale);
+        return [{ id, x: rounded(x), y: rounded(y), width: rounded(width), height: rounded(height) }];
+      });
+      guides.current = [];
+      if (changes.length > 0) onLayoutChange(changes);
+    });
+
+    canvas.on('mouse:up', () => {
+      if (guides.current.length === 0) return;
+      guides.current = [];
+      canvas.requestRenderAll();
+    });
+
+    const syncSelection = () => setSelectedIds(
+      canvas.getActiveObjects().map(object => fieldIds.current.get(object)).filter((id): id is string => !!id)
+    );
+    canvas.on('selection:created', syncSelection);
+    canvas.on('selection:updated', syncSelection);
+    canvas.on('selection:cleared', syncSelection);
+
+    // Labels and snap guides are drawn over the field boxes rather than being canvas objects
+    canvas.on('after:render', ({ ctx }) => {
+      const labels = new Map(latest.current.fields.map(field => [field.id, field.label]));
+      ctx.save();
+      ctx.font = '10px sans-serif';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = '#1f2937';
+      for (const [object, id] of fieldIds.current) {
+        const { left, top, width, height } = object.getBoundingRect();
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(left, top, width, height);
+        ctx.clip();
+        ctx.fillText(labels.get(id) || id, left + 3, top + 2);
+        ctx.restore();
+      }
+
+      ctx.strokeStyle = '#f43f5e';
+      ctx.setLineDash([4, 4]);
+      for (const guide of guides.current) {
+        const position = guide.position * latest.current.scale;
+        ctx.beginPath();
+        if (guide.orientation === 'vertical') {
+          ctx.moveTo(position, 0);
+          ctx.lineTo(position, canvas.height);
+        } else {
+          ctx.moveTo(0, position);
+          ctx.lineTo(canvas.width, position);
+        }
+        ctx.stroke();
+      }
+      ctx.restore();
+    });
+
+    return () => {
+      canvasRef.current = null;
+      canvas.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    setPageImage(undefined);
+    setPdfError(undefined);
+    if (!pdfFile) return;
+
+    let cancelled = false;
+    const render = async () => {
+      const image = await PDFJSLoader.renderPage(await pdfFile.arrayBuffer(), 1, scale);
+      if (!cancelled) setPageImage(image);
+    };
+    render().catch(error => {
+      if (!cancelled) setPdfError(error instanceof PDFEngineError ? error.message : `The PDF could not be read: ${String(error)}`);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfFile, scale]);
+
+  // Fields are rebuilt from the props after every change, keeping the selection
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const selected = new Set(latest.current.selectedIds);
+    canvas.setDimensions({ width: pageWidth * scale, height: pageHeight * scale });
+    canvas.backgroundImage = pageImage && new FabricImage(pageImage, {
+      scaleX: pageWidth * scale / pageImage.width,
+      scaleY: pageHeight * scale / pageImage.height
+    });
+
+    canvas.discardActiveObject();
+    canvas.remove(...canvas.getObjects());
+    fieldIds.current.clear();
+    for (const field of fields) {
+      const color = SECTION_COLORS[field.section];
+      const rect = new Rect({
+        left: field.x * scale - STROKE_WIDTH / 2,
+        top: field.y * scale - STROKE_WIDTH / 2,
+        width: Math.max(1, field.width * scale),
+        height: Math.max(1, field.height * scale),
+        fill: `${color}1f`,
+        stroke: color,
+        strokeWidth: STROKE_WIDTH,
+        strokeUniform: true,
+        lockRotation: true
+      });
+      rect.setControlsVisibility({ mtr: false });
+      canvas.add(rect);
+      fieldIds.current.set(rect, field.id);
+    }
+
+    const reselected = [...fieldIds.current].filter(([, id]) => selected.has(id)).map(([object]) => object);
+    if (reselected.length === 1) canvas.setActiveObject(reselected[0]);
+    else if (reselected.length > 1) canvas.setActiveObject(new ActiveSelection(reselected, { canvas }));
+    canvas.requestRenderAll();
+  }, [fields, scale, pageWidth, pageHeight, pageImage]);
+
+  const selectedFields = () => fields.filter(field => selectedIds.includes(field.id));
+  const apply = (boxes: LayoutField[]) => {
+    onLayoutChange(boxes.map(({ id, x, y, width, height }) => ({ id, x: rounded(x), y: rounded(y), width, height })));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex gap-1">
+          {ALIGNMENTS.map(({ alignment, title, Icon }) => (
+            <Button
+              key={alignment}
+              variant="outline"
+              size="sm"
+              title={title}
+              disabled={selectedIds.length < 2}
+              onClick={() => apply(FieldLayoutTools.align(selectedFields(), alignment))}
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          ))}
+          {DISTRIBUTIONS.map(({ axis, title, Icon }) => (
+            <Button
+              key={axis}
+              variant="outline"
+              size="sm"
+              title={title}
+              disabled={selectedIds.length < 3}
+              onClick={() => apply(FieldLayoutTools.distribute(selectedFields(), axis))}
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="snap-grid" checked={snapToGrid} onCheckedChange={setSnapToGrid} />
+          <Label htmlFor="snap-grid">Snap to grid</Label>
+          <Select value={String(gridSize)} onValueChange={value => setGridSize(Number(value))} disabled={!snapToGrid}>
+            <SelectTrigger className="w-20 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GRID_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size}pt</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="snap-siblings" checked={snapToSiblings} onCheckedChange={setSnapToSiblings} />
+          <Label htmlFor="snap-siblings">Snap to fields</Label>
+        </div>
+        <Select value={String(zoom)} onValueChange={value => setZoom(Number(value))}>
+          <SelectTrigger className="w-24 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ZOOM_LEVELS.map(level => (
+              <SelectItem key={level} value={String(level)}>{level * 100}%</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {pdfError && <p className="text-sm text-destructive">{pdfError}</p>}
+      <div className="border border-border rounded-lg overflow-auto max-h-[48rem] bg-muted/30 p-4">
+        <canvas ref={canvasElementRef} className="shadow-card" />
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Drag fields to move them and pull their handles to resize; Shift-click or drag a marquee to select several.
+        {selectedIds.length > 0 && ` ${selectedIds.length} selected.`}
+      </p>
+    </div>
+  );
+};
@@ -1,16 +1,33 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, FileText, Table, Type, Download, Layers, MapPin, Grid3X3, Database, Edit3 } from "lucide-react";
-import { PDFParser, PDFAnalysisResult as PDFParserResult } from "@/utils/PDFParser";
-import { EnhancedPDFParser } from "@/utils/EnhancedPDFParser";
+import { Upload, FileText, Table, Type, Download, Layers, MapPin, Grid3X3, Database, Edit3, GitCompare } from "lucide-react";
+import { PDFAnalysisResult as PDFParserResult } from "@/utils/PDFParser";
+import { PDFEngineError } from "@/utils/PDFJSLoader";
+import { AnalysisCancelledError } from "@/utils/AnalysisProgress";
+import { PDFAnalysisWorkerClient } from "@/utils/PDFAnalysisWorkerClient";
+import { PDFAnalysisProgress, STAGE_PROGRESS, describeProgress } from "@/workers/pdfAnalysisProtocol";
 import { RDLGenerator, PDFAnalysisResult } from "@/utils/RDLGenerator";
-import { RDLHeaderGenerator, HeaderTextbox } from "@/utils/RDLHeaderGenerator";
+import { RDLHeaderGenerator, HeaderTextbox, PageFooterOptions } from "@/utils/RDLHeaderGenerator";
+import { RDLMergeError } from "@/utils/RDLMergeEngine";
+import { RDLFieldCatalog, RDLImageFieldSource } from "@/utils/RDLFieldCatalog";
+import { PDFImagePrimitive } from "@/utils/PDFImageExtractor";
+import { HeaderComponent } from "@/utils/EnhancedPDFParser";
+import { TableStructure } from "@/utils/AIPDFAnalyzer";
+import { PDFTextStyleExtractor } from "@/utils/PDFTextStyleExtractor";
+import { RDLFieldMatcher } from "@/utils/RDLFieldMatcher";
+import { PDFSampleValues } from "@/utils/RDLSampleDataLoader";
 import { PDFFieldEditor } from "@/components/PDFFieldEditor";
+import { RDLValidationPanel } from "@/components/RDLValidationPanel";
+import { SSRSPreview } from "@/components/SSRSPreview";
+import { RDLComparisonView } from "@/components/RDLComparisonView";
 
 interface PDFComponent {
   id: string;
@@ -29,7 +46,10 @@ interface PDFComponent {
   styles?: {
     fontSize?: number;
     fontFamily?: string;
+    fontWeight?: string;
+    isItalic?: boolean;
     color?: string;
+    // left, center or right
     alignment?: string;
   };
   tableData?: {
@@ -39,6 +59,21 @@ interface PDFComponent {
   };
 }
 
+const imageFieldKey = (field: { dataSet: string; name: string }) => `${field.dataSet}.${field.name}`;
+
+// Expression for data that no base RDL field was bound to
+const unboundExpression = (text: string) => `=Fields!${text.replace(/[^a-zA-Z0-9]/g, '')}.Value`;
+
+// Font, color and alignment read from the PDF for an enhanced analysis component
+const stylesOf = (component: HeaderComponent): PDFComponent['styles'] => ({
+  fontSize: component.fontSize,
+  fontFamily: component.fontFamily,
+  fontWeight: component.fontWeight,
+  isItalic: component.isItalic,
+  color: component.color,
+  alignment: component.textAlign?.toLowerCase()
+});
+
 interface AnalysisResult {
   pages: number;
   sections: {
@@ -55,12 +90,82 @@ export const PDFAnalyzer = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [baseRDLFile, setBaseRDLFile] = useState<File | null>(null);
   const [baseRDLContent, setBaseRDLContent] = useState<string>('');
+  const [headerDataSet, setHeaderDataSet] = useState<string>('');
+  const [footerOptions, setFooterOptions] = useState<PageFooterOptions>(RDLHeaderGenerator.DEFAULT_FOOTER_OPTIONS);
+  // Image field chosen for a PDF image, by image name; images without one are embedded
+  const [imageFieldChoices, setImageFieldChoices] = useState<Record<string, string>>({});
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [progressDetail, setProgressDetail] = useState<PDFAnalysisProgress | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [enhancedAnalysis, setEnhancedAnalysis] = useState<any | null>(null);
   const [editableFields, setEditableFields] = useState<PDFComponent[]>([]);
   const [activeTab, setActiveTab] = useState("upload");
+  const analysisClient = useRef<PDFAnalysisWorkerClient | null>(null);
+  const analysisAbort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => analysisClient.current?.dispose(), []);
+
+  const fieldCatalog = useMemo(() => RDLFieldCatalog.fromRDL(baseRDLContent), [baseRDLContent]);
+  const dataSetNames = useMemo(() => Array.from(new Set(fieldCatalog.map(field => field.dataSet))), [fieldCatalog]);
+  // Scope for header expressions; the base RDL's first dataset until the user picks another
+  const headerScope = dataSetNames.includes(headerDataSet) ? headerDataSet : dataSetNames[0];
+
+  const imageFields = useMemo(() => RDLFieldCatalog.imageFields(fieldCatalog), [fieldCatalog]);
+  const firstPageImages: PDFImagePrimitive[] = (enhancedAnalysis?.images || [])
+    .filter((image: PDFImagePrimitive) => image.pageNumber === 1);
+
+  const databaseImageSources = useCallback(() => {
+    const sources: Record<string, RDLImageFieldSource> = {};
+    Object.entries(imageFieldChoices).forEach(([imageName, fieldKey]) => {
+      const field = imageFields.find(candidate => imageFieldKey(candidate) === fieldKey);
+      if (field) sources[imageName] = RDLFieldCatalog.imageSourceFor(field, fieldCatalog);
+    });
+    return sources;
+  }, [imageFieldChoices, imageFields, fieldCatalog]);
+
+  // Cell styles and spanned cells of the enhanced analysis table covering the same area with the same columns
+  const tableDetailsAt = useCallback((bounds: { x: number; y: number; width: number; height: number }, columnCount: number) => {
+    const table: TableStructure | undefined = (enhancedAnalysis?.bodyAnalysis?.tables || []).find((candidate: TableStructure) =>
+      candidate.headers.length === columnCount &&
+      candidate.bounds.x < bounds.x + bounds.width && bounds.x < candidate.bounds.x + candidate.bounds.width &&
+      candidate.bounds.y < bounds.y + bounds.height && bounds.y < candidate.bounds.y + candidate.bounds.height
+    );
+    if (!table) return { merged_cells: [] };
+    return {
+      merged_cells: table.merged_cells || [],
+      headerStyles: table.headers.map(header => PDFTextStyleExtractor.styleOf(header)),
+      columnStyles: PDFTextStyleExtractor.columnStyles(table.rows)
+    };
+  }, [enhancedAnalysis]);
+
+  // Table rows and bound header values of the PDF, for previewing the RDL with its own data
+  const pdfSampleValues = useMemo<PDFSampleValues | undefined>(() => {
+    if (!analysisResult) return undefined;
+    return {
+      tables: analysisResult.sections.body
+        .filter(comp => comp.type === 'table')
+        .map(comp => comp.tableData?.cells.slice(1) || []),
+      values: (editableFields.length > 0 ? editableFields : analysisResult.components)
+        .filter(comp => comp.isExpression && comp.expression && comp.originalContent)
+        .map(comp => ({ expression: comp.expression || '', value: comp.originalContent || '' }))
+    };
+  }, [analysisResult, editableFields]);
+
+  // A base RDL uploaded after the analysis binds the data fields that still have their unbound expression
+  useEffect(() => {
+    if (!enhancedAnalysis?.headerAnalysis || fieldCatalog.length === 0) return;
+    const { dynamicData } = enhancedAnalysis.headerAnalysis;
+    const bindings = RDLFieldMatcher.bindHeader(enhancedAnalysis.headerAnalysis, fieldCatalog, headerScope);
+
+    setEditableFields(fields => fields.map(field => {
+      const data = dynamicData[Number(field.id.match(/-dynamic-(\d+)$/)?.[1])];
+      const binding = data && bindings.get(data);
+      return binding && field.expression === unboundExpression(field.originalContent || '')
+        ? { ...field, expression: binding.expression, isExpression: true }
+        : field;
+    }));
+  }, [fieldCatalog, enhancedAnalysis, headerScope]);
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     console.log("File input triggered", event.target.files);
@@ -115,15 +220,22 @@ export const PDFAnalyzer = () => {
 
     setIsAnalyzing(true);
     setProgress(0);
+    setProgressDetail(null);
     setActiveTab("analysis");
 
+    analysisClient.current ??= new PDFAnalysisWorkerClient();
+    analysisAbort.current = new AbortController();
+
     try {
-      // Step 1: Enhanced PDF analysis with smart header detection
-      setProgress(20);
+      // Parsing and AI classification run in a worker that reports per-page progress
       console.log('Starting enhanced PDF analysis for:', selectedFile.name);
-      
-      const enhancedResult = await EnhancedPDFParser.parsePDF(selectedFile);
-      setProgress(40);
+      const { enhanced: enhancedResult, legacy: pdfAnalysis } = await analysisClient.current.analyze(selectedFile, {
+        signal: analysisAbort.current.signal,
+        onProgress: update => {
+          setProgress(update.percent);
+          setProgressDetail(update);
+        }
+      });
       
       console.log('Enhanced Analysis Result:', enhancedResult);
       console.log('Header analysis:', enhancedResult.headerAnalysis);
@@ -131,13 +243,8 @@ export const PDFAnalyzer = () => {
       console.log('Dynamic data:', enhancedResult.headerAnalysis.dynamicData.length);
       console.log('Label-data pairs:', enhancedResult.headerAnalysis.labelDataPairs.length);
       
-      // Step 2: Legacy analysis for compatibility
-      const pdfAnalysis = await PDFParser.parsePDF(selectedFile);
-      setProgress(70);
-      
-      // Step 3: Convert to component format
+      // Convert to component format
       const analysisResult = convertPDFAnalysisToComponents(pdfAnalysis);
-      setProgress(90);
       
       setAnalysisResult(analysisResult);
       setEnhancedAnalysis(enhancedResult);
@@ -160,20 +267,35 @@ export const PDFAnalyzer = () => {
       
       toast({
         title: `${isAIEnhanced ? 'AI-Enhanced' : 'Smart'} Analysis Complete`,
-        description: `Found ${staticCount} labels, ${dynamicCount} data fields, ${pairsCount} pairs (${confidence}% confidence)`,
+        description: `Found ${staticCount} labels, ${dynamicCount} data fields, ${pairsCount} pairs (${confidence}% confidence, ${enhancedResult.classifier.backend} classifier)`,
       });
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) {
+        setActiveTab("upload");
+        toast({
+          title: "Analysis Cancelled",
+          description: "The PDF analysis was stopped.",
+        });
+        return;
+      }
+      
       console.error('PDF Analysis Error:', error);
+      const isEngineError = error instanceof PDFEngineError;
       toast({
-        title: "Analysis Failed",
-        description: "Failed to analyze PDF. Please try again.",
+        title: isEngineError ? "PDF Engine Error" : "Analysis Failed",
+        description: isEngineError ? error.message : "Failed to analyze PDF. Please try again.",
         variant: "destructive",
       });
     } finally {
+      analysisAbort.current = null;
       setIsAnalyzing(false);
     }
   };
 
+  const cancelAnalysis = () => {
+    analysisAbort.current?.abort();
+  };
+
   const convertToEditableFields = (components: PDFComponent[], enhancedResult: any): PDFComponent[] => {
     const editableFields: PDFComponent[] = [];
     
@@ -216,14 +338,12 @@ export const PDFAnalyzer = () => {
           originalContent: label.text,
           classification: 'static-label',
           confidence: label.confidence,
-          styles: {
-            fontSize: label.fontSize,
-            fontFamily: label.fontFamily
-          }
+          styles: stylesOf(label)
         });
       });
       
-      // Process dynamic data
+      // Process dynamic data, bound to base RDL fields where a match is found
+      const bindings = RDLFieldMatcher.bindHeader(headerAnalysis, fieldCatalog, headerScope);
       headerAnalysis.dynamicData.forEach((data: any, index: number) => {
         const section = determineSection(data.y || 0, pageHeight);
         editableFields.push({
@@ -239,11 +359,8 @@ export const PDFAnalyzer = () => {
           classification: 'dynamic-data',
           confidence: data.confidence,
           isExpression: true,
-          expression: `=Fields!${data.text.replace(/[^a-zA-Z0-9]/g, '')}.Value`,
-          styles: {
-            fontSize: data.fontSize,
-            fontFamily: data.fontFamily
-          }
+          expression: bindings.get(data)?.expression || unboundExpression(data.text),
+          styles: stylesOf(data)
         });
       });
       
@@ -262,10 +379,7 @@ export const PDFAnalyzer = () => {
           originalContent: text.text,
           classification: 'standalone-text',
           confidence: text.confidence,
-          styles: {
-            fontSize: text.fontSize,
-            fontFamily: text.fontFamily
-          }
+          styles: stylesOf(text)
         });
       });
     }
@@ -364,7 +478,7 @@ export const PDFAnalyzer = () => {
     });
 
     return {
-      pages: 1,
+      pages: pdfAnalysis.pageCount,
       sections,
       components,
       ssrsBlueprint: generateSSRSBlueprint()
@@ -470,7 +584,8 @@ export const PDFAnalyzer = () => {
     });
   };
 
-  const generateRDLTemplate = () => {
+  // Generated once per change for the download, the validation panel and both previews
+  const templateRDL = useMemo(() => {
     if (!analysisResult && !editableFields.length) return '';
     
     // Create proper PDFAnalysisResult structure
@@ -481,7 +596,7 @@ export const PDFAnalyzer = () => {
           headers: comp.tableData?.cells[0] || [],
           rows: comp.tableData?.cells.slice(1) || [],
           position: { x: comp.x, y: comp.y, width: comp.width, height: comp.height },
-          merged_cells: []
+          ...tableDetailsAt(comp, comp.tableData?.cells[0]?.length || 0)
         })) || [],
       textElements: (editableFields.length > 0 ? editableFields : analysisResult?.components || [])
         .filter(comp => comp.type === 'textbox')
@@ -490,11 +605,16 @@ export const PDFAnalyzer = () => {
           position: { x: comp.x, y: comp.y, width: comp.width, height: comp.height },
           classification: comp.section as 'header' | 'footer' | 'label' | 'data',
           styles: comp.styles
-        }))
+        })),
+      graphics: enhancedAnalysis?.graphics,
+      images: enhancedAnalysis?.images,
+      footer: footerOptions,
+      pageWidth: enhancedAnalysis?.pageWidth,
+      pageHeight: enhancedAnalysis?.pageHeight
     };
     
     return RDLGenerator.generateRDLTemplate([], [], pdfAnalysisResult);
-  };
+  }, [analysisResult, editableFields, enhancedAnalysis, footerOptions, tableDetailsAt]);
 
   const handleFieldsChange = (updatedFields: PDFComponent[]) => {
     setEditableFields(updatedFields);
@@ -507,7 +627,7 @@ export const PDFAnalyzer = () => {
   const downloadRDLTemplate = () => {
     if (!analysisResult) return;
     
-    const rdlContent = generateRDLTemplate();
+    const rdlContent = templateRDL;
     const blob = new Blob([rdlContent], { type: 'application/xml' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -524,6 +644,41 @@ export const PDFAnalyzer = () => {
     });
   };
 
+  const buildExecutableRDL = useCallback(() => {
+    let headerTextboxes;
+    
+    // Use enhanced analysis if available for better results
+    if (enhancedAnalysis) {
+      headerTextboxes = RDLHeaderGenerator.convertEnhancedHeaderAnalysis(
+        enhancedAnalysis.headerAnalysis,
+        RDLFieldMatcher.bindHeader(enhancedAnalysis.headerAnalysis, fieldCatalog, headerScope)
+      );
+    } else {
+      headerTextboxes = RDLHeaderGenerator.convertPDFComponentsToHeaderTextboxes(analysisResult.components);
+    }
+    
+    // Generate executable RDL with updated header
+    return RDLHeaderGenerator.generateExecutableRDL(
+      baseRDLContent,
+      headerTextboxes,
+      undefined,
+      enhancedAnalysis?.graphics,
+      headerScope,
+      enhancedAnalysis && RDLHeaderGenerator.convertFooterAnalysis(enhancedAnalysis.footerAnalysis, footerOptions),
+      RDLHeaderGenerator.convertPDFImages(enhancedAnalysis?.images, headerTextboxes, databaseImageSources())
+    );
+  }, [analysisResult, enhancedAnalysis, fieldCatalog, baseRDLContent, headerScope, footerOptions, databaseImageSources]);
+
+  // Executable RDL for the validation panel and previews; generation errors are reported on download
+  const executableRDL = useMemo(() => {
+    if ((!analysisResult && !enhancedAnalysis) || !baseRDLContent) return undefined;
+    try {
+      return buildExecutableRDL();
+    } catch {
+      return undefined;
+    }
+  }, [analysisResult, enhancedAnalysis, baseRDLContent, buildExecutableRDL]);
+
   const generateExecutableRDL = () => {
     if ((!analysisResult && !enhancedAnalysis) || !baseRDLContent) {
       toast({
@@ -535,25 +690,14 @@ export const PDFAnalyzer = () => {
     }
 
     try {
-      let headerTextboxes;
-      
-      // Use enhanced analysis if available for better results
-      if (enhancedAnalysis) {
-        headerTextboxes = RDLHeaderGenerator.convertEnhancedHeaderAnalysis(enhancedAnalysis.headerAnalysis);
-        console.log('Using enhanced header analysis:', headerTextboxes);
-      } else {
-        headerTextboxes = RDLHeaderGenerator.convertPDFComponentsToHeaderTextboxes(analysisResult.components);
-      }
-      
-      // Generate executable RDL with updated header
-      const executableRDL = RDLHeaderGenerator.generateExecutableRDL(baseRDLContent, headerTextboxes);
-      
-      return executableRDL;
+      return buildExecutableRDL();
     } catch (error) {
       console.error('Error generating executable RDL:', error);
       toast({
         title: "Generation Failed",
-        description: "Failed to generate executable RDL. Please check your base RDL file.",
+        description: error instanceof RDLMergeError
+          ? error.message
+          : "Failed to generate executable RDL. Please check your base RDL file.",
         variant: "destructive",
       });
       return '';
@@ -617,7 +761,7 @@ export const PDFAnalyzer = () => {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5 bg-gradient-card shadow-card">
+        <TabsList className="grid w-full grid-cols-6 bg-gradient-card shadow-card">
           <TabsTrigger value="upload" className="flex items-center gap-2">
             <Upload className="w-4 h-4" />
             Upload PDF
@@ -638,6 +782,10 @@ export const PDFAnalyzer = () => {
             <Database className="w-4 h-4" />
             RDL Template
           </TabsTrigger>
+          <TabsTrigger value="compare" className="flex items-center gap-2" disabled={!enhancedAnalysis}>
+            <GitCompare className="w-4 h-4" />
+            Compare
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="upload" className="space-y-6">
@@ -709,6 +857,21 @@ export const PDFAnalyzer = () => {
                         {baseRDLFile.name}
                       </div>
                     )}
+                    {dataSetNames.length > 1 && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-muted-foreground">Header dataset</span>
+                        <Select value={headerScope} onValueChange={setHeaderDataSet}>
+                          <SelectTrigger className="w-40 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {dataSetNames.map(name => (
+                              <SelectItem key={name} value={name}>{name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -746,27 +909,37 @@ export const PDFAnalyzer = () => {
         <TabsContent value="analysis" className="space-y-6">
           <Card className="p-6 bg-gradient-card shadow-card">
             <div className="space-y-4">
-              <div className="flex items-center gap-3">
-                <Layers className="w-5 h-5 text-primary" />
-                <h3 className="text-lg font-semibold">PDF Analysis in Progress</h3>
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <Layers className="w-5 h-5 text-primary" />
+                  <h3 className="text-lg font-semibold">PDF Analysis in Progress</h3>
+                </div>
+                {isAnalyzing && (
+                  <Button variant="outline" size="sm" onClick={cancelAnalysis}>
+                    Cancel
+                  </Button>
+                )}
               </div>
               <Progress value={progress} className="w-full" />
+              {progressDetail && (
+                <p className="text-sm text-muted-foreground">{describeProgress(progressDetail)}</p>
+              )}
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                 <div className="flex items-center gap-2">
-                  <div className={`w-2 h-2 rounded-full ${progress > 20 ? 'bg-primary' : 'bg-muted'}`} />
+                  <div className={`w-2 h-2 rounded-full ${progress >= STAGE_PROGRESS['reading-pages'][0] ? 'bg-primary' : 'bg-muted'}`} />
                   Document Parsing
                 </div>
                 <div className="flex items-center gap-2">
-                  <div className={`w-2 h-2 rounded-full ${progress > 40 ? 'bg-primary' : 'bg-muted'}`} />
-                  Layout Detection
+                  <div className={`w-2 h-2 rounded-full ${progress >= STAGE_PROGRESS['classifying'][0] ? 'bg-primary' : 'bg-muted'}`} />
+                  Component Analysis
                 </div>
                 <div className="flex items-center gap-2">
-                  <div className={`w-2 h-2 rounded-full ${progress > 70 ? 'bg-primary' : 'bg-muted'}`} />
-                  Component Analysis
+                  <div className={`w-2 h-2 rounded-full ${progress >= STAGE_PROGRESS['combining'][0] ? 'bg-primary' : 'bg-muted'}`} />
+                  Page Combining
                 </div>
                 <div className="flex items-center gap-2">
-                  <div className={`w-2 h-2 rounded-full ${progress > 90 ? 'bg-primary' : 'bg-muted'}`} />
-                  SSRS Generation
+                  <div className={`w-2 h-2 rounded-full ${progress >= STAGE_PROGRESS['layout'][0] ? 'bg-primary' : 'bg-muted'}`} />
+                  Layout Detection
                 </div>
               </div>
             </div>
@@ -954,7 +1127,16 @@ export const PDFAnalyzer = () => {
 
               <Card className="p-6 bg-gradient-card shadow-card">
                 <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold">Detected Components</h3>
+                  <div>
+                    <h3 className="text-lg font-semibold">Detected Components</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {analysisResult.pages} {analysisResult.pages === 1 ? 'page' : 'pages'} analyzed
+                      {enhancedAnalysis?.classifier && (
+                        <> · {enhancedAnalysis.classifier.backend} classifier
+                          {enhancedAnalysis.classifier.modelId && ` (${enhancedAnalysis.classifier.modelId})`}</>
+                      )}
+                    </p>
+                  </div>
                   <Button onClick={downloadBlueprint} variant="hero">
                     <Download className="w-4 h-4" />
                     Download SSRS Blueprint
@@ -1017,6 +1199,10 @@ export const PDFAnalyzer = () => {
               fields={editableFields}
               onFieldsChange={handleFieldsChange}
               onGenerateRDL={handleGenerateRDLFromEditor}
+              pdfFile={selectedFile}
+              pageWidth={enhancedAnalysis?.pageWidth}
+              pageHeight={enhancedAnalysis?.pageHeight}
+              baseRDL={baseRDLContent}
             />
           )}
         </TabsContent>
@@ -1083,15 +1269,82 @@ export const PDFAnalyzer = () => {
                         <span className="font-medium text-purple-700">Tables:</span> {analysisResult.sections.body.filter(c => c.type === 'table').length} detected
                       </div>
                     </div>
+                    <h4 className="font-medium">Page Footer:</h4>
+                    <div className="space-y-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="footer-first-page"
+                          checked={footerOptions.printOnFirstPage}
+                          onCheckedChange={checked => setFooterOptions(options => ({ ...options, printOnFirstPage: checked }))}
+                        />
+                        <Label htmlFor="footer-first-page">Print on first page</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="footer-last-page"
+                          checked={footerOptions.printOnLastPage}
+                          onCheckedChange={checked => setFooterOptions(options => ({ ...options, printOnLastPage: checked }))}
+                        />
+                        <Label htmlFor="footer-last-page">Print on last page</Label>
+                      </div>
+                    </div>
+                    {firstPageImages.length > 0 && (
+                      <>
+                        <h4 className="font-medium">Images:</h4>
+                        <div className="space-y-2 text-sm">
+                          {firstPageImages.map(image => (
+                            <div key={image.name} className="flex items-center gap-3">
+                              <img
+                                src={`data:${image.mimeType};base64,${image.data}`}
+                                alt={image.name}
+                                className="h-8 max-w-24 object-contain border rounded bg-background"
+                              />
+                              {imageFields.length > 0 ? (
+                                <Select
+                                  value={imageFieldChoices[image.name] || 'embedded'}
+                                  onValueChange={value => setImageFieldChoices(choices => ({ ...choices, [image.name]: value === 'embedded' ? '' : value }))}
+                                >
+                                  <SelectTrigger className="w-48 h-8">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="embedded">Embedded image</SelectItem>
+                                    {imageFields.map(field => (
+                                      <SelectItem key={imageFieldKey(field)} value={imageFieldKey(field)}>
+                                        {field.dataSet}.{field.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <span className="text-muted-foreground">Embedded image</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
                   </div>
                 </div>
               </Card>
 
+              <RDLValidationPanel
+                templateRDL={templateRDL}
+                executableRDL={executableRDL}
+                fileBaseName={selectedFile?.name.replace('.pdf', '') || 'report'}
+              />
+
+              <SSRSPreview
+                templateRDL={templateRDL}
+                executableRDL={executableRDL}
+                pdfValues={pdfSampleValues}
+              />
+
               <Card className="p-6 bg-gradient-card shadow-card">
                 <h3 className="text-lg font-semibold mb-4">RDL Preview</h3>
                 <div className="bg-muted/30 p-4 rounded-lg max-h-96 overflow-y-auto">
                   <pre className="text-xs whitespace-pre-wrap">
-                    {generateRDLTemplate().substring(0, 2000)}...
+                    {templateRDL.substring(0, 2000)}...
                   </pre>
                 </div>
                 <p className="text-sm text-muted-foreground mt-2">
@@ -1101,6 +1354,18 @@ export const PDFAnalyzer = () => {
             </>
           )}
         </TabsContent>
+
+        <TabsContent value="compare" className="space-y-6">
+          {enhancedAnalysis && (
+            <RDLComparisonView
+              pdfFile={selectedFile}
+              textItems={enhancedAnalysis.allTextItems}
+              templateRDL={templateRDL}
+              executableRDL={executableRDL}
+              pdfValues={pdfSampleValues}
+            />
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,6 +10,10 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { RDLPreview } from "./RDLPreview";
+import { FieldLayoutCanvas, LayoutChange, LayoutField } from "./FieldLayoutCanvas";
+import { RDLExpressionEditor } from "./RDLExpressionEditor";
+import { RDLExpressionAssist } from "@/utils/RDLExpressionAssist";
+import { ClassificationCorrections, CorrectionSubject } from "@/utils/ClassificationCorrections";
 import { 
   Edit, 
   Move, 
@@ -42,7 +46,10 @@ interface PDFField {
   styles?: {
     fontSize?: number;
     fontFamily?: string;
+    fontWeight?: string;
+    isItalic?: boolean;
     color?: string;
+    // left, center or right
     alignment?: string;
   };
   tableData?: {
@@ -56,18 +63,50 @@ interface PDFFieldEditorProps {
   fields: PDFField[];
   onFieldsChange: (fields: PDFField[]) => void;
   onGenerateRDL: () => void;
+  // Drawn behind the fields on the layout canvas
+  pdfFile?: File | null;
+  pageWidth?: number;
+  pageHeight?: number;
+  // Base RDL whose datasets and parameters expressions are completed and checked against
+  baseRDL?: string;
 }
 
+// Corrections are keyed by the text as it was read from the PDF
+const toCorrectionSubject = (field: PDFField): CorrectionSubject => ({
+  text: field.originalContent || field.content || '',
+  x: field.x,
+  y: field.y,
+  width: field.width,
+  height: field.height,
+  fontSize: field.styles?.fontSize,
+  fontFamily: field.styles?.fontFamily
+});
+
+const recordCorrection = (
+  field: PDFField | undefined,
+  fields: PDFField[],
+  correction: { label?: PDFField['classification']; section?: PDFField['section'] }
+) => {
+  if (!field || field.type !== 'textbox' || !(field.originalContent || field.content)) return;
+  const others = fields.filter(other => other.id !== field.id && other.type === 'textbox').map(toCorrectionSubject);
+  ClassificationCorrections.record(toCorrectionSubject(field), others, correction);
+};
+
 export const PDFFieldEditor: React.FC<PDFFieldEditorProps> = ({
   fields,
   onFieldsChange,
-  onGenerateRDL
+  onGenerateRDL,
+  pdfFile,
+  pageWidth = 612,
+  pageHeight = 792,
+  baseRDL = ''
 }) => {
   const { toast } = useToast();
   const [selectedField, setSelectedField] = useState<PDFField | null>(null);
   const [editingField, setEditingField] = useState<PDFField | null>(null);
   const [history, setHistory] = useState<PDFField[][]>([fields]);
   const [historyIndex, setHistoryIndex] = useState(0);
+  const vocabulary = useMemo(() => RDLExpressionAssist.vocabulary(baseRDL), [baseRDL]);
 
   // Save current state to history
   const saveToHistory = useCallback((newFields: PDFField[]) => {
@@ -92,6 +131,8 @@ export const PDFFieldEditor: React.FC<PDFFieldEditorProps> = ({
 
   // Move field between sections
   const moveFieldToSection = useCallback((fieldId: string, newSection: 'header' | 'body' | 'footer') => {
+    recordCorrection(fields.find(field => field.id === fieldId), fields, { section: newSection });
+    
     const updatedFields = fields.map(field =>
       field.id === fieldId ? { ...field, section: newSection } : field
     );
@@ -123,6 +164,8 @@ export const PDFFieldEditor: React.FC<PDFFieldEditorProps> = ({
 
   // Update field classification
   const updateFieldClassification = useCallback((fieldId: string, classification: 'static-label' | 'dynamic-data' | 'standalone-text') => {
+    recordCorrection(fields.find(field => field.id === fieldId), fields, { label: classification });
+    
     const updatedFields = fields.map(field =>
       field.id === fieldId ? { ...field, classification } : field
     );
@@ -149,6 +192,28 @@ export const PDFFieldEditor: React.FC<PDFFieldEditorProps> = ({
     });
   }, [fields, onFieldsChange, saveToHistory, toast]);
 
+  // Apply moves and resizes from the layout canvas as one undoable change
+  const updateLayout = useCallback((changes: LayoutChange[]) => {
+    const changesById = new Map(changes.map(change => [change.id, change]));
+    const updatedFields = fields.map(field => {
+      const change = changesById.get(field.id);
+      return change ? { ...field, x: change.x, y: change.y, width: change.width, height: change.height } : field;
+    });
+    
+    saveToHistory(updatedFields);
+    onFieldsChange(updatedFields);
+  }, [fields, onFieldsChange, saveToHistory]);
+
+  const layoutFields = useMemo((): LayoutField[] => fields.map(field => ({
+    id: field.id,
+    section: field.section,
+    x: field.x,
+    y: field.y,
+    width: field.width,
+    height: field.height,
+    label: (field.isExpression ? field.expression : field.content) || field.id
+  })), [fields]);
+
   // Get fields by section
   const getFieldsBySection = useCallback((section: 'header' | 'body' | 'footer') => {
     return fields.filter(field => field.section === section);
@@ -291,6 +356,14 @@ export const PDFFieldEditor: React.FC<PDFFieldEditorProps> = ({
       onSave(formData);
     };
 
+    // Tables and body text laid over them end up in a Tablix, whose cells read its dataset
+    const inDataRegion = formData.section === 'body' && (formData.type === 'table' || fields.some(other =>
+      other.type === 'table' && other.section === 'body' &&
+      formData.x >= other.x && formData.y >= other.y &&
+      formData.x + formData.width <= other.x + other.width &&
+      formData.y + formData.height <= other.y + other.height
+    ));
+
     return (
       <div className="space-y-4">
         <div className="grid grid-cols-2 gap-4">
@@ -351,20 +424,19 @@ export const PDFFieldEditor: React.FC<PDFFieldEditorProps> = ({
           {formData.isExpression ? (
             <div>
               <Label htmlFor="expression">Expression/Formula</Label>
-              <Textarea
+              <RDLExpressionEditor
                 id="expression"
                 value={formData.expression || formData.content || ''}
-                onChange={(e) => setFormData(prev => ({ 
+                onChange={(value) => setFormData(prev => ({ 
                   ...prev, 
-                  expression: e.target.value,
-                  content: e.target.value 
+                  expression: value,
+                  content: value 
                 }))}
+                vocabulary={vocabulary}
+                section={formData.section}
+                inDataRegion={inDataRegion}
                 placeholder="Enter SSRS expression (e.g., =Fields!CustomerName.Value, =Today(), etc.)"
-                className="font-mono text-sm"
               />
-              <div className="text-xs text-muted-foreground mt-1">
-                Examples: =Fields!FieldName.Value, =Parameters!ParamName.Value, =Today(), =User!UserID
-              </div>
             </div>
           ) : (
             <div>
@@ -473,11 +545,15 @@ export const PDFFieldEditor: React.FC<PDFFieldEditorProps> = ({
       </div>
       
       <Tabs defaultValue="all" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="all">All Fields ({fields.length})</TabsTrigger>
           <TabsTrigger value="header">Header ({getFieldsBySection('header').length})</TabsTrigger>
           <TabsTrigger value="body">Body ({getFieldsBySection('body').length})</TabsTrigger>
           <TabsTrigger value="footer">Footer ({getFieldsBySection('footer').length})</TabsTrigger>
+          <TabsTrigger value="layout">
+            <Move className="w-4 h-4 mr-2" />
+            Layout
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="all" className="space-y-4">
@@ -511,6 +587,16 @@ export const PDFFieldEditor: React.FC<PDFFieldEditorProps> = ({
             ))}
           </div>
         </TabsContent>
+        
+        <TabsContent value="layout" className="space-y-4">
+          <FieldLayoutCanvas
+            fields={layoutFields}
+            pdfFile={pdfFile}
+            pageWidth={pageWidth}
+            pageHeight={pageHeight}
+            onLayoutChange={updateLayout}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
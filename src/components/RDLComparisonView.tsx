@@ -0,0 +1,283 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RDLPageCanvas, PIXELS_PER_POINT } from '@/components/RDLPageCanvas';
+import { EnhancedPDFTextItem } from '@/utils/EnhancedPDFParser';
+import { PDFEngineError, PDFJSLoader } from '@/utils/PDFJSLoader';
+import { RDLPreviewLayout, RDLPreviewPage } from '@/utils/RDLPreviewLayout';
+import { RDLMergeError } from '@/utils/RDLMergeEngine';
+import { PDFSampleValues, RDLSampleDataError, RDLSampleDataLoader } from '@/utils/RDLSampleDataLoader';
+import { RDLDiffBox, RDLDiffStatus, RDLVisualDiff } from '@/utils/RDLVisualDiff';
+
+interface RDLComparisonViewProps {
+  pdfFile: File | null;
+  // Text items of the analysis; only those on page 1 are compared
+  textItems: EnhancedPDFTextItem[];
+  templateRDL: string;
+  executableRDL?: string;
+  pdfValues?: PDFSampleValues;
+}
+
+type ComparisonMode = 'side-by-side' | 'overlay';
+type PreviewSource = 'template' | 'executable';
+
+const ZOOM_LEVELS = [0.5, 0.75, 1];
+
+const STATUS_COLORS: Record<Exclude<RDLDiffStatus, 'matched'>, string> = {
+  missing: '#ef4444',
+  misaligned: '#f59e0b',
+  extra: '#3b82f6'
+};
+
+const STATUS_LABELS: Record<Exclude<RDLDiffStatus, 'matched'>, string> = {
+  missing: 'Missing from RDL',
+  misaligned: 'Misaligned',
+  extra: 'Only in RDL'
+};
+
+// Values captured from the PDF fill the layout, so the RDL shows the same text as the page
+const layoutOf = (rdl: string, pdfValues?: PDFSampleValues): { page?: RDLPreviewPage; error?: string } => {
+  try {
+    return { page: RDLPreviewLayout.fromRDL(rdl, pdfValues ? RDLSampleDataLoader.fromPDF(rdl, pdfValues) : undefined) };
+  } catch (error) {
+    if (error instanceof RDLMergeError || error instanceof RDLSampleDataError) return { error: error.message };
+    throw error;
+  }
+};
+
+const PDFPageCanvas: React.FC<{ file: File; scale: number; onError: (message: string) => void }> = ({ file, scale, onError }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const render = async () => {
+      const page = await PDFJSLoader.renderPage(await file.arrayBuffer(), 1, scale);
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (cancelled || !canvas || !context) return;
+
+      canvas.width = page.width;
+      canvas.height = page.height;
+      context.drawImage(page, 0, 0);
+    };
+    // renderPage reports PDF failures as PDFEngineError; reading the file can fail too
+    render().catch(error => {
+      if (!cancelled) onError(error instanceof PDFEngineError ? error.message : `The PDF could not be read: ${String(error)}`);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, scale, onError]);
+
+  return <canvas ref={canvasRef} className="block" />;
+};
+
+export const RDLComparisonView: React.FC<RDLComparisonViewProps> = ({ pdfFile, textItems, templateRDL, executableRDL, pdfValues }) => {
+  const [mode, setMode] = useState<ComparisonMode>('side-by-side');
+  const [source, setSource] = useState<PreviewSource>('template');
+  const [zoom, setZoom] = useState(0.75);
+  const [opacity, setOpacity] = useState(50);
+  const [showHighlights, setShowHighlights] = useState(true);
+  const [pdfError, setPdfError] = useState<string>();
+
+  const rdl = source === 'executable' && executableRDL ? executableRDL : templateRDL;
+  const { page, error } = useMemo(() => layoutOf(rdl, pdfValues), [rdl, pdfValues]);
+  const diff = useMemo(() => page && RDLVisualDiff.compare(textItems, page), [textItems, page]);
+  const mismatches = diff ? diff.pairs.filter(pair => pair.status !== 'matched') : [];
+  const scale = PIXELS_PER_POINT * zoom;
+
+  useEffect(() => setPdfError(undefined), [pdfFile]);
+
+  // Missing text is marked where the PDF prints it, extra textboxes where the RDL places them
+  const highlights = (side: 'pdf' | 'rdl' | 'both') => {
+    if (!page || !showHighlights) return null;
+    const rects: Array<{ box: RDLDiffBox; status: Exclude<RDLDiffStatus, 'matched'>; dashed: boolean }> = [];
+    for (const pair of mismatches) {
+      const status = pair.status as Exclude<RDLDiffStatus, 'matched'>;
+      if (pair.pdfBounds && side !== 'rdl') rects.push({ box: pair.pdfBounds, status, dashed: false });
+      if (pair.rdlBounds && side !== 'pdf') rects.push({ box: pair.rdlBounds, status, dashed: side === 'both' });
+    }
+    return (
+      <svg className="absolute inset-0 pointer-events-none" width={page.width * scale} height={page.height * scale}>
+        {rects.map(({ box, status, dashed }, index) => (
+          <rect
+            key={index}
+            x={box.x * scale}
+            y={box.y * scale}
+            width={Math.max(1, box.width * scale)}
+            height={Math.max(1, box.height * scale)}
+            fill={STATUS_COLORS[status]}
+            fillOpacity={0.15}
+            stroke={STATUS_COLORS[status]}
+            strokeWidth={1.5}
+            strokeDasharray={dashed ? '4 3' : undefined}
+          />
+        ))}
+      </svg>
+    );
+  };
+
+  const pdfPane = pdfFile && <PDFPageCanvas file={pdfFile} scale={scale} onError={setPdfError} />;
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-card">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h3 className="text-lg font-semibold">PDF vs RDL Comparison</h3>
+        <div className="flex gap-2">
+          <Select value={mode} onValueChange={value => setMode(value as ComparisonMode)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="side-by-side">Side by side</SelectItem>
+              <SelectItem value="overlay">Overlay</SelectItem>
+            </SelectContent>
+          </Select>
+          {executableRDL && (
+            <Select value={source} onValueChange={value => setSource(value as PreviewSource)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="template">RDL template</SelectItem>
+                <SelectItem value="executable">Executable RDL</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={String(zoom)} onValueChange={value => setZoom(Number(value))}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ZOOM_LEVELS.map(level => (
+                <SelectItem key={level} value={String(level)}>{level * 100}%</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-6 mb-4">
+        <div className="flex items-center gap-2">
+          <Switch id="comparison-highlights" checked={showHighlights} onCheckedChange={setShowHighlights} />
+          <Label htmlFor="comparison-highlights">Highlight differences</Label>
+        </div>
+        {mode === 'overlay' && (
+          <div className="flex items-center gap-3 w-72">
+            <Label className="whitespace-nowrap">RDL opacity</Label>
+            <Slider value={[opacity]} min={0} max={100} step={5} onValueChange={([value]) => setOpacity(value)} />
+            <span className="text-sm text-muted-foreground w-10">{opacity}%</span>
+          </div>
+        )}
+      </div>
+
+      {diff && (
+        <div className="grid grid-cols-4 gap-3 mb-4">
+          <div className="p-3 rounded-lg border border-border">
+            <p className="text-sm text-muted-foreground">Overall alignment</p>
+            <p className="text-2xl font-semibold">{Math.round(diff.score * 100)}%</p>
+          </div>
+          {diff.regions.map(region => (
+            <div key={region.region} className="p-3 rounded-lg border border-border">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground capitalize">{region.region}</p>
+                <Badge variant={region.score >= RDLVisualDiff.MATCH_IOU ? 'secondary' : 'destructive'}>
+                  {Math.round(region.score * 100)}%
+                </Badge>
+              </div>
+              <p className="text-sm mt-1">{region.matched} of {region.textItems} text items aligned</p>
+              {region.textItems > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Offset {region.offset.x.toFixed(1)}pt, {region.offset.y.toFixed(1)}pt
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error || pdfError ? (
+        <p className="text-sm text-destructive">{error || pdfError}</p>
+      ) : !pdfFile ? (
+        <p className="text-sm text-muted-foreground">Upload a PDF to compare it with the generated RDL.</p>
+      ) : page && mode === 'overlay' ? (
+        <div className="border border-border rounded-lg overflow-auto max-h-[48rem] bg-muted/30 p-4">
+          <div className="relative w-fit shadow-card">
+            {pdfPane}
+            <div className="absolute inset-0" style={{ opacity: opacity / 100 }}>
+              <RDLPageCanvas page={page} scale={scale} showSections={false} />
+            </div>
+            {highlights('both')}
+          </div>
+        </div>
+      ) : page && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="border border-border rounded-lg overflow-auto max-h-[48rem] bg-muted/30 p-4">
+            <p className="text-sm font-medium mb-2">Source PDF, page 1</p>
+            <div className="relative w-fit shadow-card">
+              {pdfPane}
+              {highlights('pdf')}
+            </div>
+          </div>
+          <div className="border border-border rounded-lg overflow-auto max-h-[48rem] bg-muted/30 p-4">
+            <p className="text-sm font-medium mb-2">RDL preview</p>
+            <div className="relative w-fit shadow-card">
+              <RDLPageCanvas page={page} scale={scale} showSections={false} />
+              {highlights('rdl')}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 flex gap-4 text-sm">
+        {(Object.keys(STATUS_COLORS) as Array<keyof typeof STATUS_COLORS>).map(status => (
+          <div key={status} className="flex items-center gap-2">
+            <div className="w-3 h-3 border rounded" style={{ borderColor: STATUS_COLORS[status], backgroundColor: `${STATUS_COLORS[status]}26` }}></div>
+            <span>{STATUS_LABELS[status]} ({mismatches.filter(pair => pair.status === status).length})</span>
+          </div>
+        ))}
+        <span className="text-muted-foreground">
+          A textbox is aligned when it overlaps its PDF text by at least {RDLVisualDiff.MATCH_IOU * 100}% (IoU)
+        </span>
+      </div>
+
+      {mismatches.length > 0 && (
+        <div className="mt-4 max-h-64 overflow-auto border border-border rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 sticky top-0">
+              <tr>
+                <th className="text-left p-2">Status</th>
+                <th className="text-left p-2">Region</th>
+                <th className="text-left p-2">PDF text</th>
+                <th className="text-left p-2">RDL textbox</th>
+                <th className="text-right p-2">IoU</th>
+              </tr>
+            </thead>
+            <tbody>
+              {mismatches.map((pair, index) => (
+                <tr key={index} className="border-t border-border">
+                  <td className="p-2" style={{ color: STATUS_COLORS[pair.status as keyof typeof STATUS_COLORS] }}>
+                    {STATUS_LABELS[pair.status as keyof typeof STATUS_LABELS]}
+                  </td>
+                  <td className="p-2 capitalize">{pair.region}</td>
+                  <td className="p-2 truncate max-w-[16rem]">{pair.pdfText}</td>
+                  <td className="p-2 truncate max-w-[16rem]">
+                    {pair.rdlName && <span className="text-muted-foreground">{pair.rdlName}: </span>}
+                    {pair.rdlText}
+                  </td>
+                  <td className="p-2 text-right">{pair.iou.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
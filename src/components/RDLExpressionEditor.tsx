@@ -0,0 +1,207 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import {
+  RDLExpressionAssist,
+  RDLExpressionCompletion,
+  RDLExpressionSection,
+  RDLExpressionSuggestion,
+  RDLExpressionTokenKind,
+  RDLExpressionVocabulary
+} from '@/utils/RDLExpressionAssist';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface RDLExpressionEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  vocabulary: RDLExpressionVocabulary;
+  // Where the textbox sits decides whether fields need an aggregate with a dataset scope
+  section: RDLExpressionSection;
+  // Body textboxes inside a Tablix read fields from its dataset without naming it
+  inDataRegion?: boolean;
+  placeholder?: string;
+}
+
+const TOKEN_CLASSES: Record<RDLExpressionTokenKind, string> = {
+  operator: 'text-muted-foreground',
+  string: 'text-amber-700',
+  number: 'text-emerald-700',
+  collection: 'text-blue-700 font-semibold',
+  member: 'text-cyan-700',
+  function: 'text-purple-700',
+  keyword: 'text-pink-700',
+  name: 'text-foreground',
+  whitespace: '',
+  invalid: 'text-destructive'
+};
+
+const SUGGESTION_LABELS: Record<RDLExpressionSuggestion['kind'], string> = {
+  field: 'Field',
+  parameter: 'Param',
+  global: 'Global',
+  collection: 'Collection',
+  function: 'Function'
+};
+
+// The highlighted text sits under a transparent textarea, so both need the same box and font
+const TEXT_LAYOUT = 'min-h-[80px] px-3 py-2 font-mono text-sm leading-6 whitespace-pre-wrap break-words';
+
+export const RDLExpressionEditor: React.FC<RDLExpressionEditorProps> = ({
+  id,
+  value,
+  onChange,
+  vocabulary,
+  section,
+  inDataRegion = false,
+  placeholder
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const pendingCursor = useRef<number | null>(null);
+  const [completion, setCompletion] = useState<RDLExpressionCompletion | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const tokens = useMemo(() => RDLExpressionAssist.tokenize(value), [value]);
+  const issues = useMemo(
+    () => RDLExpressionAssist.validate(value, vocabulary, section, inDataRegion),
+    [value, vocabulary, section, inDataRegion]
+  );
+  const errorTargets = new Set(issues.filter(issue => issue.severity === 'error' && issue.target).map(issue => issue.target!));
+
+  // Put the cursor after inserted text once React has written the new value
+  useLayoutEffect(() => {
+    if (pendingCursor.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingCursor.current, pendingCursor.current);
+    pendingCursor.current = null;
+  }, [value]);
+
+  const suggest = (text: string, cursor: number, explicit = false) => {
+    setCompletion(RDLExpressionAssist.complete(text, cursor, vocabulary, section, explicit, inDataRegion));
+    setActiveIndex(0);
+  };
+
+  const accept = (suggestion: RDLExpressionSuggestion) => {
+    if (!completion) return;
+    const next = value.slice(0, completion.from) + suggestion.insertText + value.slice(completion.to);
+    const cursor = completion.from + suggestion.insertText.length;
+    pendingCursor.current = cursor;
+    onChange(next);
+    // A collection name leads straight on to its members
+    if (suggestion.kind === 'collection') suggest(next, cursor);
+    else setCompletion(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === ' ' && event.ctrlKey) {
+      event.preventDefault();
+      suggest(value, event.currentTarget.selectionStart, true);
+      return;
+    }
+    if (!completion) return;
+
+    const count = completion.suggestions.length;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => (index + (event.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      accept(completion.suggestions[activeIndex]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setCompletion(null);
+    }
+  };
+
+  const tokenClass = (kind: RDLExpressionTokenKind, text: string) => cn(
+    TOKEN_CLASSES[kind],
+    (errorTargets.has(text.replace(/^\[|\]$/g, '')) && kind === 'member') ||
+      (errorTargets.has(text.replace(/^"|"$/g, '')) && kind === 'string') ||
+      kind === 'invalid'
+      ? 'underline decoration-wavy decoration-destructive'
+      : undefined
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-md bg-background">
+        <pre
+          ref={highlightRef}
+          aria-hidden
+          className={cn(TEXT_LAYOUT, 'absolute inset-0 m-0 overflow-hidden rounded-md border border-transparent pointer-events-none')}
+        >
+          {tokens.map((token, index) => (
+            <span key={index} className={tokenClass(token.kind, token.text)}>{token.text}</span>
+          ))}
+          {/* Keeps a trailing line break from collapsing */}
+          {'\n'}
+        </pre>
+        <Textarea
+          ref={textareaRef}
+          id={id}
+          value={value}
+          spellCheck={false}
+          placeholder={placeholder}
+          className={cn(TEXT_LAYOUT, 'relative bg-transparent text-transparent caret-foreground resize-y')}
+          onChange={event => {
+            onChange(event.target.value);
+            suggest(event.target.value, event.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onScroll={event => {
+            if (highlightRef.current) highlightRef.current.scrollTop = event.currentTarget.scrollTop;
+          }}
+          onBlur={() => setCompletion(null)}
+        />
+        {completion && (
+          <ul className="absolute left-0 right-0 top-full z-50 mt-1 max-h-56 overflow-auto rounded-md border border-border bg-popover py-1 shadow-md">
+            {completion.suggestions.map((suggestion, index) => (
+              <li
+                key={`${suggestion.kind}-${suggestion.label}-${suggestion.detail}`}
+                className={cn(
+                  'flex items-center justify-between gap-4 px-3 py-1 text-sm cursor-pointer',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+                // Keep the focus in the textarea so the cursor survives the click
+                onMouseDown={event => event.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => accept(suggestion)}
+              >
+                <span className="font-mono truncate">{suggestion.label}</span>
+                <span className="text-xs text-muted-foreground truncate">
+                  {SUGGESTION_LABELS[suggestion.kind]} · {suggestion.detail}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {issues.length > 0 ? (
+        <ul className="space-y-1">
+          {issues.map((issue, index) => (
+            <li
+              key={index}
+              className={cn('flex items-start gap-2 text-xs', issue.severity === 'error' ? 'text-destructive' : 'text-amber-700')}
+            >
+              {issue.severity === 'error'
+                ? <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      ) : value.trim() && (
+        <div className="flex items-center gap-2 text-xs text-green-700">
+          <CheckCircle2 className="w-3 h-3" />
+          <span>Expression is valid</span>
+        </div>
+      )}
+      <div className="text-xs text-muted-foreground">
+        Ctrl+Space lists fields, parameters, globals and functions.
+        {vocabulary.dataSets.length === 0 && ' Upload a base RDL to complete and check dataset fields.'}
+      </div>
+    </div>
+  );
+};
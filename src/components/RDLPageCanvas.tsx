@@ -0,0 +1,247 @@
+import React, { useRef, useEffect } from 'react';
+import { Canvas as FabricCanvas, FabricImage, FabricObject, Line, Rect, Textbox } from 'fabric';
+import {
+  RDLPreviewBorder,
+  RDLPreviewBorders,
+  RDLPreviewImage,
+  RDLPreviewItem,
+  RDLPreviewPage,
+  RDLPreviewTextbox
+} from '@/utils/RDLPreviewLayout';
+
+interface RDLPageCanvasProps {
+  page: RDLPreviewPage;
+  // Screen pixels per point
+  scale: number;
+  // Dashed outlines of the header, body and footer
+  showSections?: boolean;
+  className?: string;
+}
+
+// Screen pixels per point at 100%
+export const PIXELS_PER_POINT = 96 / 72;
+
+const SECTION_COLORS = {
+  header: '#3b82f6',
+  body: '#22c55e',
+  footer: '#a855f7'
+};
+
+const DASH_ARRAYS: Record<RDLPreviewBorder['style'], number[] | undefined> = {
+  Solid: undefined,
+  Double: undefined,
+  Dashed: [6, 3],
+  Dotted: [1, 2]
+};
+
+const borderLines = (x: number, y: number, width: number, height: number, borders: RDLPreviewBorders, scale: number): Line[] => {
+  const sides: Array<[RDLPreviewBorder | null, [number, number, number, number]]> = [
+    [borders.top, [x, y, x + width, y]],
+    [borders.right, [x + width, y, x + width, y + height]],
+    [borders.bottom, [x, y + height, x + width, y + height]],
+    [borders.left, [x, y, x, y + height]]
+  ];
+  return sides
+    .filter((side): side is [RDLPreviewBorder, [number, number, number, number]] => side[0] !== null)
+    .map(([border, points]) => lineOf(points, border, scale));
+};
+
+const lineOf = (points: [number, number, number, number], border: RDLPreviewBorder, scale: number): Line =>
+  new Line(points.map(point => point * scale) as [number, number, number, number], {
+    stroke: border.color,
+    strokeWidth: Math.max(1, border.width * scale),
+    strokeDashArray: DASH_ARRAYS[border.style]?.map(dash => dash * scale),
+    selectable: false,
+    evented: false
+  });
+
+// One Fabric textbox per paragraph, stacked inside the padding and clipped to the box
+const textboxObjects = (item: RDLPreviewTextbox, scale: number): FabricObject[] => {
+  const { padding } = item;
+  const innerWidth = Math.max(1, (item.width - padding.left - padding.right) * scale);
+  const clipPath = new Rect({
+    left: item.x * scale,
+    top: item.y * scale,
+    width: item.width * scale,
+    height: item.height * scale,
+    absolutePositioned: true
+  });
+
+  const paragraphs = item.paragraphs
+    .map(paragraph => {
+      const text = paragraph.runs.map(run => run.text).join('');
+      // Fabric styles a textbox as a whole, so the first run's style stands for the paragraph
+      const style = paragraph.runs[0]?.style;
+      if (!text || !style) return null;
+      return new Textbox(text, {
+        left: (item.x + padding.left) * scale,
+        top: 0,
+        width: innerWidth,
+        fontFamily: style.fontFamily,
+        fontSize: style.fontSize * scale,
+        fontWeight: style.fontWeight,
+        fontStyle: style.fontStyle,
+        fill: style.color,
+        underline: style.underline,
+        linethrough: style.lineThrough,
+        textAlign: paragraph.textAlign,
+        clipPath,
+        selectable: false,
+        evented: false
+      });
+    })
+    .filter((textbox): textbox is Textbox => textbox !== null);
+
+  const textHeight = paragraphs.reduce((sum, textbox) => sum + textbox.height, 0);
+  const innerTop = (item.y + padding.top) * scale;
+  const innerHeight = (item.height - padding.top - padding.bottom) * scale;
+  const offset = item.verticalAlign === 'middle' ? (innerHeight - textHeight) / 2 : item.verticalAlign === 'bottom' ? innerHeight - textHeight : 0;
+  let top = innerTop + Math.max(0, offset);
+  for (const textbox of paragraphs) {
+    textbox.set({ top });
+    top += textbox.height;
+  }
+
+  // Text cut off by the box is outlined, since a CanGrow textbox would push the layout down
+  if (textHeight > innerHeight + 1) {
+    return [...paragraphs, new Rect({
+      left: item.x * scale,
+      top: item.y * scale,
+      width: item.width * scale,
+      height: item.height * scale,
+      fill: 'transparent',
+      stroke: '#ef4444',
+      strokeDashArray: [3, 2],
+      selectable: false,
+      evented: false
+    })];
+  }
+  return paragraphs;
+};
+
+const imageObject = async (item: RDLPreviewImage, scale: number): Promise<FabricObject> => {
+  const bounds = { left: item.x * scale, top: item.y * scale, width: item.width * scale, height: item.height * scale };
+  const placeholder = () => new Rect({
+    ...bounds,
+    fill: '#f3f4f6',
+    stroke: '#9ca3af',
+    strokeDashArray: [4, 4],
+    selectable: false,
+    evented: false
+  });
+  if (!item.url) return placeholder();
+
+  try {
+    const image = await FabricImage.fromURL(item.url);
+    const scaleX = bounds.width / (image.width || 1);
+    const scaleY = bounds.height / (image.height || 1);
+    const fit = item.sizing === 'FitProportional' ? Math.min(scaleX, scaleY) : undefined;
+    image.set({
+      left: bounds.left,
+      top: bounds.top,
+      // AutoSize and Clip draw the image at its own size, clipped to the item
+      scaleX: item.sizing === 'Fit' ? scaleX : fit ?? scale,
+      scaleY: item.sizing === 'Fit' ? scaleY : fit ?? scale,
+      clipPath: new Rect({ ...bounds, absolutePositioned: true }),
+      selectable: false,
+      evented: false
+    });
+    return image;
+  } catch {
+    // External images may be unreachable or blocked by CORS
+    return placeholder();
+  }
+};
+
+const itemObjects = async (item: RDLPreviewItem, scale: number): Promise<FabricObject[]> => {
+  if (item.kind === 'line') {
+    return [lineOf([item.x1, item.y1, item.x2, item.y2], item.border, scale)];
+  }
+
+  const objects: FabricObject[] = [];
+  if (item.backgroundColor) {
+    objects.push(new Rect({
+      left: item.x * scale,
+      top: item.y * scale,
+      width: item.width * scale,
+      height: item.height * scale,
+      fill: item.backgroundColor,
+      selectable: false,
+      evented: false
+    }));
+  }
+
+  switch (item.kind) {
+    case 'textbox':
+      objects.push(...textboxObjects(item, scale));
+      break;
+    case 'image':
+      objects.push(await imageObject(item, scale));
+      break;
+    case 'rectangle':
+      for (const child of item.items) objects.push(...await itemObjects(child, scale));
+      break;
+    case 'tablix':
+      for (const row of item.rows) {
+        for (const cell of row.cells) objects.push(...await itemObjects(cell, scale));
+      }
+      break;
+  }
+
+  objects.push(...borderLines(item.x, item.y, item.width, item.height, item.borders, scale));
+  return objects;
+};
+
+// Draws a laid-out RDL page with Fabric.js
+export const RDLPageCanvas: React.FC<RDLPageCanvasProps> = ({ page, scale, showSections = true, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current || !page) return;
+
+    const canvas = new FabricCanvas(canvasRef.current, {
+      width: page.width * scale,
+      height: page.height * scale,
+      backgroundColor: '#ffffff',
+      selection: false,
+      renderOnAddRemove: false
+    });
+    let disposed = false;
+
+    const render = async () => {
+      // Section outlines go underneath the report items
+      for (const section of showSections ? page.sections : []) {
+        canvas.add(new Rect({
+          left: section.x * scale,
+          top: section.y * scale,
+          width: section.width * scale,
+          height: Math.max(1, section.height * scale),
+          fill: 'transparent',
+          stroke: SECTION_COLORS[section.kind],
+          strokeWidth: 1,
+          strokeDashArray: [4, 4],
+          opacity: 0.5,
+          selectable: false,
+          evented: false
+        }));
+      }
+
+      for (const section of page.sections) {
+        for (const item of section.items) {
+          const objects = await itemObjects(item, scale);
+          if (disposed) return;
+          canvas.add(...objects);
+        }
+      }
+      canvas.requestRenderAll();
+    };
+    render();
+
+    return () => {
+      disposed = true;
+      canvas.dispose();
+    };
+  }, [page, scale, showSections]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, Info, Wrench, XCircle } from "lucide-react";
+import { RDLSchemaValidationResult, RDLSchemaValidator } from "@/utils/RDLSchemaValidator";
+import { RDLLintFinding, RDLLinter } from "@/utils/RDLLinter";
+
+interface RDLValidationPanelProps {
+  templateRDL: string;
+  executableRDL?: string;
+  fileBaseName: string;
+}
+
+interface RDLCheckResult {
+  label: string;
+  fileSuffix: string;
+  content: string;
+  schema: RDLSchemaValidationResult;
+  findings: RDLLintFinding[];
+}
+
+const checkRDL = (label: string, fileSuffix: string, content?: string): RDLCheckResult | null =>
+  content
+    ? { label, fileSuffix, content, schema: RDLSchemaValidator.validate(content), findings: RDLLinter.lint(content) }
+    : null;
+
+const severityIcon = (severity: RDLLintFinding['severity']) => {
+  switch (severity) {
+    case 'error': return <XCircle className="w-3 h-3 text-destructive shrink-0" />;
+    case 'warning': return <AlertTriangle className="w-3 h-3 text-yellow-600 shrink-0" />;
+    default: return <Info className="w-3 h-3 text-muted-foreground shrink-0" />;
+  }
+};
+
+export const RDLValidationPanel: React.FC<RDLValidationPanelProps> = ({ templateRDL, executableRDL, fileBaseName }) => {
+  const templateResult = useMemo(() => checkRDL('RDL template', 'rdl_template', templateRDL), [templateRDL]);
+  const executableResult = useMemo(() => checkRDL('Executable RDL', 'executable', executableRDL), [executableRDL]);
+
+  const results = [templateResult, executableResult].filter((result): result is RDLCheckResult => result !== null);
+  if (results.length === 0) return null;
+
+  const downloadFixed = (result: RDLCheckResult) => {
+    const { content } = RDLLinter.applyAllFixes(result.content);
+    const blob = new Blob([content], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileBaseName}_${result.fileSuffix}_fixed.rdl`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="p-6 bg-gradient-card shadow-card">
+      <h3 className="text-lg font-semibold mb-4">Validation</h3>
+      <div className="space-y-6">
+        {results.map(result => {
+          const { label, schema, findings } = result;
+          const fixable = findings.filter(finding => finding.fix).length;
+
+          return (
+            <div key={label} className="space-y-3">
+              <div className="flex items-center gap-2">
+                {schema.valid
+                  ? <CheckCircle2 className="w-4 h-4 text-green-600" />
+                  : <XCircle className="w-4 h-4 text-destructive" />}
+                <span className="font-medium text-sm">{label}</span>
+                <Badge variant="outline">
+                  {schema.version ? `RDL ${schema.version}` : 'Unknown schema'}
+                </Badge>
+                <span className="text-sm text-muted-foreground">
+                  {schema.valid
+                    ? 'Valid against the report definition schema'
+                    : `${schema.violations.length} schema violation${schema.violations.length === 1 ? '' : 's'}`}
+                </span>
+              </div>
+
+              {!schema.valid && (
+                <div className="max-h-64 overflow-y-auto rounded border border-destructive/20 bg-destructive/5">
+                  <ul className="divide-y divide-destructive/10 text-xs">
+                    {schema.violations.map((violation, index) => (
+                      <li key={index} className="p-2 space-y-1">
+                        <div className="flex gap-2">
+                          <span className="font-mono text-muted-foreground shrink-0">Line {violation.line}</span>
+                          <span>{violation.message}</span>
+                        </div>
+                        <div className="font-mono text-muted-foreground break-all">{violation.path}</div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {findings.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">
+                      {findings.length} report issue{findings.length === 1 ? '' : 's'}
+                      {fixable > 0 && `, ${fixable} with an automatic fix`}
+                    </span>
+                    {fixable > 0 && (
+                      <Button variant="outline" size="sm" onClick={() => downloadFixed(result)}>
+                        <Wrench className="w-3 h-3" />
+                        Download with fixes
+                      </Button>
+                    )}
+                  </div>
+                  <div className="max-h-64 overflow-y-auto rounded border border-border bg-muted/30">
+                    <ul className="divide-y divide-border text-xs">
+                      {findings.map((finding, index) => (
+                        <li key={index} className="p-2 space-y-1">
+                          <div className="flex items-center gap-2">
+                            {severityIcon(finding.severity)}
+                            <span className="font-mono text-muted-foreground shrink-0">Line {finding.line}</span>
+                            <span>{finding.message}</span>
+                          </div>
+                          {finding.fix && (
+                            <div className="text-primary">Fix: {finding.fix.description}</div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
@@ -1,217 +1,147 @@
-import React, { useRef, useEffect } from 'react';
-import { Canvas as FabricCanvas, Rect, Text } from 'fabric';
+import React, { useRef, useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
-
-interface SSRSComponent {
-  id: string;
-  type: 'textbox' | 'table' | 'image';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  content?: string;
-  section: 'header' | 'body' | 'footer';
-}
+import { Button } from '@/components/ui/button';
+import { Upload } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RDLPageCanvas, PIXELS_PER_POINT } from '@/components/RDLPageCanvas';
+import { RDLPreviewLayout, RDLPreviewPage } from '@/utils/RDLPreviewLayout';
+import { RDLMergeError } from '@/utils/RDLMergeEngine';
+import { PDFSampleValues, RDLSampleData, RDLSampleDataError, RDLSampleDataLoader } from '@/utils/RDLSampleDataLoader';
 
 interface SSRSPreviewProps {
-  components: SSRSComponent[];
-  width?: number;
-  height?: number;
+  templateRDL: string;
+  executableRDL?: string;
+  // Table rows and bound header values captured from the source PDF
+  pdfValues?: PDFSampleValues;
 }
 
-export const SSRSPreview: React.FC<SSRSPreviewProps> = ({ 
-  components, 
-  width = 600, 
-  height = 800 
-}) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const fabricCanvasRef = useRef<FabricCanvas | null>(null);
-
-  useEffect(() => {
-    if (!canvasRef.current) return;
-
-    // Initialize Fabric.js canvas
-    const canvas = new FabricCanvas(canvasRef.current, {
-      width,
-      height,
-      backgroundColor: '#ffffff',
-      selection: false,
-    });
-
-    fabricCanvasRef.current = canvas;
-
-    // Clear previous objects
-    canvas.clear();
-
-    // Add section backgrounds
-    const headerHeight = 100;
-    const footerHeight = 60;
-    const bodyHeight = height - headerHeight - footerHeight;
-
-    // Header section
-    const headerBg = new Rect({
-      left: 0,
-      top: 0,
-      width: width,
-      height: headerHeight,
-      fill: 'rgba(59, 130, 246, 0.1)',
-      stroke: 'rgba(59, 130, 246, 0.3)',
-      strokeWidth: 1,
-      selectable: false,
-    });
-    canvas.add(headerBg);
-
-    // Body section
-    const bodyBg = new Rect({
-      left: 0,
-      top: headerHeight,
-      width: width,
-      height: bodyHeight,
-      fill: 'rgba(34, 197, 94, 0.1)',
-      stroke: 'rgba(34, 197, 94, 0.3)',
-      strokeWidth: 1,
-      selectable: false,
-    });
-    canvas.add(bodyBg);
-
-    // Footer section
-    const footerBg = new Rect({
-      left: 0,
-      top: headerHeight + bodyHeight,
-      width: width,
-      height: footerHeight,
-      fill: 'rgba(168, 85, 247, 0.1)',
-      stroke: 'rgba(168, 85, 247, 0.3)',
-      strokeWidth: 1,
-      selectable: false,
-    });
-    canvas.add(footerBg);
+type PreviewSource = 'template' | 'executable';
+type DataSource = 'designer' | 'pdf' | 'file';
 
-    // Add section labels
-    const headerLabel = new Text('HEADER SECTION', {
-      left: 10,
-      top: 10,
-      fontSize: 12,
-      fill: '#3b82f6',
-      fontFamily: 'Arial',
-      selectable: false,
-    });
-    canvas.add(headerLabel);
-
-    const bodyLabel = new Text('BODY SECTION', {
-      left: 10,
-      top: headerHeight + 10,
-      fontSize: 12,
-      fill: '#22c55e',
-      fontFamily: 'Arial',
-      selectable: false,
-    });
-    canvas.add(bodyLabel);
-
-    const footerLabel = new Text('FOOTER SECTION', {
-      left: 10,
-      top: headerHeight + bodyHeight + 10,
-      fontSize: 12,
-      fill: '#a855f7',
-      fontFamily: 'Arial',
-      selectable: false,
-    });
-    canvas.add(footerLabel);
-
-    // Add components
-    components.forEach((component) => {
-      let yOffset = 0;
-      let sectionColor = '#000000';
-
-      // Adjust Y position based on section
-      if (component.section === 'body') {
-        yOffset = headerHeight;
-        sectionColor = '#059669';
-      } else if (component.section === 'footer') {
-        yOffset = headerHeight + bodyHeight;
-        sectionColor = '#7c3aed';
-      } else {
-        sectionColor = '#2563eb';
-      }
-
-      if (component.type === 'textbox') {
-        const textbox = new Rect({
-          left: component.x * (width / 600), // Scale to canvas
-          top: (component.y + yOffset) * (height / 800),
-          width: component.width * (width / 600),
-          height: component.height * (height / 800),
-          fill: 'rgba(255, 255, 255, 0.8)',
-          stroke: sectionColor,
-          strokeWidth: 2,
-          strokeDashArray: [5, 5],
-          selectable: false,
-        });
-        canvas.add(textbox);
-
-        if (component.content) {
-          const text = new Text(component.content, {
-            left: (component.x + 5) * (width / 600),
-            top: (component.y + yOffset + 5) * (height / 800),
-            fontSize: Math.max(10, (component.height * (height / 800)) / 3),
-            fill: sectionColor,
-            fontFamily: 'Arial',
-            selectable: false,
-          });
-          canvas.add(text);
-        }
-      } else if (component.type === 'table') {
-        const table = new Rect({
-          left: component.x * (width / 600),
-          top: (component.y + yOffset) * (height / 800),
-          width: component.width * (width / 600),
-          height: component.height * (height / 800),
-          fill: 'rgba(255, 255, 255, 0.9)',
-          stroke: sectionColor,
-          strokeWidth: 2,
-          selectable: false,
-        });
-        canvas.add(table);
+interface SampleFile {
+  name: string;
+  text: string;
+}
 
-        // Add table icon/indicator
-        const tableIcon = new Text('📊 TABLE', {
-          left: (component.x + 10) * (width / 600),
-          top: (component.y + yOffset + 10) * (height / 800),
-          fontSize: 12,
-          fill: sectionColor,
-          fontFamily: 'Arial',
-          selectable: false,
-        });
-        canvas.add(tableIcon);
-      }
-    });
+const ZOOM_LEVELS = [0.5, 0.75, 1];
+
+// A CSV file fills the dataset it is named after, or the report's first dataset
+const sampleDataOf = (rdl: string, source: DataSource, pdfValues?: PDFSampleValues, file?: SampleFile): RDLSampleData | undefined => {
+  if (source === 'pdf' && pdfValues) return RDLSampleDataLoader.fromPDF(rdl, pdfValues);
+  if (source !== 'file' || !file) return undefined;
+
+  const dataSetNames = RDLSampleDataLoader.dataSetNames(rdl);
+  const baseName = file.name.replace(/\.[^.]+$/, '').toLowerCase();
+  const dataSet = dataSetNames.find(name => name.toLowerCase() === baseName) || dataSetNames[0] || 'DataSet1';
+  return /\.csv$/i.test(file.name) ? RDLSampleDataLoader.fromCSV(file.text, dataSet) : RDLSampleDataLoader.fromJSON(file.text, dataSet);
+};
+
+const layoutOf = (
+  rdl: string | undefined,
+  source: DataSource,
+  pdfValues?: PDFSampleValues,
+  file?: SampleFile
+): { page?: RDLPreviewPage; error?: string } => {
+  if (!rdl) return {};
+  try {
+    return { page: RDLPreviewLayout.fromRDL(rdl, sampleDataOf(rdl, source, pdfValues, file)) };
+  } catch (error) {
+    if (error instanceof RDLMergeError || error instanceof RDLSampleDataError) return { error: error.message };
+    throw error;
+  }
+};
+
+export const SSRSPreview: React.FC<SSRSPreviewProps> = ({ templateRDL, executableRDL, pdfValues }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<PreviewSource>('template');
+  const [dataSource, setDataSource] = useState<DataSource>('designer');
+  const [sampleFile, setSampleFile] = useState<SampleFile>();
+  const [zoom, setZoom] = useState(0.75);
+
+  const rdl = source === 'executable' && executableRDL ? executableRDL : templateRDL;
+  const { page, error } = useMemo(
+    () => layoutOf(rdl, dataSource, pdfValues, sampleFile),
+    [rdl, dataSource, pdfValues, sampleFile]
+  );
 
-    canvas.renderAll();
+  const handleSampleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setSampleFile({ name: file.name, text: await file.text() });
+    setDataSource('file');
+  };
 
-    return () => {
-      canvas.dispose();
-    };
-  }, [components, width, height]);
 
   return (
-    <Card className="p-4 bg-gradient-card shadow-card">
-      <h3 className="text-lg font-semibold mb-4">SSRS Layout Preview</h3>
-      <div className="border border-border rounded-lg overflow-hidden bg-background">
-        <canvas ref={canvasRef} className="max-w-full" />
+    <Card className="p-6 bg-gradient-card shadow-card">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <h3 className="text-lg font-semibold">SSRS Layout Preview</h3>
+        <div className="flex gap-2">
+          <Select value={dataSource} onValueChange={value => setDataSource(value as DataSource)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="designer">Expressions</SelectItem>
+              {pdfValues && <SelectItem value="pdf">Values from PDF</SelectItem>}
+              {sampleFile && <SelectItem value="file">{sampleFile.name}</SelectItem>}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Sample data
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,.csv" className="hidden" onChange={handleSampleFile} />
+          {executableRDL && (
+            <Select value={source} onValueChange={value => setSource(value as PreviewSource)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="template">RDL template</SelectItem>
+                <SelectItem value="executable">Executable RDL</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={String(zoom)} onValueChange={value => setZoom(Number(value))}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ZOOM_LEVELS.map(level => (
+                <SelectItem key={level} value={String(level)}>{level * 100}%</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        <div className="border border-border rounded-lg overflow-auto max-h-[48rem] bg-muted/30 p-4">
+          {page && <RDLPageCanvas page={page} scale={PIXELS_PER_POINT * zoom} className="shadow-card" />}
+        </div>
+      )}
       <div className="mt-4 flex gap-4 text-sm">
         <div className="flex items-center gap-2">
-          <div className="w-3 h-3 bg-blue-500/20 border border-blue-500/50 rounded"></div>
+          <div className="w-3 h-3 border border-dashed border-blue-500 rounded"></div>
           <span>Header</span>
         </div>
         <div className="flex items-center gap-2">
-          <div className="w-3 h-3 bg-green-500/20 border border-green-500/50 rounded"></div>
+          <div className="w-3 h-3 border border-dashed border-green-500 rounded"></div>
           <span>Body</span>
         </div>
         <div className="flex items-center gap-2">
-          <div className="w-3 h-3 bg-purple-500/20 border border-purple-500/50 rounded"></div>
+          <div className="w-3 h-3 border border-dashed border-purple-500 rounded"></div>
           <span>Footer</span>
         </div>
+        <span className="text-muted-foreground">
+          {dataSource === 'designer'
+            ? 'Expressions are shown as in Report Builder, e.g. [InvoiceNum]'
+            : 'JSON holds rows per dataset name; a CSV fills the dataset it is named after'}
+        </span>
       </div>
     </Card>
   );
-};
\ No newline at end of file
+};
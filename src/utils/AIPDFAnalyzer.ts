@@ -1,5 +1,18 @@
 // Enhanced AI-powered PDF analyzer for better RDL integration
-import { pipeline } from '@huggingface/transformers';
+import {
+  ClassifierBackendInfo,
+  ClassifierConfig,
+  ClassifierRegistry,
+  LoadedClassifier,
+  ZeroShotClassifier
+} from './ClassifierRegistry';
+import { ClassificationCorrections, CorrectionExample } from './ClassificationCorrections';
+import { PDFGraphicPrimitive } from './PDFGraphicsExtractor';
+import { PDFTextAlign, PDFTextStyleExtractor } from './PDFTextStyleExtractor';
+import { BorderlessTableDetector } from './BorderlessTableDetector';
+import { RulingTableDetector } from './RulingTableDetector';
+import { TableCellBuilder } from './TableCellBuilder';
+import { TableLineCells, TableRowMerger } from './TableRowMerger';
 
 export interface AIClassificationResult {
   label: 'static-label' | 'dynamic-data' | 'standalone-text' | 'table-header' | 'table-data' | 'form-label';
@@ -19,6 +32,7 @@ export interface EnhancedPDFComponent {
   color?: string;
   fontWeight?: string;
   isItalic?: boolean;
+  textAlign?: PDFTextAlign;
   aiClassification?: AIClassificationResult;
   context?: {
     nearbyText: string[];
@@ -29,6 +43,7 @@ export interface EnhancedPDFComponent {
   };
   rdlType?: 'header' | 'body' | 'footer';
   fieldMapping?: string; // For RDL field mapping
+  pageNumber?: number; // 1-based page the component was read from
 }
 
 export interface TableStructure {
@@ -37,6 +52,8 @@ export interface TableStructure {
   bounds: { x: number; y: number; width: number; height: number };
   columnCount: number;
   rowCount: number;
+  // Spanned cells; row 0 is the header row
+  merged_cells?: Array<{ row: number; col: number; rowspan: number; colspan: number }>;
 }
 
 export interface PDFAnalysisResult {
@@ -50,45 +67,46 @@ export interface PDFAnalysisResult {
     confidence: number;
   }>;
   fieldMappings: { [key: string]: string };
+  classifier: ClassifierBackendInfo;
 }
 
 export class AIPDFAnalyzer {
-  private static textClassifier: any = null;
-  private static isLoading = false;
+  private static classifierConfigs: ClassifierConfig[] = ClassifierRegistry.defaultConfigs();
+  private static classifierLoading: Promise<LoadedClassifier> | null = null;
+  private static textClassifier: ZeroShotClassifier | null = null;
+  private static corrections: CorrectionExample[] = [];
+  // Font weights read as bold by the classification hints
+  private static readonly BOLD_WEIGHTS = new Set(['semibold', 'bold', 'extrabold', 'heavy']);
+
+  // Pin the classifier backends for reproducible runs; takes effect on the next initialization
+  static configureClassifier(configs: ClassifierConfig[]): void {
+    this.classifierConfigs = configs;
+    this.classifierLoading = null;
+    this.textClassifier = null;
+  }
 
-  static async initializeModel(): Promise<void> {
-    if (this.textClassifier || this.isLoading) return;
-    
-    this.isLoading = true;
-    try {
-      // Use a more suitable model for document classification
-      this.textClassifier = await pipeline(
-        'zero-shot-classification',
-        'facebook/bart-large-mnli',
-        {
-          device: 'webgpu'
-        }
-      );
-      console.log('AI model initialized successfully');
-    } catch (error) {
-      console.warn('Failed to initialize WebGPU, falling back to CPU');
-      try {
-        this.textClassifier = await pipeline(
-          'zero-shot-classification',
-          'microsoft/DialoGPT-medium'
-        );
-      } catch (fallbackError) {
-        console.error('Failed to initialize AI model:', fallbackError);
-        this.textClassifier = null;
-      }
-    } finally {
-      this.isLoading = false;
+  // Examples learned from user corrections, applied before the rules and the model
+  static setCorrections(examples: CorrectionExample[]): void {
+    this.corrections = examples;
+  }
+
+  static async initializeModel(): Promise<ClassifierBackendInfo> {
+    // Concurrent callers share one load so every page uses the same backend
+    if (!this.classifierLoading) {
+      this.classifierLoading = ClassifierRegistry.load(this.classifierConfigs);
     }
+    
+    const loaded = await this.classifierLoading;
+    this.textClassifier = loaded.classify;
+    return loaded.info;
   }
 
-  static async analyzeDocument(components: EnhancedPDFComponent[]): Promise<PDFAnalysisResult> {
+  static async analyzeDocument(
+    components: EnhancedPDFComponent[],
+    graphics: PDFGraphicPrimitive[] = []
+  ): Promise<PDFAnalysisResult> {
     // Initialize model if needed
-    await this.initializeModel();
+    const classifier = await this.initializeModel();
 
     // Step 1: Classify all components
     const classifiedComponents = await this.analyzeComponents(components);
@@ -97,7 +115,7 @@ export class AIPDFAnalyzer {
     const structuredComponents = this.analyzeDocumentStructure(classifiedComponents);
 
     // Step 3: Detect and analyze tables
-    const tables = await this.detectTables(structuredComponents);
+    const tables = await this.detectTables(structuredComponents, graphics);
 
     // Step 4: Find label-data pairs for form fields
     const labelDataPairs = this.findLabelDataPairs(structuredComponents);
@@ -116,15 +134,16 @@ export class AIPDFAnalyzer {
       footerComponents,
       tables,
       labelDataPairs,
-      fieldMappings
+      fieldMappings,
+      classifier
     };
   }
 
   static async analyzeComponents(components: EnhancedPDFComponent[]): Promise<EnhancedPDFComponent[]> {
     const enhancedComponents = await Promise.all(
       components.map(async (component) => {
-        const aiClassification = await this.classifyTextComponent(component);
         const context = this.analyzeContext(component, components);
+        const aiClassification = await this.classifyTextComponent(component, context.nearbyText);
         
         return {
           ...component,
@@ -161,6 +180,14 @@ export class AIPDFAnalyzer {
         rdlType = 'footer';
       }
       
+      // A section the user moved this kind of field to wins over the position thresholds
+      const learnedSection = ClassificationCorrections.findMatch(
+        this.corrections, component, component.context?.nearbyText || [], 'section'
+      );
+      if (learnedSection?.example.section) {
+        rdlType = learnedSection.example.section;
+      }
+      
       return {
         ...component,
         rdlType
@@ -168,12 +195,21 @@ export class AIPDFAnalyzer {
     });
   }
 
-  private static async detectTables(components: EnhancedPDFComponent[]): Promise<TableStructure[]> {
-    const tables: TableStructure[] = [];
-    const processedComponents = new Set<EnhancedPDFComponent>();
+  private static async detectTables(
+    components: EnhancedPDFComponent[],
+    graphics: PDFGraphicPrimitive[] = []
+  ): Promise<TableStructure[]> {
+    // Tables drawn with ruling lines are detected from their cell grid first,
+    // then borderless tables from the column gutters of the remaining text
+    const tables: TableStructure[] = RulingTableDetector.detectTables(graphics, components);
+    const isInDetectedTable = (c: EnhancedPDFComponent) => tables.some(t => TableCellBuilder.isCenterWithin(c, t.bounds));
+    tables.push(...BorderlessTableDetector.detectTables(components.filter(c => !isInDetectedTable(c))));
+    
+    const processedComponents = new Set<EnhancedPDFComponent>(components.filter(isInDetectedTable));
+    const remainingComponents = components.filter(c => !processedComponents.has(c));
 
     // Group components by approximate rows (Y positions)
-    const rowGroups = this.groupByRows(components, 10); // 10px tolerance
+    const rowGroups = this.groupByRows(remainingComponents, 10); // 10px tolerance
 
     for (const rowGroup of rowGroups) {
       if (rowGroup.length < 2) continue; // Need at least 2 components for a table row
@@ -186,7 +222,7 @@ export class AIPDFAnalyzer {
       
       if (isTableHeader) {
         // Find following rows that align with this header
-        const tableRows = this.findAlignedRows(sortedRow, components);
+        const tableRows = this.findAlignedRows(sortedRow, remainingComponents);
         
         if (tableRows.length > 0) {
           const table = this.createTableStructure(sortedRow, tableRows);
@@ -272,7 +308,7 @@ export class AIPDFAnalyzer {
     if (components.length < 2) return false;
 
     // Check for characteristics of table headers
-    const boldCount = components.filter(c => c.fontWeight === 'bold').length;
+    const boldCount = components.filter(c => this.isBold(c)).length;
     const hasTypicalHeaders = components.some(c => 
       /^(description|qty|quantity|price|amount|total|date|item|product|name)/i.test(c.text.trim())
     );
@@ -290,43 +326,73 @@ export class AIPDFAnalyzer {
   }
 
   private static findAlignedRows(headerRow: EnhancedPDFComponent[], allComponents: EnhancedPDFComponent[]): EnhancedPDFComponent[][] {
-    const tolerance = 20; // pixels
     const headerY = headerRow[0].y;
     const headerXPositions = headerRow.map(h => h.x).sort((a, b) => a - b);
     
     // Find components below the header
     const belowComponents = allComponents.filter(c => c.y > headerY + 20);
     
+    return this.findRowsAlignedWithColumns(headerXPositions, belowComponents);
+  }
+
+  // Rows on a following page that line up with an existing table's columns
+  // (used to continue a table whose header is not repeated on every page)
+  static findContinuationRows(table: TableStructure, components: EnhancedPDFComponent[]): EnhancedPDFComponent[][] {
+    if (table.headers.length === 0) return [];
+    const headerXPositions = table.headers.map(h => h.x).sort((a, b) => a - b);
+    return this.findRowsAlignedWithColumns(headerXPositions, components);
+  }
+
+  private static findRowsAlignedWithColumns(headerXPositions: number[], components: EnhancedPDFComponent[]): EnhancedPDFComponent[][] {
+    const tolerance = 20; // pixels
+    const closestColumn = (comp: EnhancedPDFComponent) => headerXPositions.reduce((best, x, index) =>
+      Math.abs(x - comp.x) < Math.abs(headerXPositions[best] - comp.x) ? index : best, 0);
+    const isAligned = (comp: EnhancedPDFComponent) =>
+      Math.abs(comp.x - headerXPositions[closestColumn(comp)]) < tolerance;
+    
     // Group by rows
-    const rowGroups = this.groupByRows(belowComponents, 10);
+    const rowGroups = this.groupByRows(components, 10);
     
-    const alignedRows: EnhancedPDFComponent[][] = [];
+    const tableLines: EnhancedPDFComponent[][] = [];
+    let previousKept = false;
+    const isDirectlyBelow = (line: EnhancedPDFComponent[], previous: EnhancedPDFComponent[] | undefined) => {
+      if (!previous) return false;
+      const previousBottom = Math.max(...previous.map(c => c.y + c.height));
+      const lineHeight = Math.max(...previous.map(c => c.height));
+      return Math.min(...line.map(c => c.y)) - previousBottom <= lineHeight;
+    };
     
     for (const rowGroup of rowGroups) {
       // Check if this row aligns with header columns
       const sortedRow = rowGroup.sort((a, b) => a.x - b.x);
+      const alignmentScore = sortedRow.filter(isAligned).length;
       
-      if (sortedRow.length >= Math.max(2, headerRow.length * 0.5)) {
-        // Check alignment with header positions
-        let alignmentScore = 0;
-        
-        for (const comp of sortedRow) {
-          const closestHeaderX = headerXPositions.reduce((prev, curr) => 
-            Math.abs(curr - comp.x) < Math.abs(prev - comp.x) ? curr : prev
-          );
-          
-          if (Math.abs(comp.x - closestHeaderX) < tolerance) {
-            alignmentScore++;
-          }
-        }
-        
-        if (alignmentScore >= sortedRow.length * 0.6) {
-          alignedRows.push(sortedRow);
-        }
+      const isFullRow = sortedRow.length >= Math.max(2, headerXPositions.length * 0.5) &&
+        alignmentScore >= sortedRow.length * 0.6;
+      // Sparse lines directly under a row are wrapped cell text, kept for merging
+      const isWrapLine = previousKept &&
+        alignmentScore === sortedRow.length &&
+        isDirectlyBelow(sortedRow, tableLines[tableLines.length - 1]);
+      
+      if (isFullRow || isWrapLine) {
+        tableLines.push(sortedRow);
       }
+      previousKept = isFullRow || isWrapLine;
     }
     
-    return alignedRows;
+    // Fold wrapped lines into their logical rows
+    const mergedRows = TableRowMerger.mergeWrappedLines(tableLines.map(line => {
+      const cells: TableLineCells = headerXPositions.map(() => []);
+      line.forEach(comp => cells[closestColumn(comp)].push(comp));
+      return cells;
+    }));
+    
+    return mergedRows.map(row => {
+      const rowY = Math.min(...row.flat().map(c => c.y));
+      return row.map((cell, column) => cell.length > 0
+        ? TableCellBuilder.mergeComponents(cell)
+        : TableCellBuilder.createEmptyCell(headerXPositions[column], rowY, 0, 0));
+    });
   }
 
   private static createTableStructure(headers: EnhancedPDFComponent[], rows: EnhancedPDFComponent[][]): TableStructure {
@@ -358,9 +424,23 @@ export class AIPDFAnalyzer {
     };
   }
 
-  private static async classifyTextComponent(component: EnhancedPDFComponent): Promise<AIClassificationResult> {
+  private static async classifyTextComponent(
+    component: EnhancedPDFComponent,
+    nearbyText: string[] = []
+  ): Promise<AIClassificationResult> {
     const text = component.text.trim();
     
+    // A matching user correction takes precedence
+    const learned = ClassificationCorrections.findMatch(this.corrections, component, nearbyText, 'label');
+    if (learned?.example.label) {
+      return {
+        label: learned.example.label,
+        score: learned.similarity,
+        reasoning: `Matches a user correction of "${learned.example.text}"`,
+        confidence: learned.similarity > 0.9 ? 'high' : 'medium'
+      };
+    }
+    
     // Enhanced rule-based classification
     const ruleBasedResult = this.enhancedRuleBasedClassification(text, component);
     
@@ -442,7 +522,7 @@ export class AIPDFAnalyzer {
     }
 
     // Enhanced font-based hints
-    if (component.fontWeight === 'bold') {
+    if (this.isBold(component)) {
       if (text.length < 20 && text.includes(':')) {
         return {
           label: 'static-label',
@@ -669,6 +749,8 @@ export class AIPDFAnalyzer {
     // Generate mappings for table headers
     tables.forEach((table, tableIndex) => {
       table.headers.forEach((header, colIndex) => {
+        // Columns covered by a spanned heading have no text of their own
+        if (!header.text.trim()) return;
         const fieldName = this.generateFieldName(header.text);
         fieldMappings[`Table${tableIndex}_${fieldName}`] = fieldName;
         header.fieldMapping = fieldName;
@@ -717,6 +799,7 @@ export class AIPDFAnalyzer {
       fontWeight: component.fontWeight || 'Normal',
       color: component.color || '#000000',
       isItalic: component.isItalic || false,
+      textAlign: component.textAlign,
       type: component.aiClassification?.label || 'standalone-text',
       confidence: component.aiClassification?.score || 0.5
     }));
@@ -733,6 +816,9 @@ export class AIPDFAnalyzer {
           width: table.bounds.width,
           height: table.bounds.height
         },
+        merged_cells: table.merged_cells || [],
+        headerStyles: table.headers.map(header => PDFTextStyleExtractor.styleOf(header)),
+        columnStyles: PDFTextStyleExtractor.columnStyles(table.rows),
         styling: {
           headerBackgroundColor: '#E6E6E6',
           headerFontWeight: 'Bold',
@@ -768,4 +854,8 @@ export class AIPDFAnalyzer {
     
     return 'System.String';
   }
+
+  private static isBold(component: EnhancedPDFComponent): boolean {
+    return this.BOLD_WEIGHTS.has((component.fontWeight || '').toLowerCase());
+  }
 }
@@ -0,0 +1,40 @@
+// Progress reporting and cooperative cancellation for the PDF analysis pipeline
+export type AnalysisStage =
+  | 'loading-engine'
+  | 'loading-model'
+  | 'reading-pages'
+  | 'classifying'
+  | 'combining'
+  | 'layout'
+  | 'complete';
+
+export interface AnalysisProgressEvent {
+  stage: AnalysisStage;
+  page?: number;
+  pageCount?: number;
+}
+
+export interface AnalysisOptions {
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  signal?: AbortSignal;
+}
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('The PDF analysis was cancelled.');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export class AnalysisProgress {
+  static report(options: AnalysisOptions | undefined, event: AnalysisProgressEvent): void {
+    options?.onProgress?.(event);
+  }
+
+  // Called between pages and stages; work in flight on a page is allowed to finish
+  static throwIfCancelled(options: AnalysisOptions | undefined): void {
+    if (options?.signal?.aborted) {
+      throw new AnalysisCancelledError();
+    }
+  }
+}
@@ -0,0 +1,168 @@
+// Detects tables without ruling lines by projecting text onto the x-axis:
+// column boundaries sit in the gutters that stay empty on every line of the table
+import { EnhancedPDFComponent, TableStructure } from './AIPDFAnalyzer';
+import { TableCellBuilder } from './TableCellBuilder';
+import { TableLineCells, TableRowMerger } from './TableRowMerger';
+
+interface Gutter {
+  start: number;
+  end: number;
+}
+
+export class BorderlessTableDetector {
+  // Narrower gaps are word spacing rather than a column gutter
+  private static readonly MIN_GUTTER = 6;
+  // A gap between lines larger than this many line heights ends the table
+  private static readonly MAX_LINE_GAP = 2;
+  // A heading row needs at least this many separated text blocks
+  private static readonly MIN_HEADER_COLUMNS = 3;
+
+  static detectTables(components: EnhancedPDFComponent[]): TableStructure[] {
+    const lines = this.groupIntoLines(components);
+    const tables: TableStructure[] = [];
+
+    let index = 0;
+    while (index < lines.length) {
+      const region = this.growRegion(lines, index);
+      const table = region && this.createTableStructure(region.lines, region.gutters);
+
+      if (region && table) {
+        tables.push(table);
+        index += region.lines.length;
+      } else {
+        index++;
+      }
+    }
+
+    return tables;
+  }
+
+  private static groupIntoLines(components: EnhancedPDFComponent[]): EnhancedPDFComponent[][] {
+    const lines: EnhancedPDFComponent[][] = [];
+    [...components]
+      .filter(c => c.text.trim().length > 0)
+      .sort((a, b) => a.y - b.y || a.x - b.x)
+      .forEach(component => {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(component.y - line[0].y) <= Math.max(2, line[0].height / 2)) {
+          line.push(component);
+        } else {
+          lines.push([component]);
+        }
+      });
+    return lines.map(line => line.sort((a, b) => a.x - b.x));
+  }
+
+  // Text blocks of a line: items closer than a gutter belong to the same block
+  private static lineBlocks(line: EnhancedPDFComponent[]): Gutter[] {
+    const blocks: Gutter[] = [];
+    for (const component of line) {
+      const last = blocks[blocks.length - 1];
+      if (last && component.x - last.end < this.MIN_GUTTER) {
+        last.end = Math.max(last.end, component.x + component.width);
+      } else {
+        blocks.push({ start: component.x, end: component.x + component.width });
+      }
+    }
+    return blocks;
+  }
+
+  // Start at a heading-like line and add following lines for as long as they
+  // keep every gutter open; text that only narrows a gutter (right-aligned
+  // amounts, wrapped descriptions) is allowed
+  private static growRegion(
+    lines: EnhancedPDFComponent[][],
+    startIndex: number
+  ): { lines: EnhancedPDFComponent[][]; gutters: Gutter[] } | null {
+    const headerBlocks = this.lineBlocks(lines[startIndex]);
+    if (headerBlocks.length < this.MIN_HEADER_COLUMNS) return null;
+
+    let gutters: Gutter[] = headerBlocks.slice(1).map((block, i) => ({ start: headerBlocks[i].end, end: block.start }));
+    const regionLines = [lines[startIndex]];
+
+    for (let i = startIndex + 1; i < lines.length; i++) {
+      const previous = lines[i - 1];
+      const lineHeight = Math.max(...previous.map(c => c.height), 1);
+      const gap = lines[i][0].y - (previous[0].y + lineHeight);
+      if (gap > lineHeight * this.MAX_LINE_GAP) break;
+
+      const narrowed = this.narrowGutters(gutters, this.lineBlocks(lines[i]));
+      if (!narrowed) break;
+
+      gutters = narrowed;
+      regionLines.push(lines[i]);
+    }
+
+    return regionLines.length >= 2 ? { lines: regionLines, gutters } : null;
+  }
+
+  private static narrowGutters(gutters: Gutter[], blocks: Gutter[]): Gutter[] | null {
+    const narrowed: Gutter[] = [];
+
+    for (const gutter of gutters) {
+      let { start, end } = gutter;
+      for (const block of blocks) {
+        if (block.end <= start || block.start >= end) continue;
+        // A block that reaches across the whole gutter joins two columns
+        if (block.start <= start && block.end >= end) return null;
+        if (block.start <= start) start = block.end;
+        else end = block.start;
+      }
+      if (end - start < this.MIN_GUTTER) return null;
+      narrowed.push({ start, end });
+    }
+
+    return narrowed;
+  }
+
+  private static createTableStructure(lines: EnhancedPDFComponent[][], gutters: Gutter[]): TableStructure | null {
+    const allComponents = lines.flat();
+    const minX = Math.min(...allComponents.map(c => c.x));
+    const minY = Math.min(...allComponents.map(c => c.y));
+    const maxX = Math.max(...allComponents.map(c => c.x + c.width));
+    const maxY = Math.max(...allComponents.map(c => c.y + c.height));
+
+    // Column boundaries run through the middle of each gutter
+    const boundaries = [minX, ...gutters.map(g => (g.start + g.end) / 2), maxX];
+    const columnCount = boundaries.length - 1;
+    const columnOf = (component: EnhancedPDFComponent) => {
+      const centerX = component.x + component.width / 2;
+      const column = boundaries.findIndex((boundary, i) => i > 0 && centerX <= boundary) - 1;
+      return column < 0 ? columnCount - 1 : column;
+    };
+
+    const cellLines = TableRowMerger.mergeWrappedLines(lines.map(line => {
+      const cells: TableLineCells = Array.from({ length: columnCount }, () => []);
+      line.forEach(component => cells[columnOf(component)].push(component));
+      return cells;
+    }));
+
+    const grid = cellLines.map(row => {
+      const rowY = Math.min(...row.flat().map(c => c.y));
+      return row.map((cell, column) => cell.length > 0
+        ? TableCellBuilder.mergeComponents(cell)
+        : TableCellBuilder.createEmptyCell(boundaries[column], rowY, boundaries[column + 1] - boundaries[column], 0));
+    });
+    const rows = grid.slice(1);
+
+    // Line-item tables carry amounts or quantities; other aligned text is form layout
+    const hasNumericColumn = Array.from({ length: columnCount }, (_, column) => column).some(column => {
+      const values = rows.map(row => row[column].text.trim()).filter(text => text.length > 0);
+      return values.length > 0 && values.every(text => this.isNumeric(text));
+    });
+    if (rows.length === 0 || !hasNumericColumn) return null;
+
+    return {
+      headers: grid[0],
+      rows,
+      bounds: { x: minX, y: minY, width: maxX - minX, height: maxY - minY },
+      columnCount,
+      rowCount: rows.length,
+      merged_cells: []
+    };
+  }
+
+  private static isNumeric(text: string): boolean {
+    return /^[-+(]?[$€£]?\s*\d[\d,.\s]*%?\)?$/.test(text);
+  }
+}
@@ -0,0 +1,170 @@
+// Labeled examples recorded from user corrections in PDFFieldEditor. The analyzer
+// matches new components against them (nearest neighbor on text, font, position
+// and surrounding text) so a known vendor layout classifies correctly next time.
+import { AIClassificationResult } from './AIPDFAnalyzer';
+
+export interface CorrectionExample {
+  text: string; // Normalized; digits are folded so "INV-1001" matches "INV-1002"
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize?: number;
+  fontFamily?: string;
+  neighbors: string[];
+  label?: AIClassificationResult['label'];
+  section?: 'header' | 'body' | 'footer';
+  recordedAt: number;
+}
+
+export interface CorrectionSubject {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontSize?: number;
+  fontFamily?: string;
+}
+
+export interface CorrectionMatch {
+  example: CorrectionExample;
+  similarity: number;
+}
+
+export class ClassificationCorrections {
+  private static readonly STORAGE_KEY = 'pdf-ssrs-blueprint:classification-corrections';
+  private static readonly MAX_EXAMPLES = 500;
+  // Same neighborhood radius AIPDFAnalyzer uses for its context analysis
+  private static readonly NEIGHBOR_DISTANCE = 150;
+  // Below this similarity a correction is not trusted for a new component
+  private static readonly MIN_SIMILARITY = 0.75;
+
+  static load(): CorrectionExample[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to read classification corrections:', error);
+      return [];
+    }
+  }
+
+  static clear(): void {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(this.STORAGE_KEY);
+    }
+  }
+
+  // Record a correction for a subject; a newer correction of the same text at the
+  // same spot replaces the older one but keeps whatever it did not change
+  static record(
+    subject: CorrectionSubject,
+    others: CorrectionSubject[],
+    correction: { label?: CorrectionExample['label']; section?: CorrectionExample['section'] }
+  ): void {
+    if (typeof localStorage === 'undefined') return;
+
+    const example: CorrectionExample = {
+      ...this.describe(subject),
+      neighbors: this.findNeighbors(subject, others),
+      ...correction,
+      recordedAt: Date.now()
+    };
+
+    const examples = this.load();
+    const existingIndex = examples.findIndex(other =>
+      other.text === example.text && Math.abs(other.x - example.x) < 5 && Math.abs(other.y - example.y) < 5
+    );
+    if (existingIndex !== -1) {
+      examples[existingIndex] = { ...examples[existingIndex], ...example };
+    } else {
+      examples.push(example);
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(examples.slice(-this.MAX_EXAMPLES)));
+    } catch (error) {
+      console.warn('Failed to store classification correction:', error);
+    }
+  }
+
+  static findNeighbors(subject: CorrectionSubject, others: CorrectionSubject[]): string[] {
+    return others
+      .filter(other => other !== subject && this.distance(subject, other) < this.NEIGHBOR_DISTANCE)
+      .map(other => this.normalize(other.text))
+      .filter(text => text.length > 0);
+  }
+
+  // Most similar example that carries the requested kind of correction
+  static findMatch(
+    examples: CorrectionExample[],
+    subject: CorrectionSubject,
+    neighbors: string[],
+    kind: 'label' | 'section'
+  ): CorrectionMatch | null {
+    const candidate = this.describe(subject);
+    const normalizedNeighbors = neighbors.map(text => this.normalize(text));
+    let best: CorrectionMatch | null = null;
+
+    for (const example of examples) {
+      if (!example[kind]) continue;
+      const similarity = this.similarity(example, candidate, normalizedNeighbors);
+      if (similarity >= this.MIN_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { example, similarity };
+      }
+    }
+
+    return best;
+  }
+
+  private static similarity(
+    example: CorrectionExample,
+    candidate: Omit<CorrectionExample, 'neighbors' | 'recordedAt'>,
+    neighbors: string[]
+  ): number {
+    const textScore = example.text === candidate.text
+      ? 1
+      : this.jaccard(example.text.split(' '), candidate.text.split(' '));
+    const positionScore = Math.max(0, 1 - this.distance(example, candidate) / 100);
+    const fontScore = example.fontSize && candidate.fontSize
+      ? Math.max(0, 1 - Math.abs(example.fontSize - candidate.fontSize) / 4)
+      : 0.5;
+    const neighborScore = example.neighbors.length === 0 && neighbors.length === 0
+      ? 1
+      : this.jaccard(example.neighbors, neighbors);
+
+    return textScore * 0.5 + positionScore * 0.2 + fontScore * 0.1 + neighborScore * 0.2;
+  }
+
+  private static describe(subject: CorrectionSubject): Omit<CorrectionExample, 'neighbors' | 'recordedAt'> {
+    return {
+      text: this.normalize(subject.text),
+      x: subject.x,
+      y: subject.y,
+      width: subject.width,
+      height: subject.height,
+      fontSize: subject.fontSize,
+      fontFamily: subject.fontFamily
+    };
+  }
+
+  private static normalize(text: string): string {
+    return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+  }
+
+  private static jaccard(a: string[], b: string[]): number {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    const intersection = [...setA].filter(item => setB.has(item)).length;
+    const union = new Set([...setA, ...setB]).size;
+    return union === 0 ? 0 : intersection / union;
+  }
+
+  private static distance(a: CorrectionSubject, b: CorrectionSubject): number {
+    const dx = (a.x + a.width / 2) - (b.x + b.width / 2);
+    const dy = (a.y + a.height / 2) - (b.y + b.height / 2);
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+}
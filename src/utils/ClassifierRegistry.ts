@@ -0,0 +1,149 @@
+// Pluggable text classifier backends for AIPDFAnalyzer. Backends are tried in the
+// configured order and the one that loaded is recorded with the analysis result.
+import { env, pipeline } from '@huggingface/transformers';
+
+export type ClassifierBackendId = 'local-onnx' | 'webgpu' | 'wasm' | 'rule-based';
+
+export interface ZeroShotResult {
+  labels: string[];
+  scores: number[];
+}
+
+export type ZeroShotClassifier = (text: string, candidateLabels: string[]) => Promise<ZeroShotResult>;
+
+export interface ClassifierConfig {
+  backend: ClassifierBackendId;
+  modelId?: string;
+  // Base URL the local-onnx backend loads model files from
+  localModelPath?: string;
+  // Branch, tag or commit the webgpu and wasm backends download from the Hugging Face hub
+  revision?: string;
+  // Base URL the ONNX runtime .wasm/.mjs files are served from; transformers.js loads them from jsdelivr otherwise
+  wasmPath?: string;
+}
+
+export interface ClassifierBackendInfo {
+  backend: ClassifierBackendId;
+  modelId: string | null;
+  modelSource: 'local' | 'remote' | null;
+  // Backends that were configured ahead of this one but failed to load
+  failedBackends: ClassifierBackendId[];
+}
+
+export interface LoadedClassifier {
+  classify: ZeroShotClassifier | null;
+  info: ClassifierBackendInfo;
+}
+
+export interface ClassifierBackend {
+  load(config: ClassifierConfig): Promise<LoadedClassifier>;
+}
+
+// ONNX export of the MNLI model the analyzer was designed around
+const DEFAULT_MODEL_ID = 'Xenova/bart-large-mnli';
+// Where the local-onnx backend looks for public/models/<model id>/; no model is shipped there yet
+const DEFAULT_LOCAL_MODEL_PATH = '/models/';
+const DEFAULT_REVISION = 'main';
+
+const createZeroShotBackend = (
+  device: 'webgpu' | 'wasm',
+  source: 'local' | 'remote'
+): ClassifierBackend => ({
+  async load(config) {
+    const modelId = config.modelId || DEFAULT_MODEL_ID;
+
+    // Local models must never fall through to the Hugging Face hub
+    env.allowRemoteModels = source === 'remote';
+    env.allowLocalModels = source === 'local';
+    if (source === 'local') {
+      env.localModelPath = config.localModelPath || DEFAULT_LOCAL_MODEL_PATH;
+    }
+    if (config.wasmPath && env.backends.onnx.wasm) {
+      env.backends.onnx.wasm.wasmPaths = config.wasmPath;
+    }
+
+    const classifier = await pipeline('zero-shot-classification', modelId, {
+      device,
+      revision: source === 'remote' ? config.revision || DEFAULT_REVISION : undefined
+    });
+    const classify: ZeroShotClassifier = async (text, candidateLabels) => {
+      const result = await classifier(text, candidateLabels);
+      return (Array.isArray(result) ? result[0] : result) as ZeroShotResult;
+    };
+
+    return {
+      classify,
+      info: { backend: config.backend, modelId, modelSource: source, failedBackends: [] }
+    };
+  }
+});
+
+export class ClassifierRegistry {
+  private static backends = new Map<ClassifierBackendId, ClassifierBackend>([
+    ['local-onnx', createZeroShotBackend('wasm', 'local')],
+    ['webgpu', createZeroShotBackend('webgpu', 'remote')],
+    ['wasm', createZeroShotBackend('wasm', 'remote')],
+    ['rule-based', {
+      load: async config => ({
+        classify: null,
+        info: { backend: config.backend, modelId: null, modelSource: null, failedBackends: [] }
+      })
+    }]
+  ]);
+
+  static register(id: ClassifierBackendId, backend: ClassifierBackend): void {
+    this.backends.set(id, backend);
+  }
+
+  // Try each configured backend in order; rule-based classification is the last resort
+  static async load(configs: ClassifierConfig[]): Promise<LoadedClassifier> {
+    const failedBackends: ClassifierBackendId[] = [];
+
+    for (const config of [...configs, { backend: 'rule-based' as const }]) {
+      const backend = this.backends.get(config.backend);
+      if (!backend) {
+        console.warn(`Unknown classifier backend "${config.backend}"`);
+        failedBackends.push(config.backend);
+        continue;
+      }
+
+      try {
+        const loaded = await backend.load(config);
+        return { ...loaded, info: { ...loaded.info, failedBackends } };
+      } catch (error) {
+        console.warn(`Classifier backend "${config.backend}" failed to load:`, error);
+        failedBackends.push(config.backend);
+      }
+    }
+
+    // Unreachable: the rule-based backend always loads
+    throw new Error('No classifier backend could be loaded');
+  }
+
+  // Backends chosen at build time through VITE_CLASSIFIER_* variables. No model ships with the
+  // app, so by default analysis uses the rules and nothing is downloaded.
+  // - VITE_CLASSIFIER_BACKEND: local-onnx | webgpu | wasm | rule-based (default rule-based);
+  //   local-onnx needs the model under VITE_CLASSIFIER_MODEL_PATH, webgpu and wasm download
+  //   it from the Hugging Face hub
+  // - VITE_CLASSIFIER_MODEL: model id (default Xenova/bart-large-mnli)
+  // - VITE_CLASSIFIER_MODEL_PATH: where local-onnx models are served (default /models/)
+  // - VITE_CLASSIFIER_MODEL_REVISION: hub revision webgpu and wasm download (default main)
+  // - VITE_CLASSIFIER_WASM_PATH: where the ONNX runtime WASM files are served (default jsdelivr)
+  static defaultConfigs(): ClassifierConfig[] {
+    const backend = (import.meta.env.VITE_CLASSIFIER_BACKEND || 'rule-based') as ClassifierBackendId;
+    const modelId = import.meta.env.VITE_CLASSIFIER_MODEL || DEFAULT_MODEL_ID;
+    const localModelPath = import.meta.env.VITE_CLASSIFIER_MODEL_PATH || DEFAULT_LOCAL_MODEL_PATH;
+    const revision = import.meta.env.VITE_CLASSIFIER_MODEL_REVISION || DEFAULT_REVISION;
+    const wasmPath = import.meta.env.VITE_CLASSIFIER_WASM_PATH;
+
+    switch (backend) {
+      case 'webgpu':
+        // The same model on the CPU is the only fallback that gives comparable results
+        return [{ backend: 'webgpu', modelId, revision, wasmPath }, { backend: 'wasm', modelId, revision, wasmPath }];
+      case 'local-onnx':
+        return [{ backend: 'local-onnx', modelId, localModelPath, wasmPath }];
+      default:
+        return [{ backend, modelId, revision, wasmPath }];
+    }
+  }
+}
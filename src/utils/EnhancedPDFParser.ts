@@ -1,11 +1,11 @@
 // Enhanced PDF Parser with smart header detection, body analysis, and table creation
 import { AIPDFAnalyzer, EnhancedPDFComponent, PDFAnalysisResult, TableStructure } from './AIPDFAnalyzer';
-
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
-}
+import { PDFGraphicPrimitive, PDFGraphicsExtractor } from './PDFGraphicsExtractor';
+import { PDFImageExtractor, PDFImagePrimitive, PDFPageObjects } from './PDFImageExtractor';
+import { PDFFontInfo, PDFTextAlign, PDFTextRun, PDFTextStyleExtractor } from './PDFTextStyleExtractor';
+import { PDFDocument, PDFJSLib, PDFJSLoader } from './PDFJSLoader';
+import { ClassifierBackendInfo } from './ClassifierRegistry';
+import { AnalysisOptions, AnalysisProgress } from './AnalysisProgress';
 
 export interface EnhancedPDFTextItem {
   text: string;
@@ -18,8 +18,19 @@ export interface EnhancedPDFTextItem {
   color?: string;
   fontWeight?: string;
   isItalic?: boolean;
+  textAlign?: PDFTextAlign;
   transform: number[];
   rdlRegion?: 'header' | 'body' | 'footer';
+  pageNumber?: number;
+}
+
+export interface PDFPageTextItems {
+  pageNumber: number;
+  width: number;
+  height: number;
+  textItems: EnhancedPDFTextItem[];
+  graphics: PDFGraphicPrimitive[];
+  images: PDFImagePrimitive[];
 }
 
 export interface HeaderComponent {
@@ -34,6 +45,7 @@ export interface HeaderComponent {
   color?: string;
   fontWeight?: string;
   isItalic?: boolean;
+  textAlign?: PDFTextAlign;
   pairedWith?: HeaderComponent;
   confidence: number;
   rdlRegion?: 'header' | 'body' | 'footer';
@@ -70,8 +82,14 @@ export interface CompleteDocumentAnalysis {
     pageNumbers: HeaderComponent[];
   };
   allTextItems: EnhancedPDFTextItem[];
+  graphics: PDFGraphicPrimitive[];
+  // Logos and other pictures with their page placement, encoded for EmbeddedImages
+  images: PDFImagePrimitive[];
   pageWidth: number;
   pageHeight: number;
+  pageCount: number;
+  // Classifier backend that produced the labels, for reproducible runs
+  classifier: ClassifierBackendInfo;
   rdlCompatible: {
     headerTextboxes: any[];
     tableBodyData: any;
@@ -96,43 +114,65 @@ export class EnhancedPDFParser {
     'COST', 'DISCOUNT', 'TAX', 'SUBTOTAL', 'CODE', 'PART', 'MODEL'
   ];
 
-  static async parsePDF(file: File): Promise<CompleteDocumentAnalysis> {
-    // Load PDF.js dynamically if not already loaded
-    if (!window.pdfjsLib) {
-      await this.loadPDFJS();
-    }
-    
+  static async parsePDF(file: File, options?: AnalysisOptions): Promise<CompleteDocumentAnalysis> {
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await window.pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    
-    // Process first page (can be extended for multi-page)
-    const page = await pdf.getPage(1);
-    const viewport = page.getViewport({ scale: 1 });
-    
-    // Get text content with enhanced styling information
-    const textContent = await page.getTextContent();
-    const enhancedTextItems = this.extractEnhancedTextItems(textContent, viewport);
+    const { pdfjsLib, pdf } = await PDFJSLoader.openDocument(arrayBuffer);
+    try {
+      return await this.parseDocument(pdfjsLib, pdf, options);
+    } finally {
+      pdf.destroy();
+    }
+  }
+
+  // Analyzes a document the caller opened and destroys
+  static async parseDocument(pdfjsLib: PDFJSLib, pdf: PDFDocument, options?: AnalysisOptions): Promise<CompleteDocumentAnalysis> {
+    // Read every page; the analysis combines them into one document
+    const pages: PDFPageTextItems[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      AnalysisProgress.throwIfCancelled(options);
+      AnalysisProgress.report(options, { stage: 'reading-pages', page: pageNumber, pageCount: pdf.numPages });
+      
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      
+      // Get text content with enhanced styling information
+      const textContent = await page.getTextContent();
+      
+      // Get drawn lines, boxes, shaded regions, images and text colors from the operator list
+      const operatorList = await page.getOperatorList();
+      const textRuns = PDFTextStyleExtractor.extractTextRuns(operatorList, pdfjsLib.OPS);
+      
+      pages.push({
+        pageNumber,
+        width: viewport.width,
+        height: viewport.height,
+        textItems: this.extractEnhancedTextItems(textContent, viewport, pageNumber, page, textRuns),
+        graphics: PDFGraphicsExtractor.extractGraphics(operatorList, viewport, pageNumber, pdfjsLib.OPS),
+        images: await PDFImageExtractor.extractImages(page, operatorList, viewport, pageNumber, pdfjsLib.OPS)
+      });
+    }
     
     // Perform comprehensive document analysis
-    const documentAnalysis = await this.performCompleteDocumentAnalysis(
-      enhancedTextItems, 
-      viewport.width, 
-      viewport.height
-    );
+    const documentAnalysis = await this.performCompleteDocumentAnalysis(pages, options);
     
     return documentAnalysis;
   }
 
-  private static extractEnhancedTextItems(textContent: any, viewport: any): EnhancedPDFTextItem[] {
-    return textContent.items.map((item: any) => {
+  private static extractEnhancedTextItems(
+    textContent: any,
+    viewport: any,
+    pageNumber: number = 1,
+    page?: PDFPageObjects,
+    textRuns: PDFTextRun[] = []
+  ): EnhancedPDFTextItem[] {
+    const items: EnhancedPDFTextItem[] = textContent.items.map((item: any) => {
       const transform = item.transform;
       const fontSize = Math.abs(transform[0] || 12);
       
-      // Extract styling information from PDF.js item
-      const fontName = item.fontName || 'Arial';
-      const fontFamily = this.normalizeFontFamily(fontName);
-      const fontWeight = this.extractFontWeight(fontName);
-      const isItalic = this.extractItalicStyle(fontName);
+      // The font object has the real font name; textContent.styles only the generic family
+      const font = this.loadedFont(page, item.fontName);
+      const { fontFamily, fontWeight, isItalic } = PDFTextStyleExtractor.resolveFont(font, textContent.styles?.[item.fontName]?.fontFamily);
+      const run = PDFTextStyleExtractor.findRun(textRuns, transform[4], transform[5]);
       
       return {
         text: item.str?.trim() || '',
@@ -145,57 +185,235 @@ export class EnhancedPDFParser {
         fontWeight,
         isItalic,
         transform,
-        color: this.extractColor(item)
+        color: run && run.fillColor !== 'transparent' ? run.fillColor : undefined,
+        pageNumber
       };
-    }).filter(item => item.text.length > 0);
+    }).filter((item: EnhancedPDFTextItem) => item.text.length > 0);
+    
+    const alignments = PDFTextStyleExtractor.inferAlignments(items);
+    items.forEach((item, index) => { item.textAlign = alignments[index]; });
+    return items;
+  }
+
+  private static loadedFont(page: PDFPageObjects | undefined, loadedName: string): PDFFontInfo | undefined {
+    if (!page || !loadedName || !page.commonObjs.has(loadedName)) return undefined;
+    return page.commonObjs.get(loadedName) as PDFFontInfo;
   }
 
   private static async performCompleteDocumentAnalysis(
-    textItems: EnhancedPDFTextItem[], 
-    pageWidth: number, 
-    pageHeight: number
+    pages: PDFPageTextItems[],
+    options?: AnalysisOptions
   ): Promise<CompleteDocumentAnalysis> {
     
-    // Step 1: Convert to enhanced components for AI analysis
-    const enhancedComponents: EnhancedPDFComponent[] = textItems.map(item => ({
-      text: item.text,
-      x: item.x,
-      y: item.y,
-      width: item.width,
-      height: item.height,
-      fontSize: item.fontSize,
-      fontFamily: item.fontFamily,
-      color: item.color,
-      fontWeight: item.fontWeight,
-      isItalic: item.isItalic
-    }));
+    // Text printed at the same spot on every page belongs in the PageHeader/PageFooter
+    const repeatingItems = this.findRepeatingTextItems(pages);
+    
+    const pageResults: PDFAnalysisResult[] = [];
+    for (const page of pages) {
+      AnalysisProgress.throwIfCancelled(options);
+      AnalysisProgress.report(options, { stage: 'classifying', page: page.pageNumber, pageCount: pages.length });
+      
+      // Step 1: Convert to enhanced components for AI analysis
+      const enhancedComponents: EnhancedPDFComponent[] = page.textItems.map(item => ({
+        text: item.text,
+        x: item.x,
+        y: item.y,
+        width: item.width,
+        height: item.height,
+        fontSize: item.fontSize,
+        fontFamily: item.fontFamily,
+        color: item.color,
+        fontWeight: item.fontWeight,
+        isItalic: item.isItalic,
+        textAlign: item.textAlign,
+        pageNumber: page.pageNumber
+      }));
 
-    // Step 2: Perform AI-powered complete document analysis
-    const aiAnalysisResult = await AIPDFAnalyzer.analyzeDocument(enhancedComponents);
+      // Step 2: Perform AI-powered analysis of the page
+      pageResults.push(await AIPDFAnalyzer.analyzeDocument(enhancedComponents, page.graphics));
+    }
+    
+    // Step 3: Fold the per-page results into one document
+    AnalysisProgress.throwIfCancelled(options);
+    AnalysisProgress.report(options, { stage: 'combining' });
+    const firstPage = pages[0] || { pageNumber: 1, width: 612, height: 792, textItems: [], graphics: [], images: [] };
+    const aiAnalysisResult = this.combinePageResults(pageResults, repeatingItems, firstPage.height);
     
-    // Step 3: Process AI results and create comprehensive analysis
+    // Step 4: Process AI results and create comprehensive analysis
     const completeAnalysis = this.processAIAnalysisResults(
       aiAnalysisResult, 
-      textItems, 
-      pageWidth, 
-      pageHeight
+      pages.flatMap(page => page.textItems), 
+      pages.flatMap(page => page.graphics),
+      pages.flatMap(page => page.images),
+      firstPage.width, 
+      firstPage.height,
+      pages.length
     );
     
     return completeAnalysis;
   }
 
+  private static findRepeatingTextItems(pages: PDFPageTextItems[]): EnhancedPDFTextItem[] {
+    if (pages.length < 2) return [];
+    
+    const [firstPage, ...otherPages] = pages;
+    return firstPage.textItems.filter(item =>
+      otherPages.every(page => page.textItems.some(other => this.isRepeatOf(item, other)))
+    );
+  }
+
+  private static isRepeatOf(
+    item: { text: string; x: number; y: number },
+    other: { text: string; x: number; y: number }
+  ): boolean {
+    // Digits are ignored so "Page 1 of 3" matches "Page 2 of 3"
+    const normalize = (text: string) => text.replace(/\d+/g, '#').replace(/\s+/g, ' ').trim().toLowerCase();
+    return Math.abs(item.x - other.x) < 3 &&
+      Math.abs(item.y - other.y) < 3 &&
+      normalize(item.text) === normalize(other.text);
+  }
+
+  private static combinePageResults(
+    pageResults: PDFAnalysisResult[],
+    repeatingItems: EnhancedPDFTextItem[],
+    pageHeight: number
+  ): PDFAnalysisResult {
+    if (pageResults.length === 1) return pageResults[0];
+    
+    const combined: PDFAnalysisResult = {
+      headerComponents: [],
+      bodyComponents: [],
+      footerComponents: [],
+      tables: [],
+      labelDataPairs: [],
+      fieldMappings: {},
+      classifier: pageResults[0].classifier
+    };
+    
+    pageResults.forEach((pageResult, pageIndex) => {
+      const isFirstPage = pageIndex === 0;
+      const isRepeating = (component: EnhancedPDFComponent) =>
+        repeatingItems.some(item => this.isRepeatOf(item, component));
+      const pageComponents = [
+        ...pageResult.headerComponents,
+        ...pageResult.bodyComponents,
+        ...pageResult.footerComponents
+      ];
+      
+      for (const component of pageComponents) {
+        if (isRepeating(component)) {
+          // Keep one copy of repeated text, placed by where it sits on the page
+          if (!isFirstPage) continue;
+          component.rdlType = component.y < pageHeight / 2 ? 'header' : 'footer';
+        } else if (!isFirstPage) {
+          // Only the first page contributes non-repeating header/footer content
+          component.rdlType = 'body';
+        }
+        
+        if (component.rdlType === 'header') combined.headerComponents.push(component);
+        else if (component.rdlType === 'footer') combined.footerComponents.push(component);
+        // Body text of later pages continues below the pages before it
+        else combined.bodyComponents.push(isFirstPage ? component : { ...component, y: component.y + pageIndex * pageHeight });
+      }
+      
+      const pageBodyComponents = pageComponents.filter(c => c.rdlType === 'body');
+      this.stitchPageTables(combined.tables, pageResult.tables, pageBodyComponents, isFirstPage, pageIndex * pageHeight);
+      
+      // The first page's copy of repeated text keeps its pairs, like its components
+      combined.labelDataPairs.push(...pageResult.labelDataPairs.filter(pair => isFirstPage || !isRepeating(pair.label)));
+      combined.fieldMappings = { ...pageResult.fieldMappings, ...combined.fieldMappings };
+    });
+    
+    return combined;
+  }
+
+  // Append a page's tables to the document, continuing the previous page's table
+  // when the page repeats its column headings or carries on with aligned rows.
+  // New tables move down by pageOffset like the page's body text
+  private static stitchPageTables(
+    tables: TableStructure[],
+    newTables: TableStructure[],
+    pageBodyComponents: EnhancedPDFComponent[],
+    isFirstPage: boolean,
+    pageOffset: number
+  ): void {
+    const previousTable = tables[tables.length - 1];
+    const pageTables = [...newTables];
+    
+    if (!isFirstPage && previousTable) {
+      const headerKey = (table: TableStructure) => table.headers.map(h => h.text.trim().toLowerCase()).join('|');
+      const firstPageTable = pageTables[0];
+      
+      if (firstPageTable && headerKey(firstPageTable) === headerKey(previousTable)) {
+        this.appendTableRows(previousTable, firstPageTable.rows, firstPageTable.merged_cells);
+        pageTables.shift();
+      } else {
+        // No repeated heading: pick up body rows above the page's first table
+        const tableTop = firstPageTable ? firstPageTable.bounds.y : Number.POSITIVE_INFINITY;
+        const candidates = pageBodyComponents.filter(c => c.y < tableTop);
+        this.appendTableRows(previousTable, AIPDFAnalyzer.findContinuationRows(previousTable, candidates));
+      }
+    }
+    
+    tables.push(...pageTables.map(table => this.offsetTable(table, pageOffset)));
+  }
+
+  private static offsetTable(table: TableStructure, offset: number): TableStructure {
+    if (offset === 0) return table;
+    const shift = (component: EnhancedPDFComponent) => ({ ...component, y: component.y + offset });
+    return {
+      ...table,
+      headers: table.headers.map(shift),
+      rows: table.rows.map(row => row.map(shift)),
+      bounds: { ...table.bounds, y: table.bounds.y + offset }
+    };
+  }
+
+  private static appendTableRows(
+    table: TableStructure,
+    rows: EnhancedPDFComponent[][],
+    mergedCells: TableStructure['merged_cells'] = []
+  ): void {
+    if (rows.length === 0) return;
+    
+    // Spans in the appended rows move down by the rows already in the table;
+    // the continuation's repeated header row (row 0) is dropped with it
+    const rowOffset = table.rows.length;
+    const appendedSpans = mergedCells
+      .filter(cell => cell.row > 0)
+      .map(cell => ({ ...cell, row: cell.row + rowOffset }));
+    if (appendedSpans.length > 0) {
+      table.merged_cells = [...(table.merged_cells || []), ...appendedSpans];
+    }
+    
+    table.rows.push(...rows);
+    table.rowCount = table.rows.length;
+    
+    // Bounds stay in first-page coordinates; only the horizontal extent can grow
+    const cells = rows.flat();
+    const minX = Math.min(table.bounds.x, ...cells.map(c => c.x));
+    const maxX = Math.max(table.bounds.x + table.bounds.width, ...cells.map(c => c.x + c.width));
+    table.bounds = { ...table.bounds, x: minX, width: maxX - minX };
+  }
+
   private static processAIAnalysisResults(
     aiResult: PDFAnalysisResult,
     originalTextItems: EnhancedPDFTextItem[],
+    graphics: PDFGraphicPrimitive[],
+    images: PDFImagePrimitive[],
     pageWidth: number,
-    pageHeight: number
+    pageHeight: number,
+    pageCount: number
   ): CompleteDocumentAnalysis {
     
     // Assign RDL regions to original text items based on AI analysis
     const textItemsWithRegions = this.assignRDLRegions(originalTextItems, aiResult);
     
     // Process header analysis
-    const headerAnalysis = this.createSmartHeaderAnalysis(aiResult.headerComponents);
+    const headerAnalysis = this.createSmartHeaderAnalysis(
+      aiResult.headerComponents,
+      aiResult.classifier.backend !== 'rule-based'
+    );
     
     // Process body analysis (tables and form fields)
     const bodyAnalysis = this.createBodyAnalysis(aiResult);
@@ -211,8 +429,12 @@ export class EnhancedPDFParser {
       bodyAnalysis,
       footerAnalysis,
       allTextItems: textItemsWithRegions,
+      graphics,
+      images,
       pageWidth,
       pageHeight,
+      pageCount,
+      classifier: aiResult.classifier,
       rdlCompatible
     };
   }
@@ -245,7 +467,10 @@ export class EnhancedPDFParser {
     });
   }
 
-  private static createSmartHeaderAnalysis(headerComponents: EnhancedPDFComponent[]): SmartHeaderAnalysis {
+  private static createSmartHeaderAnalysis(
+    headerComponents: EnhancedPDFComponent[],
+    aiEnhanced: boolean
+  ): SmartHeaderAnalysis {
     const staticLabels: HeaderComponent[] = [];
     const dynamicData: HeaderComponent[] = [];
     const standaloneText: HeaderComponent[] = [];
@@ -265,6 +490,7 @@ export class EnhancedPDFParser {
         color: component.color,
         fontWeight: component.fontWeight,
         isItalic: component.isItalic,
+        textAlign: component.textAlign,
         confidence: component.aiClassification?.score || 0.5,
         rdlRegion: 'header',
         fieldMapping: component.fieldMapping
@@ -298,7 +524,7 @@ export class EnhancedPDFParser {
       standaloneText,
       tableHeaders,
       labelDataPairs,
-      aiEnhanced: true,
+      aiEnhanced,
       confidence
     };
   }
@@ -387,6 +613,9 @@ export class EnhancedPDFParser {
       fontSize: `${component.fontSize || 10}pt`,
       fontFamily: component.fontFamily || 'Arial',
       fontWeight: component.fontWeight || 'Normal',
+      color: component.color || '#000000',
+      isItalic: component.isItalic || false,
+      textAlign: component.textAlign,
       type: component.aiClassification?.label || 'standalone-text'
     }));
     
@@ -458,6 +687,7 @@ export class EnhancedPDFParser {
       color: enhanced.color,
       fontWeight: enhanced.fontWeight,
       isItalic: enhanced.isItalic,
+      textAlign: enhanced.textAlign,
       confidence: enhanced.aiClassification?.score || 0.5,
       rdlRegion: region,
       fieldMapping: enhanced.fieldMapping
@@ -481,48 +711,6 @@ export class EnhancedPDFParser {
     return totalConfidence / components.length;
   }
 
-  // Font and styling extraction helpers (unchanged)
-  private static normalizeFontFamily(fontName: string): string {
-    const cleanName = fontName.replace(/[+-]/g, '').toLowerCase();
-    if (cleanName.includes('arial')) return 'Arial';
-    if (cleanName.includes('helvetica')) return 'Helvetica';
-    if (cleanName.includes('times')) return 'Times New Roman';
-    if (cleanName.includes('courier')) return 'Courier New';
-    return fontName.split(/[+-]/)[0] || 'Arial';
-  }
-
-  private static extractFontWeight(fontName: string): string {
-    const name = fontName.toLowerCase();
-    if (name.includes('bold')) return 'bold';
-    if (name.includes('light')) return 'light';
-    if (name.includes('medium')) return 'medium';
-    return 'Normal';
-  }
-
-  private static extractItalicStyle(fontName: string): boolean {
-    const name = fontName.toLowerCase();
-    return name.includes('italic') || name.includes('oblique');
-  }
-
-  private static extractColor(item: any): string | undefined {
-    // Extract color information if available in PDF.js
-    return item.color || undefined;
-  }
-
-  private static async loadPDFJS(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const script = document.createElement('script');
-      script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
-      script.onload = () => {
-        window.pdfjsLib.GlobalWorkerOptions.workerSrc = 
-          'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-        resolve();
-      };
-      script.onerror = reject;
-      document.head.appendChild(script);
-    });
-  }
-
   // Utility method for easy integration with RDL generators
   static async parseAndConvertForRDL(file: File): Promise<{
     headerTextboxes: any[];
@@ -548,7 +736,7 @@ export const parseAndGenerateRDL = async (
 ): Promise<{ rdl: string; analysis: CompleteDocumentAnalysis }> => {
   
   // Parse PDF with complete analysis
-  const { headerTextboxes, tableBodyData, footerComponents, fullAnalysis } = 
+  const { headerTextboxes, tableBodyData, fullAnalysis } = 
     await EnhancedPDFParser.parseAndConvertForRDL(pdfFile);
   
   // Import RDLHeaderGenerator dynamically to avoid circular imports
@@ -558,7 +746,11 @@ export const parseAndGenerateRDL = async (
   const finalRDL = RDLHeaderGenerator.generateExecutableRDL(
     baseRDL,
     headerTextboxes,
-    tableBodyData
+    tableBodyData,
+    fullAnalysis.graphics,
+    undefined,
+    RDLHeaderGenerator.convertFooterAnalysis(fullAnalysis.footerAnalysis),
+    RDLHeaderGenerator.convertPDFImages(fullAnalysis.images, headerTextboxes)
   );
   
   return {
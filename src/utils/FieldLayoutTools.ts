@@ -0,0 +1,160 @@
+// Geometry for the field layout canvas: snapping a moved or resized box to the grid and to
+// the edges and centers of the other fields, and the align and distribute commands.
+// Boxes are in points from the top-left of the page.
+
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapOptions {
+  snapToGrid: boolean;
+  snapToSiblings: boolean;
+  gridSize: number;
+  // Largest distance, in points, an edge is pulled to reach a sibling's edge
+  threshold: number;
+}
+
+// A sibling edge or center the box snapped to, drawn as a guide line across the page
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+export type LayoutAlignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type LayoutAxis = 'horizontal' | 'vertical';
+
+// Edges a resize handle moves
+export interface ResizeEdges {
+  left?: boolean;
+  right?: boolean;
+  top?: boolean;
+  bottom?: boolean;
+}
+
+interface AxisSnap {
+  delta: number;
+  guide?: number;
+}
+
+export class FieldLayoutTools {
+  static readonly MIN_SIZE = 4;
+
+  // Offset that brings the box's edges or center onto a sibling's, or its corner onto the grid
+  static snapMove(box: LayoutBox, siblings: LayoutBox[], options: SnapOptions): { dx: number; dy: number; guides: SnapGuide[] } {
+    const x = this.snapAxis([box.x, box.x + box.width / 2, box.x + box.width], box.x, siblings.flatMap(sibling => this.stops(sibling, 'horizontal')), options);
+    const y = this.snapAxis([box.y, box.y + box.height / 2, box.y + box.height], box.y, siblings.flatMap(sibling => this.stops(sibling, 'vertical')), options);
+    return { dx: x.delta, dy: y.delta, guides: this.guides(x, y) };
+  }
+
+  // The box with the edges being dragged snapped; the opposite edges stay put
+  static snapResize(box: LayoutBox, edges: ResizeEdges, siblings: LayoutBox[], options: SnapOptions): { box: LayoutBox; guides: SnapGuide[] } {
+    const xStops = siblings.flatMap(sibling => this.stops(sibling, 'horizontal'));
+    const yStops = siblings.flatMap(sibling => this.stops(sibling, 'vertical'));
+    let { x, y, width, height } = box;
+    const guides: SnapGuide[] = [];
+
+    if (edges.left || edges.right) {
+      const edge = edges.left ? x : x + width;
+      const snap = this.snapAxis([edge], edge, xStops, options);
+      if (edges.left) {
+        x += snap.delta;
+        width -= snap.delta;
+      } else {
+        width += snap.delta;
+      }
+      guides.push(...this.guides(snap, { delta: 0 }));
+    }
+    if (edges.top || edges.bottom) {
+      const edge = edges.top ? y : y + height;
+      const snap = this.snapAxis([edge], edge, yStops, options);
+      if (edges.top) {
+        y += snap.delta;
+        height -= snap.delta;
+      } else {
+        height += snap.delta;
+      }
+      guides.push(...this.guides({ delta: 0 }, snap));
+    }
+
+    return { box: { x, y, width: Math.max(this.MIN_SIZE, width), height: Math.max(this.MIN_SIZE, height) }, guides };
+  }
+
+  // Lines the boxes up on the outermost edge, or the middle of their combined bounds
+  static align<T extends LayoutBox>(boxes: T[], alignment: LayoutAlignment): T[] {
+    if (boxes.length < 2) return boxes;
+    const left = Math.min(...boxes.map(box => box.x));
+    const right = Math.max(...boxes.map(box => box.x + box.width));
+    const top = Math.min(...boxes.map(box => box.y));
+    const bottom = Math.max(...boxes.map(box => box.y + box.height));
+
+    return boxes.map(box => {
+      switch (alignment) {
+        case 'left': return { ...box, x: left };
+        case 'center': return { ...box, x: (left + right) / 2 - box.width / 2 };
+        case 'right': return { ...box, x: right - box.width };
+        case 'top': return { ...box, y: top };
+        case 'middle': return { ...box, y: (top + bottom) / 2 - box.height / 2 };
+        case 'bottom': return { ...box, y: bottom - box.height };
+      }
+    });
+  }
+
+  // Equal gaps between neighbouring boxes; the first and last box keep their place
+  static distribute<T extends LayoutBox>(boxes: T[], axis: LayoutAxis): T[] {
+    if (boxes.length < 3) return boxes;
+    const start = (box: LayoutBox) => axis === 'horizontal' ? box.x : box.y;
+    const size = (box: LayoutBox) => axis === 'horizontal' ? box.width : box.height;
+
+    const sorted = [...boxes].sort((a, b) => start(a) - start(b));
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const occupied = sorted.reduce((sum, box) => sum + size(box), 0);
+    const gap = (start(last) + size(last) - start(first) - occupied) / (sorted.length - 1);
+
+    const positions = new Map<T, number>();
+    let position = start(first);
+    for (const box of sorted) {
+      positions.set(box, position);
+      position += size(box) + gap;
+    }
+    return boxes.map(box => axis === 'horizontal'
+      ? { ...box, x: positions.get(box)! }
+      : { ...box, y: positions.get(box)! });
+  }
+
+  // Sibling snapping wins over the grid; the grid snaps the box's leading edge
+  private static snapAxis(points: number[], leading: number, stops: number[], options: SnapOptions): AxisSnap {
+    if (options.snapToSiblings) {
+      let best: AxisSnap | undefined;
+      for (const point of points) {
+        for (const stop of stops) {
+          const delta = stop - point;
+          if (Math.abs(delta) <= options.threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+            best = { delta, guide: stop };
+          }
+        }
+      }
+      if (best) return best;
+    }
+    if (options.snapToGrid && options.gridSize > 0) {
+      return { delta: Math.round(leading / options.gridSize) * options.gridSize - leading };
+    }
+    return { delta: 0 };
+  }
+
+  private static stops(box: LayoutBox, axis: LayoutAxis): number[] {
+    return axis === 'horizontal'
+      ? [box.x, box.x + box.width / 2, box.x + box.width]
+      : [box.y, box.y + box.height / 2, box.y + box.height];
+  }
+
+  private static guides(x: AxisSnap, y: AxisSnap): SnapGuide[] {
+    const guides: SnapGuide[] = [];
+    if (x.guide !== undefined) guides.push({ orientation: 'vertical', position: x.guide });
+    if (y.guide !== undefined) guides.push({ orientation: 'horizontal', position: y.guide });
+    return guides;
+  }
+}
@@ -0,0 +1,106 @@
+// UI-side handle on the PDF analysis worker
+import { AnalysisCancelledError } from './AnalysisProgress';
+import { ClassificationCorrections } from './ClassificationCorrections';
+import { PDFEngineError } from './PDFJSLoader';
+import {
+  PDFAnalysisOutput,
+  PDFAnalysisProgress,
+  PDFAnalysisRequest,
+  PDFAnalysisResponse
+} from '@/workers/pdfAnalysisProtocol';
+
+interface PendingAnalysis {
+  resolve: (output: PDFAnalysisOutput) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: PDFAnalysisProgress) => void;
+  // Detaches the caller's abort listener once the analysis settles
+  cleanup: () => void;
+}
+
+export class PDFAnalysisWorkerClient {
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingAnalysis>();
+
+  analyze(
+    file: File,
+    options: { onProgress?: (progress: PDFAnalysisProgress) => void; signal?: AbortSignal } = {}
+  ): Promise<PDFAnalysisOutput> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new AnalysisCancelledError());
+    }
+
+    const requestId = this.nextRequestId++;
+    const worker = this.getWorker();
+
+    return new Promise<PDFAnalysisOutput>((resolve, reject) => {
+      const cancel = () => this.send({ type: 'cancel', requestId });
+      options.signal?.addEventListener('abort', cancel, { once: true });
+      this.pending.set(requestId, {
+        resolve,
+        reject,
+        onProgress: options.onProgress,
+        cleanup: () => options.signal?.removeEventListener('abort', cancel)
+      });
+      // Corrections live in localStorage, which the worker cannot read
+      const corrections = ClassificationCorrections.load();
+      worker.postMessage({ type: 'analyze', requestId, file, corrections } satisfies PDFAnalysisRequest);
+    });
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll(new AnalysisCancelledError());
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/pdfAnalysis.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<PDFAnalysisResponse>) => this.handleMessage(event.data));
+      this.worker.addEventListener('error', event => {
+        // The worker script itself failed; start a fresh one next time
+        this.worker?.terminate();
+        this.worker = null;
+        this.failAll(new Error(`The analysis worker failed: ${event.message || 'unknown error'}`));
+      });
+    }
+    return this.worker;
+  }
+
+  private send(request: PDFAnalysisRequest): void {
+    this.worker?.postMessage(request);
+  }
+
+  private handleMessage(response: PDFAnalysisResponse): void {
+    const pending = this.pending.get(response.requestId);
+    if (!pending) return;
+
+    switch (response.type) {
+      case 'progress':
+        pending.onProgress?.(response.progress);
+        return;
+      case 'result':
+        pending.resolve(response.output);
+        break;
+      case 'cancelled':
+        pending.reject(new AnalysisCancelledError());
+        break;
+      case 'error':
+        pending.reject(response.name === 'PDFEngineError'
+          ? new PDFEngineError(response.message)
+          : new Error(response.message));
+        break;
+    }
+    pending.cleanup();
+    this.pending.delete(response.requestId);
+  }
+
+  private failAll(error: Error): void {
+    this.pending.forEach(pending => {
+      pending.cleanup();
+      pending.reject(error);
+    });
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,491 @@
+// Vector graphics extraction (ruled lines, boxes and shaded regions) and image placement from PDF.js operator lists
+
+export interface PDFLinePrimitive {
+  kind: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  orientation: 'horizontal' | 'vertical' | 'diagonal';
+  strokeWidth: number;
+  strokeColor: string;
+  pageNumber: number;
+}
+
+export interface PDFRectanglePrimitive {
+  kind: 'rectangle';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  strokeWidth: number;
+  strokeColor: string;
+  fillColor?: string;
+  pageNumber: number;
+}
+
+export interface PDFFilledRegion {
+  kind: 'fill';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fillColor: string;
+  isRectangular: boolean;
+  pageNumber: number;
+}
+
+export type PDFGraphicPrimitive = PDFLinePrimitive | PDFRectanglePrimitive | PDFFilledRegion;
+
+// Where an image is painted on the page
+export interface PDFImagePlacement {
+  // Object id of an image XObject, or the decoded data of an inline image
+  source: unknown;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pageNumber: number;
+}
+
+export interface PDFViewportLike {
+  convertToViewportPoint(x: number, y: number): number[];
+}
+
+export interface PDFOperatorList {
+  fnArray: number[];
+  argsArray: unknown[][];
+}
+
+interface GraphicsState {
+  ctm: number[];
+  strokeColor: string;
+  fillColor: string;
+  lineWidth: number;
+}
+
+type Point = [number, number];
+
+interface SubPath {
+  points: Point[];
+  closed: boolean;
+  hasCurves: boolean;
+}
+
+export class PDFGraphicsExtractor {
+  // Path-data codes used inside constructPath by PDF.js 4+ (DrawOPS)
+  private static readonly DRAW_OPS = { moveTo: 0, lineTo: 1, curveTo: 2, closePath: 3 };
+
+  // Filled rectangles thinner than this are drawn rules rather than shaded regions
+  private static readonly RULE_THICKNESS = 2.5;
+  private static readonly MIN_LENGTH = 1;
+
+  static extractGraphics(
+    operatorList: PDFOperatorList,
+    viewport: PDFViewportLike,
+    pageNumber: number,
+    ops: { [name: string]: number }
+  ): PDFGraphicPrimitive[] {
+    const primitives: PDFGraphicPrimitive[] = [];
+    const stateStack: GraphicsState[] = [];
+    let state: GraphicsState = {
+      ctm: [1, 0, 0, 1, 0, 0],
+      strokeColor: '#000000',
+      fillColor: '#000000',
+      lineWidth: 1
+    };
+    // PDF.js 3.x emits the paint operator after constructPath instead of inside it
+    let pendingPath: SubPath[] | null = null;
+
+    const { fnArray, argsArray } = operatorList;
+    for (let i = 0; i < fnArray.length; i++) {
+      const fn = fnArray[i];
+      const args = argsArray[i] || [];
+
+      switch (fn) {
+        case ops.save:
+          stateStack.push({ ...state, ctm: [...state.ctm] });
+          break;
+        case ops.restore:
+          state = stateStack.pop() || state;
+          break;
+        case ops.transform:
+          state.ctm = this.multiplyMatrix(state.ctm, args as number[]);
+          break;
+        case ops.paintFormXObjectBegin:
+          stateStack.push({ ...state, ctm: [...state.ctm] });
+          if (Array.isArray(args[0]) || ArrayBuffer.isView(args[0])) {
+            state.ctm = this.multiplyMatrix(state.ctm, Array.from(args[0] as number[]));
+          }
+          break;
+        case ops.paintFormXObjectEnd:
+          state = stateStack.pop() || state;
+          break;
+        case ops.setLineWidth:
+          state.lineWidth = args[0] as number;
+          break;
+        case ops.setStrokeRGBColor:
+          state.strokeColor = this.toHexColor(args);
+          break;
+        case ops.setFillRGBColor:
+          state.fillColor = this.toHexColor(args);
+          break;
+        case ops.setStrokeTransparent:
+          state.strokeColor = 'transparent';
+          break;
+        case ops.setFillTransparent:
+          state.fillColor = 'transparent';
+          break;
+        case ops.constructPath: {
+          if (typeof args[0] === 'number') {
+            // PDF.js 4+: [paintOp, [pathData], minMax]
+            const pathData = (args[1] as ArrayLike<number>[] | undefined)?.[0];
+            const subPaths = this.readDrawOpsPath(pathData, state.ctm, viewport);
+            this.paintPath(args[0], subPaths, state, pageNumber, ops, primitives);
+          } else {
+            // PDF.js 3.x: [pathOps, pathArgs, minMax], paint operator follows
+            const subPaths = this.readLegacyPath(args[0] as number[], args[1] as number[], state.ctm, viewport, ops);
+            pendingPath = pendingPath ? [...pendingPath, ...subPaths] : subPaths;
+          }
+          break;
+        }
+        default:
+          if (pendingPath && this.isPaintOp(fn, ops)) {
+            this.paintPath(fn, pendingPath, state, pageNumber, ops, primitives);
+            pendingPath = null;
+          }
+      }
+    }
+
+    return primitives;
+  }
+
+  // Images are painted into the unit square of the current transformation matrix
+  static extractImagePlacements(
+    operatorList: PDFOperatorList,
+    viewport: PDFViewportLike,
+    pageNumber: number,
+    ops: { [name: string]: number }
+  ): PDFImagePlacement[] {
+    const placements: PDFImagePlacement[] = [];
+    const ctmStack: number[][] = [];
+    let ctm = [1, 0, 0, 1, 0, 0];
+
+    const { fnArray, argsArray } = operatorList;
+    for (let i = 0; i < fnArray.length; i++) {
+      const fn = fnArray[i];
+      const args = argsArray[i] || [];
+
+      switch (fn) {
+        case ops.save:
+          ctmStack.push([...ctm]);
+          break;
+        case ops.restore:
+          ctm = ctmStack.pop() || ctm;
+          break;
+        case ops.transform:
+          ctm = this.multiplyMatrix(ctm, args as number[]);
+          break;
+        case ops.paintFormXObjectBegin:
+          ctmStack.push([...ctm]);
+          if (Array.isArray(args[0]) || ArrayBuffer.isView(args[0])) {
+            ctm = this.multiplyMatrix(ctm, Array.from(args[0] as number[]));
+          }
+          break;
+        case ops.paintFormXObjectEnd:
+          ctm = ctmStack.pop() || ctm;
+          break;
+        case ops.paintImageXObject:
+        case ops.paintInlineImageXObject: {
+          const corners: Point[] = [[0, 0], [1, 0], [0, 1], [1, 1]].map(([x, y]) => this.toViewportPoint(x, y, ctm, viewport));
+          const box = this.boundingBox(corners);
+          if (box.width > this.MIN_LENGTH && box.height > this.MIN_LENGTH) {
+            placements.push({ source: args[0], ...box, pageNumber });
+          }
+          break;
+        }
+      }
+    }
+
+    return placements;
+  }
+
+  private static isPaintOp(fn: number, ops: { [name: string]: number }): boolean {
+    return [
+      ops.stroke, ops.closeStroke, ops.fill, ops.eoFill, ops.fillStroke, ops.eoFillStroke,
+      ops.closeFillStroke, ops.closeEOFillStroke, ops.endPath
+    ].includes(fn);
+  }
+
+  private static paintPath(
+    paintOp: number,
+    subPaths: SubPath[],
+    state: GraphicsState,
+    pageNumber: number,
+    ops: { [name: string]: number },
+    primitives: PDFGraphicPrimitive[]
+  ): void {
+    const stroked = [
+      ops.stroke, ops.closeStroke, ops.fillStroke, ops.eoFillStroke, ops.closeFillStroke, ops.closeEOFillStroke
+    ].includes(paintOp) && state.strokeColor !== 'transparent';
+    const filled = [
+      ops.fill, ops.eoFill, ops.fillStroke, ops.eoFillStroke, ops.closeFillStroke, ops.closeEOFillStroke
+    ].includes(paintOp) && state.fillColor !== 'transparent';
+
+    if (!stroked && !filled) return;
+
+    const strokeWidth = Math.max(0.1, state.lineWidth * this.matrixScale(state.ctm));
+
+    for (const subPath of subPaths) {
+      if (subPath.points.length < 2) continue;
+
+      const box = this.boundingBox(subPath.points);
+      const isRectangle = !subPath.hasCurves && this.isAxisAlignedRectangle(subPath.points);
+
+      if (filled && !stroked) {
+        const isRule = isRectangle &&
+          Math.min(box.width, box.height) <= this.RULE_THICKNESS &&
+          Math.max(box.width, box.height) > this.MIN_LENGTH;
+
+        if (isRule) {
+          // Thin filled bars are how many generators draw ruling lines
+          const horizontal = box.width >= box.height;
+          const centerX = box.x + box.width / 2;
+          const centerY = box.y + box.height / 2;
+          primitives.push({
+            kind: 'line',
+            x1: horizontal ? box.x : centerX,
+            y1: horizontal ? centerY : box.y,
+            x2: horizontal ? box.x + box.width : centerX,
+            y2: horizontal ? centerY : box.y + box.height,
+            orientation: horizontal ? 'horizontal' : 'vertical',
+            strokeWidth: Math.max(0.1, Math.min(box.width, box.height)),
+            strokeColor: state.fillColor,
+            pageNumber
+          });
+        } else if (box.width > this.MIN_LENGTH && box.height > this.MIN_LENGTH) {
+          primitives.push({
+            kind: 'fill',
+            ...box,
+            fillColor: state.fillColor,
+            isRectangular: isRectangle,
+            pageNumber
+          });
+        }
+        continue;
+      }
+
+      if (isRectangle && box.width > this.MIN_LENGTH && box.height > this.MIN_LENGTH) {
+        primitives.push({
+          kind: 'rectangle',
+          ...box,
+          strokeWidth,
+          strokeColor: state.strokeColor,
+          fillColor: filled ? state.fillColor : undefined,
+          pageNumber
+        });
+        continue;
+      }
+
+      // Open or irregular stroked paths: every straight segment becomes a line
+      const points = subPath.closed ? [...subPath.points, subPath.points[0]] : subPath.points;
+      for (let i = 1; i < points.length; i++) {
+        const line = this.createLine(points[i - 1], points[i], strokeWidth, state.strokeColor, pageNumber);
+        if (line) primitives.push(line);
+      }
+    }
+  }
+
+  private static createLine(
+    from: Point,
+    to: Point,
+    strokeWidth: number,
+    strokeColor: string,
+    pageNumber: number
+  ): PDFLinePrimitive | null {
+    const dx = to[0] - from[0];
+    const dy = to[1] - from[1];
+    if (Math.hypot(dx, dy) < this.MIN_LENGTH) return null;
+
+    const orientation = Math.abs(dy) < 0.5 ? 'horizontal' : Math.abs(dx) < 0.5 ? 'vertical' : 'diagonal';
+
+    // Normalise so lines always run left-to-right / top-to-bottom
+    const [start, end] = (orientation === 'vertical' ? from[1] <= to[1] : from[0] <= to[0])
+      ? [from, to]
+      : [to, from];
+
+    return {
+      kind: 'line',
+      x1: start[0],
+      y1: start[1],
+      x2: end[0],
+      y2: end[1],
+      orientation,
+      strokeWidth,
+      strokeColor,
+      pageNumber
+    };
+  }
+
+  private static readDrawOpsPath(pathData: ArrayLike<number> | undefined, ctm: number[], viewport: PDFViewportLike): SubPath[] {
+    const subPaths: SubPath[] = [];
+    if (!pathData || typeof (pathData as ArrayLike<number>).length !== 'number') return subPaths;
+
+    let current: SubPath | null = null;
+    const toPoint = (x: number, y: number) => this.toViewportPoint(x, y, ctm, viewport);
+
+    for (let i = 0; i < pathData.length;) {
+      switch (pathData[i++]) {
+        case this.DRAW_OPS.moveTo:
+          current = { points: [toPoint(pathData[i++], pathData[i++])], closed: false, hasCurves: false };
+          subPaths.push(current);
+          break;
+        case this.DRAW_OPS.lineTo:
+          current?.points.push(toPoint(pathData[i++], pathData[i++]));
+          if (!current) i += 2;
+          break;
+        case this.DRAW_OPS.curveTo:
+          if (current) {
+            current.hasCurves = true;
+            current.points.push(toPoint(pathData[i + 4], pathData[i + 5]));
+          }
+          i += 6;
+          break;
+        case this.DRAW_OPS.closePath:
+          if (current) current.closed = true;
+          break;
+        default:
+          // Unknown code: the rest of the data cannot be trusted
+          return subPaths;
+      }
+    }
+
+    return subPaths;
+  }
+
+  private static readLegacyPath(
+    pathOps: number[],
+    pathArgs: number[],
+    ctm: number[],
+    viewport: PDFViewportLike,
+    ops: { [name: string]: number }
+  ): SubPath[] {
+    const subPaths: SubPath[] = [];
+    if (!Array.isArray(pathOps) || !pathArgs) return subPaths;
+
+    let current: SubPath | null = null;
+    let j = 0;
+    const toPoint = (x: number, y: number) => this.toViewportPoint(x, y, ctm, viewport);
+    const lastPoint = () => current?.points[current.points.length - 1];
+
+    for (const op of pathOps) {
+      switch (op) {
+        case ops.moveTo:
+          current = { points: [toPoint(pathArgs[j++], pathArgs[j++])], closed: false, hasCurves: false };
+          subPaths.push(current);
+          break;
+        case ops.lineTo:
+          if (current) current.points.push(toPoint(pathArgs[j], pathArgs[j + 1]));
+          j += 2;
+          break;
+        case ops.curveTo:
+          if (current) {
+            current.hasCurves = true;
+            current.points.push(toPoint(pathArgs[j + 4], pathArgs[j + 5]));
+          }
+          j += 6;
+          break;
+        case ops.curveTo2:
+        case ops.curveTo3:
+          if (current) {
+            current.hasCurves = true;
+            current.points.push(toPoint(pathArgs[j + 2], pathArgs[j + 3]));
+          }
+          j += 4;
+          break;
+        case ops.closePath:
+          if (current && lastPoint()) current.closed = true;
+          break;
+        case ops.rectangle: {
+          const [x, y, width, height] = [pathArgs[j], pathArgs[j + 1], pathArgs[j + 2], pathArgs[j + 3]];
+          j += 4;
+          current = {
+            points: [
+              toPoint(x, y),
+              toPoint(x + width, y),
+              toPoint(x + width, y + height),
+              toPoint(x, y + height)
+            ],
+            closed: true,
+            hasCurves: false
+          };
+          subPaths.push(current);
+          break;
+        }
+      }
+    }
+
+    return subPaths;
+  }
+
+  private static isAxisAlignedRectangle(points: Point[]): boolean {
+    // Drop a trailing point that repeats the start (explicitly closed paths)
+    const corners = points.length === 5 &&
+      Math.abs(points[0][0] - points[4][0]) < 0.5 &&
+      Math.abs(points[0][1] - points[4][1]) < 0.5
+      ? points.slice(0, 4)
+      : points;
+    if (corners.length !== 4) return false;
+
+    for (let i = 0; i < 4; i++) {
+      const [ax, ay] = corners[i];
+      const [bx, by] = corners[(i + 1) % 4];
+      if (Math.abs(ax - bx) > 0.5 && Math.abs(ay - by) > 0.5) return false;
+    }
+    return true;
+  }
+
+  private static boundingBox(points: Point[]): { x: number; y: number; width: number; height: number } {
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return {
+      x: minX,
+      y: minY,
+      width: Math.max(...xs) - minX,
+      height: Math.max(...ys) - minY
+    };
+  }
+
+  private static toViewportPoint(x: number, y: number, ctm: number[], viewport: PDFViewportLike): Point {
+    const [a, b, c, d, e, f] = ctm;
+    const userX = a * x + c * y + e;
+    const userY = b * x + d * y + f;
+    // Viewport converts PDF space (origin bottom-left) into top-left page coordinates
+    const [vx, vy] = viewport.convertToViewportPoint(userX, userY);
+    return [vx, vy];
+  }
+
+  static multiplyMatrix(m1: number[], m2: number[]): number[] {
+    return [
+      m2[0] * m1[0] + m2[1] * m1[2],
+      m2[0] * m1[1] + m2[1] * m1[3],
+      m2[2] * m1[0] + m2[3] * m1[2],
+      m2[2] * m1[1] + m2[3] * m1[3],
+      m2[4] * m1[0] + m2[5] * m1[2] + m1[4],
+      m2[4] * m1[1] + m2[5] * m1[3] + m1[5]
+    ];
+  }
+
+  private static matrixScale(m: number[]): number {
+    return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1;
+  }
+
+  static toHexColor(args: unknown[]): string {
+    // PDF.js 4+ passes a ready-made hex string, 3.x passes r, g, b bytes
+    if (typeof args[0] === 'string') return args[0].toUpperCase();
+    const [r, g, b] = Array.from(args as number[]).slice(0, 3).map(v => Math.max(0, Math.min(255, Math.round(v || 0))));
+    return `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+  }
+}
@@ -0,0 +1,193 @@
+// Image extraction from PDF pages: placements come from the operator list and the pixels
+// PDF.js decoded are re-encoded as PNG or JPEG for RDL EmbeddedImages. Runs in the
+// analysis worker, so encoding uses OffscreenCanvas where it is available.
+import { PDFGraphicsExtractor, PDFImagePlacement, PDFOperatorList, PDFViewportLike } from './PDFGraphicsExtractor';
+
+export interface PDFImagePrimitive {
+  kind: 'image';
+  // Unique within the document, e.g. Image_p1_2; a valid EmbeddedImage name
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pageNumber: number;
+  mimeType: 'image/png' | 'image/jpeg';
+  // Base64 image data
+  data: string;
+}
+
+// PDF.js keeps decoded images in per-page (objs) and document-wide (commonObjs) stores
+interface PDFObjectStore {
+  // Without a callback the object is returned directly and must already be resolved
+  get(objId: string, callback?: (data: unknown) => void): unknown;
+  has(objId: string): boolean;
+}
+
+export interface PDFPageObjects {
+  objs: PDFObjectStore;
+  commonObjs: PDFObjectStore;
+}
+
+interface PDFDecodedImage {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array | Uint8ClampedArray;
+  bitmap?: ImageBitmap;
+}
+
+type EncodingCanvas = OffscreenCanvas | HTMLCanvasElement;
+
+export class PDFImageExtractor {
+  // PDF.js ImageKind values for raw pixel data
+  private static readonly IMAGE_KIND = { grayscale1bpp: 1, rgb24bpp: 2, rgba32bpp: 3 };
+  private static readonly JPEG_QUALITY = 0.9;
+  // Images still unresolved after this long are skipped rather than holding up the analysis
+  private static readonly OBJECT_TIMEOUT_MS = 2000;
+
+  static async extractImages(
+    page: PDFPageObjects,
+    operatorList: PDFOperatorList,
+    viewport: PDFViewportLike,
+    pageNumber: number,
+    ops: { [name: string]: number }
+  ): Promise<PDFImagePrimitive[]> {
+    const placements = PDFGraphicsExtractor.extractImagePlacements(operatorList, viewport, pageNumber, ops);
+    const images: PDFImagePrimitive[] = [];
+    // An image XObject drawn several times is encoded once
+    const encoded = new Map<unknown, Promise<Pick<PDFImagePrimitive, 'mimeType' | 'data'> | null>>();
+
+    for (const placement of placements) {
+      if (!encoded.has(placement.source)) {
+        encoded.set(placement.source, this.resolveImage(page, placement).then(image => image && this.encode(image)));
+      }
+      const image = await encoded.get(placement.source);
+      if (!image) continue;
+
+      const { x, y, width, height } = placement;
+      images.push({ kind: 'image', name: `Image_p${pageNumber}_${images.length + 1}`, x, y, width, height, pageNumber, ...image });
+    }
+
+    return images;
+  }
+
+  private static resolveImage(page: PDFPageObjects, placement: PDFImagePlacement): Promise<PDFDecodedImage | null> {
+    if (typeof placement.source !== 'string') {
+      return Promise.resolve(this.isDecodedImage(placement.source) ? placement.source : null);
+    }
+
+    const objId = placement.source;
+    const store = objId.startsWith('g_') ? page.commonObjs : page.objs;
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(null), this.OBJECT_TIMEOUT_MS);
+      store.get(objId, data => {
+        clearTimeout(timer);
+        resolve(this.isDecodedImage(data) ? data : null);
+      });
+    });
+  }
+
+  private static isDecodedImage(data: unknown): data is PDFDecodedImage {
+    const image = data as PDFDecodedImage;
+    return !!image && image.width > 0 && image.height > 0 && !!(image.bitmap || image.data);
+  }
+
+  // PNG keeps transparency; opaque images use JPEG when that is smaller
+  private static async encode(image: PDFDecodedImage): Promise<Pick<PDFImagePrimitive, 'mimeType' | 'data'> | null> {
+    const canvas = this.createCanvas(image.width, image.height);
+    const context = canvas?.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    if (!canvas || !context) return null;
+
+    try {
+      if (image.bitmap) {
+        context.drawImage(image.bitmap, 0, 0);
+      } else {
+        const pixels = this.toRGBA(image);
+        if (!pixels) return null;
+        context.putImageData(new ImageData(pixels, image.width, image.height), 0, 0);
+      }
+
+      let best = await this.toBlob(canvas, 'image/png');
+      if (this.isOpaque(context.getImageData(0, 0, image.width, image.height).data)) {
+        const jpeg = await this.toBlob(canvas, 'image/jpeg', this.JPEG_QUALITY);
+        if (jpeg && (!best || jpeg.size < best.size)) best = jpeg;
+      }
+      if (!best) return null;
+
+      return {
+        mimeType: best.type === 'image/jpeg' ? 'image/jpeg' : 'image/png',
+        data: this.toBase64(new Uint8Array(await best.arrayBuffer()))
+      };
+    } catch {
+      // A tainted or oversized canvas cannot be read back; the image is left out
+      return null;
+    }
+  }
+
+  private static createCanvas(width: number, height: number): EncodingCanvas | null {
+    if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+    if (typeof document === 'undefined') return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  private static toBlob(canvas: EncodingCanvas, type: string, quality?: number): Promise<Blob | null> {
+    if ('convertToBlob' in canvas) {
+      return canvas.convertToBlob({ type, quality }).catch(() => null);
+    }
+    return new Promise(resolve => canvas.toBlob(resolve, type, quality));
+  }
+
+  // Expands PDF.js pixel data (1-bit grey rows padded to whole bytes, RGB or RGBA) to RGBA
+  private static toRGBA(image: PDFDecodedImage): Uint8ClampedArray | null {
+    const { width, height, kind, data } = image;
+    const pixels = new Uint8ClampedArray(width * height * 4);
+
+    switch (kind) {
+      case this.IMAGE_KIND.rgba32bpp:
+        pixels.set(data.subarray(0, pixels.length));
+        return pixels;
+      case this.IMAGE_KIND.rgb24bpp:
+        for (let i = 0, j = 0; i < pixels.length; i += 4, j += 3) {
+          pixels[i] = data[j];
+          pixels[i + 1] = data[j + 1];
+          pixels[i + 2] = data[j + 2];
+          pixels[i + 3] = 255;
+        }
+        return pixels;
+      case this.IMAGE_KIND.grayscale1bpp: {
+        const rowBytes = (width + 7) >> 3;
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const value = data[y * rowBytes + (x >> 3)] & (128 >> (x & 7)) ? 255 : 0;
+            const i = (y * width + x) * 4;
+            pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+            pixels[i + 3] = 255;
+          }
+        }
+        return pixels;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static isOpaque(pixels: Uint8ClampedArray): boolean {
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] < 255) return false;
+    }
+    return true;
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    // Chunked so large images do not exceed the argument limit of fromCharCode
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+  }
+}
@@ -0,0 +1,99 @@
+// Loads the bundled PDF.js build once and shares it between the parsers.
+// The worker script is served by the app itself, so no CDN access is needed.
+export type PDFJSLib = typeof import('pdfjs-dist');
+export type PDFDocument = Awaited<ReturnType<PDFJSLib['getDocument']>['promise']>;
+
+export class PDFEngineError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'PDFEngineError';
+  }
+}
+
+export class PDFJSLoader {
+  private static loading: Promise<PDFJSLib> | null = null;
+
+  static load(): Promise<PDFJSLib> {
+    if (!this.loading) {
+      // A failed start is not cached so the next attempt can retry
+      this.loading = this.initialize().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  static async openDocument(data: ArrayBuffer): Promise<{ pdfjsLib: PDFJSLib; pdf: PDFDocument }> {
+    const pdfjsLib = await this.load();
+    try {
+      const pdf = await pdfjsLib.getDocument({ data }).promise;
+      return { pdfjsLib, pdf };
+    } catch (error) {
+      throw new PDFEngineError(this.describeOpenError(error), error);
+    }
+  }
+
+  // Draws one page onto a new canvas, scale being pixels per point
+  static async renderPage(data: ArrayBuffer, pageNumber: number, scale: number): Promise<HTMLCanvasElement> {
+    const { pdf } = await this.openDocument(data);
+    try {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      const canvasContext = canvas.getContext('2d');
+      if (!canvasContext) throw new PDFEngineError('The PDF page could not be drawn: this browser has no 2D canvas.');
+
+      await page.render({ canvasContext, viewport }).promise;
+      return canvas;
+    } catch (error) {
+      if (error instanceof PDFEngineError) throw error;
+      throw new PDFEngineError(`The PDF page could not be drawn: ${error instanceof Error ? error.message : String(error)}`, error);
+    } finally {
+      pdf.destroy();
+    }
+  }
+
+  private static async initialize(): Promise<PDFJSLib> {
+    // Inside the analysis worker PDF.js can fall back to running its own worker inline
+    if (typeof Worker === 'undefined' && typeof document !== 'undefined') {
+      throw new PDFEngineError('The PDF engine could not start: this browser does not support Web Workers.');
+    }
+
+    let pdfjsLib: PDFJSLib;
+    let workerUrl: string;
+    try {
+      [pdfjsLib, { default: workerUrl }] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+      ]);
+    } catch (error) {
+      throw new PDFEngineError(
+        `The PDF engine could not be loaded: ${error instanceof Error ? error.message : String(error)}`,
+        error
+      );
+    }
+
+    pdfjsLib.GlobalWorkerOptions.workerSrc = workerUrl;
+    return pdfjsLib;
+  }
+
+  private static describeOpenError(error: unknown): string {
+    const name = error instanceof Error ? error.name : '';
+    const message = error instanceof Error ? error.message : String(error);
+
+    switch (name) {
+      case 'PasswordException':
+        return 'The PDF is password protected and cannot be analyzed.';
+      case 'InvalidPDFException':
+        return 'The file is not a valid PDF document.';
+      default:
+        if (/worker/i.test(message)) {
+          return `The PDF engine worker could not start: ${message}`;
+        }
+        return `The PDF could not be opened: ${message}`;
+    }
+  }
+}
@@ -1,9 +1,5 @@
-// PDF.js will be loaded dynamically
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
-}
+import { PDFDocument, PDFJSLoader } from './PDFJSLoader';
+import { AnalysisOptions, AnalysisProgress } from './AnalysisProgress';
 
 export interface PDFTextItem {
   text: string;
@@ -13,6 +9,7 @@ export interface PDFTextItem {
   height: number;
   fontSize: number;
   fontFamily: string;
+  pageNumber?: number;
 }
 
 export interface PDFSection {
@@ -54,52 +51,69 @@ export interface PDFAnalysisResult {
   allTextItems: PDFTextItem[];
   pageWidth: number;
   pageHeight: number;
+  pageCount: number;
 }
 
 export class PDFParser {
-  static async parsePDF(file: File): Promise<PDFAnalysisResult> {
-    // Load PDF.js dynamically
-    if (!window.pdfjsLib) {
-      // Load PDF.js from CDN
-      await this.loadPDFJS();
-    }
-    
+  static async parsePDF(file: File, options?: AnalysisOptions): Promise<PDFAnalysisResult> {
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await window.pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    
-    // For now, process only the first page
-    const page = await pdf.getPage(1);
-    const viewport = page.getViewport({ scale: 1 });
-    
-    // Get text content with positioning
-    const textContent = await page.getTextContent();
-    
-    const textItems: PDFTextItem[] = textContent.items.map((item: any) => {
-      const transform = item.transform;
-      return {
-        text: item.str,
-        x: transform[4],
-        y: viewport.height - transform[5], // Convert PDF coordinate system
-        width: item.width || 0,
-        height: item.height || transform[0] || 12,
-        fontSize: transform[0] || 12,
-        fontFamily: item.fontName || 'Arial'
-      };
-    });
+    const { pdf } = await PDFJSLoader.openDocument(arrayBuffer);
+    try {
+      return await this.parseDocument(pdf, options);
+    } finally {
+      pdf.destroy();
+    }
+  }
+
+  // Analyzes a document the caller opened and destroys
+  static async parseDocument(pdf: PDFDocument, options?: AnalysisOptions): Promise<PDFAnalysisResult> {
+    // Get text content with positioning from every page
+    const pages: Array<{ textItems: PDFTextItem[]; width: number; height: number }> = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      AnalysisProgress.throwIfCancelled(options);
+      AnalysisProgress.report(options, { stage: 'layout', page: pageNumber, pageCount: pdf.numPages });
+      
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const textContent = await page.getTextContent();
+      
+      const textItems: PDFTextItem[] = textContent.items.map((item: any) => {
+        const transform = item.transform;
+        return {
+          text: item.str,
+          x: transform[4],
+          y: viewport.height - transform[5], // Convert PDF coordinate system
+          width: item.width || 0,
+          height: item.height || transform[0] || 12,
+          fontSize: transform[0] || 12,
+          fontFamily: item.fontName || 'Arial',
+          pageNumber
+        };
+      });
+      
+      pages.push({ textItems, width: viewport.width, height: viewport.height });
+    }
 
     // Analyze the layout based on your requirements
-    const analysis = this.analyzeLayout(textItems, viewport.width, viewport.height);
+    const pageWidth = pages[0]?.width || 0;
+    const pageHeight = pages[0]?.height || 0;
+    const analysis = this.analyzeLayout(pages, pageWidth, pageHeight);
     
     return {
       sections: analysis.sections,
       tables: analysis.tables,
-      allTextItems: textItems,
-      pageWidth: viewport.width,
-      pageHeight: viewport.height
+      allTextItems: pages.flatMap(page => page.textItems),
+      pageWidth,
+      pageHeight,
+      pageCount: pages.length
     };
   }
 
-  private static analyzeLayout(textItems: PDFTextItem[], pageWidth: number, pageHeight: number) {
+  private static analyzeLayout(
+    pages: Array<{ textItems: PDFTextItem[]; height: number }>,
+    pageWidth: number,
+    pageHeight: number
+  ) {
     const sections: PDFSection[] = [];
     const tables: PDFTable[] = [];
 
@@ -110,11 +124,12 @@ export class PDFParser {
     const bodyStartThreshold = pageHeight * 0.2;
     const bodyEndThreshold = pageHeight * 0.8;
 
-    // Classify items into sections
-    const headerItems = textItems.filter(item => item.y <= headerThreshold);
-    const bodyItems = textItems.filter(item => 
-      item.y > bodyStartThreshold && item.y <= bodyEndThreshold
-    );
+    // Classify items into sections; the header comes from the first page only
+    const headerItems = (pages[0]?.textItems || []).filter(item => item.y <= headerThreshold);
+    const bodyItemsByPage = pages.map(page => page.textItems.filter(item => 
+      item.y > page.height * 0.2 && item.y <= page.height * 0.8
+    ));
+    const bodyItems = bodyItemsByPage.flat();
 
     // Create header section - only identify header components
     if (headerItems.length > 0) {
@@ -128,7 +143,7 @@ export class PDFParser {
     // For body section, only detect table structures
     // Individual text items should only be included if they're part of a table
     if (bodyItems.length > 0) {
-      const detectedTable = this.detectTableStructure(bodyItems);
+      const detectedTable = this.detectMultiPageTable(bodyItemsByPage);
       if (detectedTable) {
         tables.push(detectedTable);
         
@@ -167,6 +182,45 @@ export class PDFParser {
     return { sections, tables };
   }
 
+  // Detect the body table on each page and stitch the pages together,
+  // dropping column headings that are repeated at the top of each page
+  private static detectMultiPageTable(itemsByPage: PDFTextItem[][]): PDFTable | null {
+    let stitched: PDFTable | null = null;
+
+    for (const pageItems of itemsByPage) {
+      const pageTable = this.detectTableStructure(pageItems);
+      if (!pageTable) continue;
+
+      if (!stitched) {
+        stitched = pageTable;
+        continue;
+      }
+
+      const rowText = (table: PDFTable, row: number) => table.cells
+        .filter(cell => cell.row === row)
+        .map(cell => cell.text.trim())
+        .join('|');
+      const skipRows = rowText(pageTable, 0) === rowText(stitched, 0) ? 1 : 0;
+      const rowOffset = stitched.rows - skipRows;
+
+      stitched.cells.push(...pageTable.cells
+        .filter(cell => cell.row >= skipRows)
+        .map(cell => ({ ...cell, row: cell.row + rowOffset })));
+      stitched.rows += pageTable.rows - skipRows;
+      stitched.columns = Math.max(stitched.columns, pageTable.columns);
+
+      // Bounds stay in first-page coordinates; only the horizontal extent can grow
+      const minX = Math.min(stitched.boundingBox.x, pageTable.boundingBox.x);
+      const maxX = Math.max(
+        stitched.boundingBox.x + stitched.boundingBox.width,
+        pageTable.boundingBox.x + pageTable.boundingBox.width
+      );
+      stitched.boundingBox = { ...stitched.boundingBox, x: minX, width: maxX - minX };
+    }
+
+    return stitched;
+  }
+
   private static detectTableStructure(items: PDFTextItem[]): PDFTable | null {
     if (items.length < 4) return null; // Need at least 4 items for a table
 
@@ -245,20 +299,4 @@ export class PDFParser {
       height: maxY - minY
     };
   }
-
-  private static async loadPDFJS(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Load PDF.js script
-      const script = document.createElement('script');
-      script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
-      script.onload = () => {
-        // Set worker
-        window.pdfjsLib.GlobalWorkerOptions.workerSrc = 
-          'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-        resolve();
-      };
-      script.onerror = reject;
-      document.head.appendChild(script);
-    });
-  }
-}
\ No newline at end of file
+}
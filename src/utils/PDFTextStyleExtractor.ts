@@ -0,0 +1,284 @@
+// Text styling the PDF.js text layer leaves out: fill colors are read from the operator list,
+// fonts from the loaded font objects (mapped to families SSRS can render), and alignment
+// from how the edges of text line up with other rows.
+import { PDFGraphicsExtractor, PDFOperatorList } from './PDFGraphicsExtractor';
+
+export type PDFTextAlign = 'Left' | 'Center' | 'Right';
+
+// Style of a piece of text, as carried into RDL textboxes and table cells
+export interface PDFTextStyle {
+  fontFamily?: string;
+  // Points
+  fontSize?: number;
+  fontWeight?: string;
+  isItalic?: boolean;
+  color?: string;
+  textAlign?: PDFTextAlign;
+}
+
+// Start of a shown string in PDF user space, with the fill color and font in effect
+export interface PDFTextRun {
+  x: number;
+  y: number;
+  fillColor: string;
+  // PDF.js loadedName of the font, the same as fontName on text content items
+  fontName: string;
+}
+
+// The parts of a PDF.js font object that describe the face
+export interface PDFFontInfo {
+  name?: string;
+  bold?: boolean;
+  black?: boolean;
+  italic?: boolean;
+  // Generic family PDF.js substitutes: serif, sans-serif or monospace
+  fallbackName?: string;
+}
+
+interface TextState {
+  ctm: number[];
+  fillColor: string;
+  fontName: string;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  hScale: number;
+  leading: number;
+}
+
+interface PositionedText {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export class PDFTextStyleExtractor {
+  // Font names (lowercase, without spaces) of families SSRS renders, longest match wins
+  private static readonly FONT_FAMILIES: Record<string, string> = {
+    arial: 'Arial', helvetica: 'Arial', liberationsans: 'Arial', nimbussans: 'Arial', arimo: 'Arial',
+    timesnewroman: 'Times New Roman', times: 'Times New Roman', liberationserif: 'Times New Roman',
+    nimbusroman: 'Times New Roman', tinos: 'Times New Roman',
+    couriernew: 'Courier New', courier: 'Courier New', liberationmono: 'Courier New',
+    nimbusmono: 'Courier New', cousine: 'Courier New',
+    calibri: 'Calibri', cambria: 'Cambria', candara: 'Candara', consolas: 'Consolas', constantia: 'Constantia',
+    corbel: 'Corbel', segoeui: 'Segoe UI', tahoma: 'Tahoma', verdana: 'Verdana', georgia: 'Georgia',
+    trebuchetms: 'Trebuchet MS', centurygothic: 'Century Gothic', garamond: 'Garamond',
+    bookantiqua: 'Book Antiqua', palatino: 'Palatino Linotype', lucidaconsole: 'Lucida Console',
+    lucidasans: 'Lucida Sans Unicode', franklingothic: 'Franklin Gothic Medium', gillsans: 'Gill Sans MT'
+  };
+
+  private static readonly GENERIC_FAMILIES: Record<string, string> = {
+    serif: 'Times New Roman',
+    monospace: 'Courier New'
+  };
+
+  // Checked in order, so ExtraBold is not read as Bold; values are RDL FontWeight names in lowercase
+  private static readonly FONT_WEIGHTS: Array<[RegExp, string]> = [
+    [/black|heavy/, 'heavy'],
+    [/(extra|ultra)bold/, 'extrabold'],
+    [/(semi|demi)bold|demi/, 'semibold'],
+    [/bold/, 'bold'],
+    [/medium/, 'medium'],
+    [/(extra|ultra)light/, 'extralight'],
+    [/thin|hairline/, 'thin'],
+    [/light/, 'light']
+  ];
+
+  // Points of slack when matching text items to runs and comparing edges
+  private static readonly POSITION_TOLERANCE = 1.5;
+  // Left edges closer than this count as left-aligned rather than right or centered
+  private static readonly MIN_INDENT = 3;
+
+  static extractTextRuns(operatorList: PDFOperatorList, ops: { [name: string]: number }): PDFTextRun[] {
+    const runs: PDFTextRun[] = [];
+    const stateStack: TextState[] = [];
+    let state: TextState = {
+      ctm: [1, 0, 0, 1, 0, 0],
+      fillColor: '#000000',
+      fontName: '',
+      fontSize: 0,
+      charSpacing: 0,
+      wordSpacing: 0,
+      hScale: 1,
+      leading: 0
+    };
+    // Text matrix and the offsets of the current position and line start within it
+    let textMatrix = [1, 0, 0, 1, 0, 0];
+    let x = 0, y = 0, lineX = 0, lineY = 0;
+    const moveText = (tx: number, ty: number) => {
+      x = lineX += tx;
+      y = lineY += ty;
+    };
+
+    const { fnArray, argsArray } = operatorList;
+    for (let i = 0; i < fnArray.length; i++) {
+      const fn = fnArray[i];
+      const args = argsArray[i] || [];
+
+      switch (fn) {
+        case ops.save:
+          stateStack.push({ ...state, ctm: [...state.ctm] });
+          break;
+        case ops.restore:
+          state = stateStack.pop() || state;
+          break;
+        case ops.transform:
+          state.ctm = PDFGraphicsExtractor.multiplyMatrix(state.ctm, args as number[]);
+          break;
+        case ops.paintFormXObjectBegin:
+          stateStack.push({ ...state, ctm: [...state.ctm] });
+          if (Array.isArray(args[0]) || ArrayBuffer.isView(args[0])) {
+            state.ctm = PDFGraphicsExtractor.multiplyMatrix(state.ctm, Array.from(args[0] as number[]));
+          }
+          break;
+        case ops.paintFormXObjectEnd:
+          state = stateStack.pop() || state;
+          break;
+        case ops.setFillRGBColor:
+          state.fillColor = PDFGraphicsExtractor.toHexColor(args);
+          break;
+        case ops.setFillTransparent:
+          state.fillColor = 'transparent';
+          break;
+        case ops.setFont:
+          state.fontName = String(args[0]);
+          state.fontSize = args[1] as number;
+          break;
+        case ops.setCharSpacing:
+          state.charSpacing = args[0] as number;
+          break;
+        case ops.setWordSpacing:
+          state.wordSpacing = args[0] as number;
+          break;
+        case ops.setHScale:
+          state.hScale = (args[0] as number) / 100;
+          break;
+        case ops.setLeading:
+          state.leading = -(args[0] as number);
+          break;
+        case ops.beginText:
+          textMatrix = [1, 0, 0, 1, 0, 0];
+          x = y = lineX = lineY = 0;
+          break;
+        case ops.setTextMatrix:
+          // PDF.js 5 passes the matrix as one typed array, older versions as six numbers
+          textMatrix = Array.from((args.length === 1 ? args[0] : args) as ArrayLike<number>);
+          x = y = lineX = lineY = 0;
+          break;
+        case ops.moveText:
+          moveText(args[0] as number, args[1] as number);
+          break;
+        case ops.setLeadingMoveText:
+          state.leading = args[1] as number;
+          moveText(args[0] as number, args[1] as number);
+          break;
+        case ops.nextLine:
+          moveText(0, state.leading);
+          break;
+        case ops.showText:
+        case ops.showSpacedText:
+        case ops.nextLineShowText:
+        case ops.nextLineSetSpacingShowText: {
+          if (fn === ops.nextLineShowText || fn === ops.nextLineSetSpacingShowText) moveText(0, state.leading);
+          const [a, b, c, d, e, f] = PDFGraphicsExtractor.multiplyMatrix(state.ctm, textMatrix);
+          runs.push({ x: a * x + c * y + e, y: b * x + d * y + f, fillColor: state.fillColor, fontName: state.fontName });
+          x += this.advance(args[args.length - 1], state);
+          break;
+        }
+      }
+    }
+
+    return runs;
+  }
+
+  // The run a text item starts in: the closest one starting at or before it on the same baseline
+  static findRun(runs: PDFTextRun[], x: number, y: number): PDFTextRun | undefined {
+    let best: PDFTextRun | undefined;
+    for (const run of runs) {
+      if (Math.abs(run.y - y) > this.POSITION_TOLERANCE || run.x > x + this.POSITION_TOLERANCE) continue;
+      if (!best || run.x > best.x) best = run;
+    }
+    return best;
+  }
+
+  // "ABCDEF+Helvetica-BoldOblique" -> Arial, bold, italic
+  static resolveFont(font: PDFFontInfo | undefined, fallbackFamily?: string): Pick<PDFTextStyle, 'fontFamily' | 'fontWeight' | 'isItalic'> {
+    // Subset fonts are prefixed with six capitals and a plus sign
+    const name = (font?.name || '').replace(/^[A-Z]{6}\+/, '');
+    const [family = '', ...styleParts] = name.split(/[-,]/);
+    const style = styleParts.join('').toLowerCase();
+    const key = family.replace(/(PSMT|MT|PS)$/, '').replace(/[\s_]/g, '').toLowerCase();
+
+    const known = Object.keys(this.FONT_FAMILIES)
+      .filter(candidate => key.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    const generic = font?.fallbackName || fallbackFamily || '';
+    const fontFamily = known ? this.FONT_FAMILIES[known] : this.GENERIC_FAMILIES[generic] || 'Arial';
+
+    // Weight words may be part of the family name, as in "Arial Black" or "SegoeUI-Semibold"
+    const weightText = `${key} ${style}`;
+    const weight = this.FONT_WEIGHTS.find(([pattern]) => pattern.test(weightText))?.[1];
+    const fontWeight = weight || (font?.black ? 'heavy' : font?.bold ? 'bold' : 'Normal');
+
+    return { fontFamily, fontWeight, isItalic: !!font?.italic || /italic|oblique/.test(style) };
+  }
+
+  // Text whose right edge or center lines up with other rows while its left edge does not is
+  // right-aligned or centered; everything else is left-aligned. Items are in top-left page space.
+  static inferAlignments(items: PositionedText[]): PDFTextAlign[] {
+    return items.map(item => {
+      const votes = { Left: 0, Center: 0, Right: 0 };
+      for (const other of items) {
+        if (other === item || !this.onDifferentRows(item, other)) continue;
+
+        if (Math.abs(other.x - item.x) <= this.POSITION_TOLERANCE) {
+          votes.Left++;
+        } else if (Math.abs(other.x - item.x) >= this.MIN_INDENT) {
+          if (Math.abs(other.x + other.width - (item.x + item.width)) <= this.POSITION_TOLERANCE) {
+            votes.Right++;
+          } else if (Math.abs(other.x + other.width / 2 - (item.x + item.width / 2)) <= this.POSITION_TOLERANCE) {
+            votes.Center++;
+          }
+        }
+      }
+
+      if (votes.Right > votes.Left && votes.Right >= votes.Center) return 'Right';
+      if (votes.Center > votes.Left) return 'Center';
+      return 'Left';
+    });
+  }
+
+  // Style of one column, from its first non-empty cell
+  static columnStyles(rows: Array<Array<PDFTextStyle & { text?: string }>>): PDFTextStyle[] {
+    const columnCount = Math.max(0, ...rows.map(row => row.length));
+    return Array.from({ length: columnCount }, (_, column) =>
+      this.styleOf(rows.map(row => row[column]).find(cell => cell?.text?.trim()))
+    );
+  }
+
+  static styleOf(component?: PDFTextStyle): PDFTextStyle {
+    if (!component) return {};
+    const { fontFamily, fontSize, fontWeight, isItalic, color, textAlign } = component;
+    return { fontFamily: fontFamily || undefined, fontSize, fontWeight, isItalic, color, textAlign };
+  }
+
+  private static onDifferentRows(a: PositionedText, b: PositionedText): boolean {
+    return Math.abs(a.y - b.y) > Math.min(a.height, b.height) / 2;
+  }
+
+  // Horizontal advance of a shown string in text space, from PDF.js glyph widths (1/1000 em)
+  private static advance(glyphs: unknown, state: TextState): number {
+    if (!Array.isArray(glyphs)) return 0;
+    let width = 0;
+    for (const glyph of glyphs) {
+      if (typeof glyph === 'number') {
+        width -= (glyph * state.fontSize) / 1000;
+      } else if (glyph && typeof glyph === 'object') {
+        const { width: glyphWidth = 0, isSpace } = glyph as { width?: number; isSpace?: boolean };
+        width += (glyphWidth * state.fontSize) / 1000 + state.charSpacing + (isSpace ? state.wordSpacing : 0);
+      }
+    }
+    return width * state.hScale;
+  }
+}
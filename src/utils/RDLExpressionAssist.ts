@@ -0,0 +1,428 @@
+// Editing help for SSRS expressions: tokens for syntax highlighting, completions for
+// Fields, Parameters, Globals, User and functions, and checks of the references against
+// the base RDL. Aggregates outside data regions get the dataset scope they need; inside a
+// data region such as a Tablix cell, fields read the region's dataset.
+import { RDLExpressionError, RDLExpressionEvaluator, RDLExpressionNode } from './RDLExpressionEvaluator';
+import { RDLCatalogField, RDLFieldCatalog } from './RDLFieldCatalog';
+import { RDLMergeEngine, RDLMergeError } from './RDLMergeEngine';
+
+export type RDLExpressionSection = 'header' | 'body' | 'footer';
+
+// Names an expression can refer to in the base RDL
+export interface RDLExpressionVocabulary {
+  fields: RDLCatalogField[];
+  parameters: string[];
+  dataSets: string[];
+}
+
+export type RDLExpressionTokenKind =
+  | 'operator' | 'string' | 'number' | 'collection' | 'member' | 'function' | 'keyword' | 'name' | 'whitespace' | 'invalid';
+
+export interface RDLExpressionToken {
+  kind: RDLExpressionTokenKind;
+  text: string;
+  start: number;
+}
+
+export interface RDLExpressionSuggestion {
+  kind: 'field' | 'parameter' | 'global' | 'collection' | 'function';
+  label: string;
+  insertText: string;
+  detail: string;
+}
+
+// Suggestions replace the text from `from` to `to`
+export interface RDLExpressionCompletion {
+  from: number;
+  to: number;
+  suggestions: RDLExpressionSuggestion[];
+}
+
+export interface RDLExpressionIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  // Member name the issue is about, for underlining
+  target?: string;
+}
+
+interface EnclosingCall {
+  name: string;
+  argumentIndex: number;
+  // Literal dataset or group name given as the scope argument
+  scope?: string;
+  hasScope: boolean;
+}
+
+interface ReferenceContext {
+  aggregate: boolean;
+  scope?: string;
+}
+
+export class RDLExpressionAssist {
+  // Position of the scope argument of the aggregate functions
+  private static readonly SCOPE_ARGUMENT: Record<string, number> = {
+    first: 1, last: 1, sum: 1, count: 1, countdistinct: 1, min: 1, max: 1, avg: 1,
+    countrows: 0, rownumber: 0, runningvalue: 2, previous: 1
+  };
+  // Row-by-row functions, which page headers and footers have no rows for
+  private static readonly BODY_ONLY_FUNCTIONS = ['rownumber', 'runningvalue', 'previous'];
+  private static readonly FUNCTIONS: Array<[string, string]> = [
+    ['First', 'expression, scope'], ['Last', 'expression, scope'], ['Sum', 'expression, scope'],
+    ['Count', 'expression, scope'], ['CountDistinct', 'expression, scope'], ['Min', 'expression, scope'],
+    ['Max', 'expression, scope'], ['Avg', 'expression, scope'], ['CountRows', 'scope'], ['RowNumber', 'scope'],
+    ['RunningValue', 'expression, function, scope'], ['Previous', 'expression, scope'],
+    ['IIf', 'condition, whenTrue, whenFalse'], ['Switch', 'condition, value, ...'], ['Choose', 'index, value, ...'],
+    ['Format', 'value, format'], ['FormatNumber', 'value, digits'], ['FormatCurrency', 'value, digits'],
+    ['FormatPercent', 'value, digits'], ['FormatDateTime', 'value, kind'],
+    ['CStr', 'value'], ['CInt', 'value'], ['CLng', 'value'], ['CDbl', 'value'], ['CDec', 'value'], ['CSng', 'value'],
+    ['CBool', 'value'], ['CDate', 'value'], ['IsNothing', 'value'], ['IsNumeric', 'value'], ['IsDate', 'value'],
+    ['Len', 'text'], ['Left', 'text, length'], ['Right', 'text, length'], ['Mid', 'text, start, length'],
+    ['Trim', 'text'], ['LTrim', 'text'], ['RTrim', 'text'], ['UCase', 'text'], ['LCase', 'text'],
+    ['Split', 'text, separator'], ['Join', 'values, separator'], ['Replace', 'text, find, replacement'],
+    ['InStr', 'text, find'], ['Space', 'count'], ['Round', 'value, digits'], ['Abs', 'value'], ['Int', 'value'],
+    ['Fix', 'value'], ['Now', ''], ['Today', ''], ['Year', 'date'], ['Month', 'date'], ['Day', 'date'],
+    ['Hour', 'date'], ['Minute', 'date'], ['MonthName', 'month, abbreviate'], ['WeekdayName', 'day']
+  ];
+  private static readonly COLLECTIONS = ['Fields', 'Parameters', 'Globals', 'User', 'ReportItems'];
+  private static readonly GLOBALS = [
+    'ExecutionTime', 'PageNumber', 'TotalPages', 'OverallPageNumber', 'OverallTotalPages', 'PageName',
+    'ReportFolder', 'ReportName', 'ReportServerUrl', 'RenderFormat'
+  ];
+  // Only page headers and footers know the page
+  private static readonly PAGE_GLOBALS = ['PageNumber', 'TotalPages', 'OverallPageNumber', 'OverallTotalPages', 'PageName'];
+  private static readonly USER = ['UserID', 'Language'];
+  private static readonly FIELD_PROPERTIES = ['value', 'ismissing', 'label', 'key', 'uniquename', 'levelnumber', 'isaggregatable'];
+  private static readonly KEYWORDS = [
+    'and', 'andalso', 'or', 'orelse', 'xor', 'not', 'mod', 'like', 'is', 'nothing', 'true', 'false',
+    'vbcrlf', 'vbnewline', 'vbcr', 'vblf', 'vbtab'
+  ];
+  private static readonly MAX_SUGGESTIONS = 50;
+
+  // Unparseable base RDL gives an empty vocabulary, as for the field catalog
+  static vocabulary(rdlContent: string): RDLExpressionVocabulary {
+    const fields = RDLFieldCatalog.fromRDL(rdlContent);
+    let root: Element | undefined;
+    try {
+      root = rdlContent ? RDLMergeEngine.parse(rdlContent).root : undefined;
+    } catch (error) {
+      if (!(error instanceof RDLMergeError)) throw error;
+    }
+
+    const dataSetList = root && RDLMergeEngine.findElement(root, ['DataSets']);
+    const parameterList = root && RDLMergeEngine.findElement(root, ['ReportParameters']);
+    return {
+      fields,
+      dataSets: (dataSetList ? RDLMergeEngine.childElements(dataSetList, 'DataSet') : []).map(dataSet => dataSet.getAttribute('Name') || ''),
+      parameters: (parameterList ? RDLMergeEngine.childElements(parameterList, 'ReportParameter') : []).map(parameter => parameter.getAttribute('Name') || '')
+    };
+  }
+
+  // Never fails: unfinished strings run to the end and unknown characters become invalid tokens
+  static tokenize(expression: string): RDLExpressionToken[] {
+    const tokens: RDLExpressionToken[] = [];
+    let i = 0;
+    while (i < expression.length) {
+      const rest = expression.slice(i);
+      const match =
+        rest.match(/^\s+/) ||
+        rest.match(/^"(?:[^"]|"")*(?:"|$)/) ||
+        rest.match(/^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?/) ||
+        rest.match(/^(?:[A-Za-z_]\w*|\[[^\]]*\]?)/) ||
+        rest.match(/^(?:<>|<=|>=|[-+*/\\^&=<>(),!.])/);
+      const text = match ? match[0] : rest[0];
+      tokens.push({ kind: this.kindOf(text, tokens, expression.slice(i + text.length)), text, start: i });
+      i += text.length;
+    }
+    return tokens;
+  }
+
+  // Completions at the cursor; explicit asks for them even before anything is typed
+  static complete(
+    expression: string,
+    cursor: number,
+    vocabulary: RDLExpressionVocabulary,
+    section: RDLExpressionSection,
+    explicit = false,
+    inDataRegion = false
+  ): RDLExpressionCompletion | null {
+    const before = expression.slice(0, cursor);
+    if ((before.match(/"/g) || []).length % 2 === 1) return null;
+    const wordEnd = cursor + (expression.slice(cursor).match(/^[\w\]]*/)?.[0].length ?? 0);
+
+    const member = before.match(/\b(Fields|Parameters|Globals|User|ReportItems)!(\[[^\]]*|\w*)$/i);
+    if (member) {
+      const collection = member[1].toLowerCase();
+      const prefix = member[2].replace(/^\[/, '').toLowerCase();
+      const from = cursor - member[2].length;
+      const hasProperty = expression.slice(wordEnd).startsWith('.');
+      const suggestions = collection === 'fields'
+        ? this.fieldSuggestions(expression, cursor - member[0].length, vocabulary, section, inDataRegion, hasProperty)
+        : this.memberSuggestions(collection, vocabulary, section, hasProperty);
+      const matching = suggestions
+        .filter(suggestion => suggestion.label.toLowerCase().includes(prefix))
+        .sort((a, b) => Number(!a.label.toLowerCase().startsWith(prefix)) - Number(!b.label.toLowerCase().startsWith(prefix)));
+      // Fields wrapped in an aggregate replace the collection name too
+      const wrapped = matching.some(suggestion => suggestion.insertText.startsWith('First('));
+      return matching.length > 0
+        ? { from: wrapped ? cursor - member[0].length : from, to: wordEnd, suggestions: matching.slice(0, this.MAX_SUGGESTIONS) }
+        : null;
+    }
+
+    const word = before.match(/(^|[^\w.!\]])([A-Za-z_]\w*)$/);
+    if (!word && !(explicit && /(^|[\s(,=&+\-*/<>])$/.test(before))) return null;
+
+    const prefix = (word?.[2] || '').toLowerCase();
+    const suggestions: RDLExpressionSuggestion[] = [
+      ...this.COLLECTIONS.map(name => ({ kind: 'collection' as const, label: `${name}!`, insertText: `${name}!`, detail: 'Collection' })),
+      ...this.FUNCTIONS
+        .filter(([name]) => section === 'body' || !this.BODY_ONLY_FUNCTIONS.includes(name.toLowerCase()))
+        .map(([name, parameters]) => ({ kind: 'function' as const, label: name, insertText: `${name}(`, detail: `${name}(${parameters})` }))
+    ].filter(suggestion => suggestion.label.toLowerCase().startsWith(prefix));
+    return suggestions.length > 0 ? { from: cursor - prefix.length, to: wordEnd, suggestions: suggestions.slice(0, this.MAX_SUGGESTIONS) } : null;
+  }
+
+  static validate(
+    expression: string,
+    vocabulary: RDLExpressionVocabulary,
+    section: RDLExpressionSection,
+    inDataRegion = false
+  ): RDLExpressionIssue[] {
+    const trimmed = expression.trim();
+    if (!trimmed) return [];
+    if (!trimmed.startsWith('=')) {
+      return [{ severity: 'warning', message: 'Expressions start with "="; without it the text is shown as typed.' }];
+    }
+
+    let root: RDLExpressionNode;
+    try {
+      root = RDLExpressionEvaluator.parse(trimmed.slice(1));
+    } catch (error) {
+      if (!(error instanceof RDLExpressionError)) throw error;
+      // The evaluator does not parse custom code calls, which the report server does
+      return /\bCode\./i.test(trimmed)
+        ? [{ severity: 'warning', message: 'Calls into custom code are not checked.' }]
+        : [{ severity: 'error', message: error.message }];
+    }
+
+    const issues: RDLExpressionIssue[] = [];
+    this.check(root, { aggregate: false }, vocabulary, section, section === 'body' && inDataRegion, issues);
+    return issues;
+  }
+
+  private static kindOf(text: string, previous: RDLExpressionToken[], rest: string): RDLExpressionTokenKind {
+    if (/^\s/.test(text)) return 'whitespace';
+    if (text.startsWith('"')) return 'string';
+    if (/^[\d.]/.test(text) && text !== '.') return 'number';
+    if (!/^[A-Za-z_[]/.test(text)) return /^(?:<>|<=|>=|[-+*/\\^&=<>(),!.])$/.test(text) ? 'operator' : 'invalid';
+
+    const significant = previous.filter(token => token.kind !== 'whitespace');
+    const last = significant[significant.length - 1];
+    if (last && (last.text === '!' || last.text === '.')) return 'member';
+    if (rest.startsWith('!') && this.COLLECTIONS.some(name => name.toLowerCase() === text.toLowerCase())) return 'collection';
+    if (this.KEYWORDS.includes(text.toLowerCase())) return 'keyword';
+    if (/^\s*\(/.test(rest)) return 'function';
+    return 'name';
+  }
+
+  private static fieldSuggestions(
+    expression: string,
+    referenceStart: number,
+    vocabulary: RDLExpressionVocabulary,
+    section: RDLExpressionSection,
+    inDataRegion: boolean,
+    hasProperty: boolean
+  ): RDLExpressionSuggestion[] {
+    const call = this.enclosingCall(expression, referenceStart);
+    const scopeIndex = call && this.SCOPE_ARGUMENT[call.name];
+    const inAggregate = scopeIndex !== undefined && call!.argumentIndex < scopeIndex;
+    const scoped = inAggregate && call!.scope && vocabulary.dataSets.includes(call!.scope) ? call!.scope : undefined;
+    // Outside data regions a field needs an aggregate naming its dataset, unless there is only one in the body
+    const needsAggregate = !call?.name || scopeIndex === undefined
+      ? section !== 'body' || (!inDataRegion && vocabulary.dataSets.length > 1)
+      : false;
+
+    return vocabulary.fields
+      .filter(field => !scoped || field.dataSet === scoped)
+      .map(field => {
+        const name = /^\w+$/.test(field.name) ? field.name : `[${field.name}]`;
+        let insertText = hasProperty ? name : `${name}.Value`;
+        if (inAggregate && !call!.hasScope) insertText += `, "${field.dataSet}"`;
+        else if (needsAggregate && !hasProperty && !inAggregate) insertText = `First(Fields!${name}.Value, "${field.dataSet}")`;
+        return { kind: 'field' as const, label: field.name, insertText, detail: `${field.dataSet}${field.typeName ? ` · ${field.typeName}` : ''}` };
+      });
+  }
+
+  private static memberSuggestions(
+    collection: string,
+    vocabulary: RDLExpressionVocabulary,
+    section: RDLExpressionSection,
+    hasProperty: boolean
+  ): RDLExpressionSuggestion[] {
+    switch (collection) {
+      case 'parameters':
+        return vocabulary.parameters.map(name => ({ kind: 'parameter', label: name, insertText: hasProperty ? name : `${name}.Value`, detail: 'Report parameter' }));
+      case 'globals':
+        return this.GLOBALS
+          .filter(name => section !== 'body' || !this.PAGE_GLOBALS.includes(name))
+          .map(name => ({ kind: 'global', label: name, insertText: name, detail: 'Built-in field' }));
+      case 'user':
+        return this.USER.map(name => ({ kind: 'global', label: name, insertText: name, detail: 'User' }));
+      default:
+        return [];
+    }
+  }
+
+  // The function call whose argument list holds position, with the scope it was given
+  private static enclosingCall(expression: string, position: number): EnclosingCall | undefined {
+    const tokens = this.tokenize(expression).filter(token => token.kind !== 'whitespace');
+    let depth = 0;
+    let open = -1;
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      if (tokens[i].start >= position) continue;
+      if (tokens[i].text === ')') depth++;
+      else if (tokens[i].text === '(' && depth-- === 0) {
+        open = i;
+        break;
+      }
+    }
+    const callee = tokens[open - 1];
+    if (open < 1 || callee.kind !== 'function') return undefined;
+
+    // Arguments up to the matching parenthesis, or the end of an unfinished call
+    const args: RDLExpressionToken[][] = [[]];
+    depth = 0;
+    for (const token of tokens.slice(open + 1)) {
+      if (token.text === '(') depth++;
+      else if (token.text === ')' && depth-- === 0) break;
+      if (token.text === ',' && depth === 0) args.push([]);
+      else args[args.length - 1].push(token);
+    }
+
+    const argumentIndex = tokens.slice(open + 1).filter((token, index, rest) =>
+      token.start < position && token.text === ',' &&
+      rest.slice(0, index).reduce((level, other) => level + (other.text === '(' ? 1 : other.text === ')' ? -1 : 0), 0) === 0
+    ).length;
+    const name = callee.text.toLowerCase();
+    const scopeTokens = args[this.SCOPE_ARGUMENT[name] ?? -1] || [];
+    const scope = scopeTokens.length === 1 && scopeTokens[0].kind === 'string' ? this.stringValue(scopeTokens[0].text) : undefined;
+    return { name, argumentIndex, scope, hasScope: scopeTokens.length > 0 };
+  }
+
+  private static check(
+    node: RDLExpressionNode,
+    context: ReferenceContext,
+    vocabulary: RDLExpressionVocabulary,
+    section: RDLExpressionSection,
+    inDataRegion: boolean,
+    issues: RDLExpressionIssue[]
+  ): void {
+    const visit = (child: RDLExpressionNode, childContext = context) =>
+      this.check(child, childContext, vocabulary, section, inDataRegion, issues);
+    switch (node.type) {
+      case 'reference':
+        this.checkReference(node, context, vocabulary, section, inDataRegion, issues);
+        return;
+      case 'call': {
+        if (section !== 'body' && this.BODY_ONLY_FUNCTIONS.includes(node.name)) {
+          const name = this.FUNCTIONS.find(([candidate]) => candidate.toLowerCase() === node.name)?.[0];
+          issues.push({ severity: 'error', message: `${name} works row by row and can only be used in the body.` });
+        }
+        const scopeIndex = this.SCOPE_ARGUMENT[node.name];
+        if (scopeIndex === undefined) {
+          node.args.forEach(arg => visit(arg));
+          return;
+        }
+        const scopeArg = node.args[scopeIndex];
+        const scope = scopeArg?.type === 'literal' && typeof scopeArg.value === 'string' ? scopeArg.value : undefined;
+        if (scope !== undefined && vocabulary.dataSets.length > 0 && !vocabulary.dataSets.includes(scope)) {
+          issues.push(section === 'body'
+            ? { severity: 'warning', message: `"${scope}" is not a dataset of the base RDL; it must name a group or data region.`, target: scope }
+            : { severity: 'error', message: `"${scope}" is not a dataset of the base RDL.`, target: scope });
+        }
+        node.args.forEach((arg, index) => visit(arg, index === scopeIndex ? context : { aggregate: true, scope }));
+        return;
+      }
+      case 'method':
+        visit(node.target);
+        node.args.forEach(arg => visit(arg));
+        return;
+      case 'index':
+        visit(node.target);
+        visit(node.index);
+        return;
+      case 'unary':
+        visit(node.operand);
+        return;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        return;
+      default:
+        return;
+    }
+  }
+
+  private static checkReference(
+    node: Extract<RDLExpressionNode, { type: 'reference' }>,
+    context: ReferenceContext,
+    vocabulary: RDLExpressionVocabulary,
+    section: RDLExpressionSection,
+    inDataRegion: boolean,
+    issues: RDLExpressionIssue[]
+  ): void {
+    const loaded = vocabulary.dataSets.length > 0;
+    const target = node.name;
+    switch (node.collection) {
+      case 'fields': {
+        const matches = vocabulary.fields.filter(field => field.name === node.name);
+        if (loaded && matches.length === 0) {
+          const similar = vocabulary.fields.find(field => field.name.toLowerCase() === node.name.toLowerCase());
+          issues.push({
+            severity: 'error',
+            message: `Fields!${node.name} is not a field of any dataset${similar ? `; did you mean ${similar.name}?` : '.'}`,
+            target
+          });
+        } else if (context.scope && loaded && vocabulary.dataSets.includes(context.scope) && !matches.some(field => field.dataSet === context.scope)) {
+          issues.push({ severity: 'error', message: `Fields!${node.name} is not a field of dataset "${context.scope}".`, target });
+        }
+
+        const dataSet = matches[0]?.dataSet || vocabulary.dataSets[0] || 'DataSet1';
+        const example = `=First(Fields!${node.name}.Value, "${dataSet}")`;
+        if (section !== 'body' && !context.aggregate) {
+          issues.push({ severity: 'error', message: `Page headers and footers can only use fields inside an aggregate, e.g. ${example}`, target });
+        } else if (!context.scope && !inDataRegion && (section !== 'body' || vocabulary.dataSets.length > 1)) {
+          issues.push({ severity: 'error', message: `Outside a data region the dataset must be named, e.g. ${example}`, target });
+        }
+        if (!node.property) {
+          issues.push({ severity: 'warning', message: `Fields!${node.name} needs a property such as .Value.`, target });
+        } else if (!this.FIELD_PROPERTIES.includes(node.property.toLowerCase())) {
+          issues.push({ severity: 'warning', message: `"${node.property}" is not a field property; use .Value.`, target });
+        }
+        return;
+      }
+      case 'parameters':
+        if (loaded && !vocabulary.parameters.includes(node.name)) {
+          issues.push({ severity: 'error', message: `Parameters!${node.name} is not a parameter of the base RDL.`, target });
+        }
+        return;
+      case 'globals':
+        if (!this.GLOBALS.some(name => name.toLowerCase() === node.name.toLowerCase())) {
+          issues.push({ severity: 'error', message: `Globals!${node.name} is not a built-in field.`, target });
+        } else if (section === 'body' && this.PAGE_GLOBALS.includes(node.name)) {
+          issues.push({ severity: 'error', message: `Globals!${node.name} can only be used in page headers and footers.`, target });
+        }
+        return;
+      case 'user':
+        if (!this.USER.some(name => name.toLowerCase() === node.name.toLowerCase())) {
+          issues.push({ severity: 'error', message: `User!${node.name} is not a User member; use UserID or Language.`, target });
+        }
+        return;
+      default:
+        return;
+    }
+  }
+
+  private static stringValue(text: string): string {
+    return text.replace(/^"|"$/g, '').replace(/""/g, '"');
+  }
+}
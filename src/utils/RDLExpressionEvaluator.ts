@@ -0,0 +1,648 @@
+// Evaluates the common subset of SSRS (Visual Basic) expressions against sample rows for
+// previews: Fields, Parameters, Globals, User and ReportItems references, aggregates,
+// IIf/Switch, Format and the string, math and conversion functions reports use most.
+// Formatting follows the en-US culture, the report server default.
+
+// Arrays come from Split and are only indexed or joined
+export type RDLValue = string | number | boolean | Date | null | RDLValue[];
+export type RDLSampleRow = Record<string, RDLValue>;
+
+export interface RDLExpressionContext {
+  // Rows of each dataset and of the current group instances, by name; aggregates may name any of them
+  scopes: Record<string, RDLSampleRow[]>;
+  // Rows of the innermost scope; aggregates without a scope argument run over these
+  rows: RDLSampleRow[];
+  // Row that Fields! reads; undefined outside a data region
+  row?: RDLSampleRow;
+  parameters: Record<string, RDLValue>;
+  globals: Record<string, RDLValue>;
+  user: Record<string, RDLValue>;
+  // Values of textboxes already laid out, by name
+  reportItems: Record<string, RDLValue>;
+}
+
+export class RDLExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RDLExpressionError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'name'; value: string }
+  | { kind: 'operator'; value: string };
+
+// Parsed expression; parse() builds it and evaluate() walks it
+export type RDLExpressionNode =
+  | { type: 'literal'; value: RDLValue }
+  | { type: 'reference'; collection: string; name: string; property?: string }
+  | { type: 'call'; name: string; args: RDLExpressionNode[] }
+  | { type: 'method'; target: RDLExpressionNode; name: string; args: RDLExpressionNode[] }
+  | { type: 'index'; target: RDLExpressionNode; index: RDLExpressionNode }
+  | { type: 'unary'; operator: string; operand: RDLExpressionNode }
+  | { type: 'binary'; operator: string; left: RDLExpressionNode; right: RDLExpressionNode };
+
+type ValueFunction = (...args: RDLValue[]) => RDLValue;
+type AggregateFunction = (values: RDLValue[]) => RDLValue;
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export class RDLExpressionEvaluator {
+  // Lowest precedence first, as in Visual Basic
+  private static readonly BINARY_LEVELS = [
+    ['or', 'orelse', 'xor'],
+    ['and', 'andalso'],
+    ['=', '<>', '<', '>', '<=', '>=', 'like'],
+    ['&'],
+    ['+', '-'],
+    ['mod'],
+    ['\\'],
+    ['*', '/']
+  ];
+  private static readonly COLLECTIONS = ['fields', 'parameters', 'globals', 'user', 'reportitems'];
+  private static readonly CONSTANTS: Record<string, string> = {
+    vbcrlf: '\r\n', vbnewline: '\r\n', vbcr: '\r', vblf: '\n', vbtab: '\t'
+  };
+  // Standard date format strings of the en-US culture
+  private static readonly DATE_PATTERNS: Record<string, string> = {
+    d: 'M/d/yyyy',
+    D: 'dddd, MMMM d, yyyy',
+    t: 'h:mm tt',
+    T: 'h:mm:ss tt',
+    f: 'dddd, MMMM d, yyyy h:mm tt',
+    F: 'dddd, MMMM d, yyyy h:mm:ss tt',
+    g: 'M/d/yyyy h:mm tt',
+    G: 'M/d/yyyy h:mm:ss tt',
+    M: 'MMMM d',
+    m: 'MMMM d',
+    Y: 'MMMM yyyy',
+    y: 'MMMM yyyy',
+    s: 'yyyy-MM-ddTHH:mm:ss'
+  };
+
+  private static readonly AGGREGATES: Record<string, AggregateFunction> = {
+    first: values => values.length > 0 ? values[0] : null,
+    last: values => values.length > 0 ? values[values.length - 1] : null,
+    sum: values => values.filter(value => value !== null).reduce<number>((sum, value) => sum + this.toNumber(value), 0),
+    count: values => values.filter(value => value !== null).length,
+    countdistinct: values => new Set(values.filter(value => value !== null).map(value => this.toText(value))).size,
+    min: values => this.extreme(values, -1),
+    max: values => this.extreme(values, 1),
+    avg: values => {
+      const numbers = values.filter(value => value !== null).map(value => this.toNumber(value));
+      return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null;
+    }
+  };
+
+  private static readonly FUNCTIONS: Record<string, ValueFunction> = {
+    format: (value, format) => this.format(value, format === null ? '' : this.toText(format)),
+    formatnumber: (value, digits) => this.format(value, `N${digits === null || digits === undefined ? 2 : this.toNumber(digits)}`),
+    formatcurrency: (value, digits) => this.format(value, `C${digits === null || digits === undefined ? 2 : this.toNumber(digits)}`),
+    formatpercent: (value, digits) => this.format(value, `P${digits === null || digits === undefined ? 2 : this.toNumber(digits)}`),
+    formatdatetime: (value, kind) => this.format(value, ['G', 'D', 'd', 'T', 't'][kind === null || kind === undefined ? 0 : this.toNumber(kind)] || 'G'),
+    cstr: value => this.toText(value),
+    cint: value => Math.round(this.toNumber(value)),
+    clng: value => Math.round(this.toNumber(value)),
+    cdbl: value => this.toNumber(value),
+    cdec: value => this.toNumber(value),
+    csng: value => this.toNumber(value),
+    cbool: value => this.toBoolean(value),
+    cdate: value => this.toDate(value),
+    isnothing: value => value === null || value === undefined,
+    isnumeric: value => value !== null && !isNaN(this.parseNumber(value)),
+    isdate: value => value instanceof Date || (typeof value === 'string' && !isNaN(Date.parse(value))),
+    len: value => this.toText(value).length,
+    left: (value, length) => this.toText(value).slice(0, this.toNumber(length)),
+    right: (value, length) => {
+      const text = this.toText(value);
+      return text.slice(Math.max(0, text.length - this.toNumber(length)));
+    },
+    mid: (value, start, length) => {
+      const from = this.toNumber(start) - 1;
+      return this.toText(value).slice(from, length === undefined ? undefined : from + this.toNumber(length));
+    },
+    trim: value => this.toText(value).trim(),
+    ltrim: value => this.toText(value).trimStart(),
+    rtrim: value => this.toText(value).trimEnd(),
+    ucase: value => this.toText(value).toUpperCase(),
+    lcase: value => this.toText(value).toLowerCase(),
+    split: (value, separator) => this.toText(value).split(separator === undefined ? ' ' : this.toText(separator)),
+    join: (values, separator) => (Array.isArray(values) ? values : [values]).map(value => this.toText(value)).join(separator === undefined ? ' ' : this.toText(separator)),
+    replace: (value, find, replacement) => this.toText(value).split(this.toText(find)).join(this.toText(replacement)),
+    instr: (value, find) => this.toText(value).indexOf(this.toText(find)) + 1,
+    space: count => ' '.repeat(Math.max(0, this.toNumber(count))),
+    round: (value, digits) => {
+      const factor = 10 ** (digits === undefined ? 0 : this.toNumber(digits));
+      return Math.round(this.toNumber(value) * factor) / factor;
+    },
+    abs: value => Math.abs(this.toNumber(value)),
+    int: value => Math.floor(this.toNumber(value)),
+    fix: value => Math.trunc(this.toNumber(value)),
+    now: () => new Date(),
+    today: () => {
+      const today = new Date();
+      return new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    },
+    year: value => this.toDate(value).getFullYear(),
+    month: value => this.toDate(value).getMonth() + 1,
+    day: value => this.toDate(value).getDate(),
+    hour: value => this.toDate(value).getHours(),
+    minute: value => this.toDate(value).getMinutes(),
+    monthname: (value, abbreviate) => {
+      const name = MONTHS[this.toNumber(value) - 1] || '';
+      return abbreviate && this.toBoolean(abbreviate) ? name.slice(0, 3) : name;
+    },
+    weekdayname: value => DAYS[this.toNumber(value) - 1] || ''
+  };
+
+  // "=Fields!Amount.Value * 2" -> the value; anything not starting with "=" is a constant
+  static evaluate(expression: string, context: RDLExpressionContext): RDLValue {
+    const trimmed = expression.trim();
+    if (!trimmed.startsWith('=')) return expression;
+    return this.evaluateNode(this.parse(trimmed.slice(1)), context);
+  }
+
+  static parse(expression: string): RDLExpressionNode {
+    const tokens = this.tokenize(expression);
+    let position = 0;
+
+    const peek = () => tokens[position];
+    const isOperator = (value: string) => {
+      const token = peek();
+      return !!token && (token.kind === 'operator' || token.kind === 'name') && token.value.toLowerCase() === value;
+    };
+    const expect = (value: string) => {
+      if (!isOperator(value)) throw new RDLExpressionError(`Expected "${value}" in ${expression}`);
+      position++;
+    };
+    const name = (): string => {
+      const token = tokens[position++];
+      if (token?.kind !== 'name') throw new RDLExpressionError(`Expected a name in ${expression}`);
+      return token.value;
+    };
+    const argumentList = (): RDLExpressionNode[] => {
+      const args: RDLExpressionNode[] = [];
+      expect('(');
+      if (!isOperator(')')) {
+        do {
+          args.push(binary(0));
+        } while (isOperator(',') && ++position);
+      }
+      expect(')');
+      return args;
+    };
+
+    const primary = (): RDLExpressionNode => {
+      const token = tokens[position];
+      if (!token) throw new RDLExpressionError(`Unexpected end of ${expression}`);
+
+      if (token.kind === 'number' || token.kind === 'string') {
+        position++;
+        return { type: 'literal', value: token.value };
+      }
+      if (isOperator('(')) {
+        position++;
+        const inner = binary(0);
+        expect(')');
+        return inner;
+      }
+      if (token.kind !== 'name') throw new RDLExpressionError(`Unexpected "${token.value}" in ${expression}`);
+
+      position++;
+      const lower = token.value.toLowerCase();
+      if (lower === 'true' || lower === 'false') return { type: 'literal', value: lower === 'true' };
+      if (lower === 'nothing') return { type: 'literal', value: null };
+      if (lower in this.CONSTANTS) return { type: 'literal', value: this.CONSTANTS[lower] };
+
+      if (this.COLLECTIONS.includes(lower) && isOperator('!')) {
+        position++;
+        const memberName = name();
+        // Globals and User members have no property, so a dot after them starts a method call
+        const property = lower !== 'globals' && lower !== 'user' && isOperator('.') && ++position ? name() : undefined;
+        return { type: 'reference', collection: lower, name: memberName, property };
+      }
+      if (isOperator('(')) return { type: 'call', name: lower, args: argumentList() };
+      throw new RDLExpressionError(`Unknown name "${token.value}" in ${expression}`);
+    };
+
+    // Method calls and indexes on a value, e.g. Fields!Total.Value.ToString("C") or Split(text, "~")(0)
+    const postfix = (): RDLExpressionNode => {
+      let node = primary();
+      for (;;) {
+        if (isOperator('.')) {
+          position++;
+          const method = name().toLowerCase();
+          node = { type: 'method', target: node, name: method, args: isOperator('(') ? argumentList() : [] };
+        } else if (isOperator('(')) {
+          const [index] = argumentList();
+          if (!index) throw new RDLExpressionError(`Missing index in ${expression}`);
+          node = { type: 'index', target: node, index };
+        } else {
+          return node;
+        }
+      }
+    };
+
+    const unary = (): RDLExpressionNode => {
+      if (isOperator('-') || isOperator('+') || isOperator('not')) {
+        const operator = String(tokens[position++].value).toLowerCase();
+        return { type: 'unary', operator, operand: operator === 'not' ? binary(2) : unary() };
+      }
+      const base = postfix();
+      if (isOperator('^')) {
+        position++;
+        return { type: 'binary', operator: '^', left: base, right: unary() };
+      }
+      return base;
+    };
+
+    const binary = (level: number): RDLExpressionNode => {
+      if (level >= this.BINARY_LEVELS.length) return unary();
+      let left = binary(level + 1);
+      for (;;) {
+        const operator = this.BINARY_LEVELS[level].find(candidate => isOperator(candidate));
+        if (!operator) return left;
+        position++;
+        left = { type: 'binary', operator, left, right: binary(level + 1) };
+      }
+    };
+
+    const root = binary(0);
+    if (position < tokens.length) throw new RDLExpressionError(`Unexpected "${tokens[position].value}" in ${expression}`);
+    return root;
+  }
+
+  // .NET composite formatting for the standard and custom numeric and date format strings
+  static format(value: RDLValue, format: string): string {
+    if (value === null) return '';
+    if (!format) return this.toText(value);
+
+    const date = value instanceof Date ? value : null;
+    const standardDate = this.DATE_PATTERNS[format];
+    if (date || (typeof value === 'string' && /[dMyHhms]/.test(format) && !/[#0]/.test(format) && !isNaN(Date.parse(value)))) {
+      const pattern = format.length === 1 ? standardDate : format;
+      return pattern ? this.formatDate(date || new Date(value as string), pattern) : this.toText(value);
+    }
+
+    const number = this.parseNumber(value);
+    if (isNaN(number)) return this.toText(value);
+
+    const standard = format.match(/^([CcNnFfPpDdXx])(\d{0,2})$/);
+    if (standard) {
+      const [, letter, digitsText] = standard;
+      const digits = digitsText === '' ? undefined : Number(digitsText);
+      switch (letter.toUpperCase()) {
+        case 'C': {
+          const text = this.formatFixed(Math.abs(number), digits ?? 2, digits ?? 2, true, 1);
+          return number < 0 ? `($${text})` : `$${text}`;
+        }
+        case 'N':
+          return this.signed(number, this.formatFixed(Math.abs(number), digits ?? 2, digits ?? 2, true, 1));
+        case 'F':
+          return this.signed(number, this.formatFixed(Math.abs(number), digits ?? 2, digits ?? 2, false, 1));
+        case 'P':
+          return `${this.signed(number, this.formatFixed(Math.abs(number) * 100, digits ?? 2, digits ?? 2, true, 1))} %`;
+        case 'D':
+          return this.signed(number, String(Math.round(Math.abs(number))).padStart(digits ?? 1, '0'));
+        case 'X': {
+          const hex = Math.round(number).toString(16).padStart(digits ?? 1, '0');
+          return letter === 'X' ? hex.toUpperCase() : hex;
+        }
+      }
+    }
+    return this.formatCustomNumber(number, format);
+  }
+
+  // How a value is shown in a textbox: .NET ToString() under en-US
+  static toText(value: RDLValue | undefined): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return this.formatDate(value, 'M/d/yyyy h:mm:ss tt');
+    if (typeof value === 'boolean') return value ? 'True' : 'False';
+    if (Array.isArray(value)) return 'System.Object[]';
+    return String(value);
+  }
+
+  private static evaluateNode(node: RDLExpressionNode, context: RDLExpressionContext): RDLValue {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+      case 'reference':
+        return this.reference(node, context);
+      case 'index': {
+        const target = this.evaluateNode(node.target, context);
+        const index = this.toNumber(this.evaluateNode(node.index, context));
+        if (!Array.isArray(target)) throw new RDLExpressionError('Only arrays can be indexed');
+        if (index < 0 || index >= target.length) throw new RDLExpressionError(`Index ${index} is outside the array`);
+        return target[index];
+      }
+      case 'method':
+        return this.method(this.evaluateNode(node.target, context), node.name, node.args.map(arg => this.evaluateNode(arg, context)));
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, context);
+        if (node.operator === 'not') return !this.toBoolean(operand);
+        return node.operator === '-' ? -this.toNumber(operand) : this.toNumber(operand);
+      }
+      case 'binary':
+        return this.binary(node, context);
+      case 'call':
+        return this.call(node, context);
+    }
+  }
+
+  private static reference(node: Extract<RDLExpressionNode, { type: 'reference' }>, context: RDLExpressionContext): RDLValue {
+    const property = node.property?.toLowerCase();
+    switch (node.collection) {
+      case 'fields':
+        if (property === 'ismissing') return !context.row || !(node.name in context.row);
+        return context.row?.[node.name] ?? null;
+      case 'parameters':
+        return context.parameters[node.name] ?? null;
+      case 'globals':
+        return this.member(context.globals, node.name, 'Globals');
+      case 'user':
+        return this.member(context.user, node.name, 'User');
+      default:
+        return context.reportItems[node.name] ?? null;
+    }
+  }
+
+  private static member(collection: Record<string, RDLValue>, name: string, label: string): RDLValue {
+    if (!(name in collection)) throw new RDLExpressionError(`${label}!${name} is not supported in the preview`);
+    return collection[name];
+  }
+
+  private static call(node: Extract<RDLExpressionNode, { type: 'call' }>, context: RDLExpressionContext): RDLValue {
+    const aggregate = this.AGGREGATES[node.name];
+    if (aggregate || node.name === 'countrows' || node.name === 'rownumber') {
+      const scopeArg = node.name === 'countrows' || node.name === 'rownumber' ? node.args[0] : node.args[1];
+      const rows = this.scopeRows(scopeArg && this.evaluateNode(scopeArg, context), context);
+      if (node.name === 'countrows') return rows.length;
+      if (node.name === 'rownumber') return context.row ? rows.indexOf(context.row) + 1 : 0;
+      if (!node.args[0]) throw new RDLExpressionError(`${node.name} needs an expression`);
+      return aggregate(rows.map(row => this.evaluateNode(node.args[0], { ...context, row, rows })));
+    }
+
+    // IIf evaluates both branches in SSRS too, so errors in either surface
+    if (node.name === 'iif') {
+      const [condition, whenTrue, whenFalse] = node.args.map(arg => this.evaluateNode(arg, context));
+      return this.toBoolean(condition) ? whenTrue ?? null : whenFalse ?? null;
+    }
+    if (node.name === 'switch') {
+      for (let i = 0; i + 1 < node.args.length; i += 2) {
+        if (this.toBoolean(this.evaluateNode(node.args[i], context))) return this.evaluateNode(node.args[i + 1], context);
+      }
+      return null;
+    }
+    if (node.name === 'choose') {
+      const index = this.toNumber(this.evaluateNode(node.args[0], context));
+      return node.args[index] ? this.evaluateNode(node.args[index], context) : null;
+    }
+
+    const fn = this.FUNCTIONS[node.name];
+    if (!fn) throw new RDLExpressionError(`${node.name} is not supported in the preview`);
+    return fn(...node.args.map(arg => this.evaluateNode(arg, context)));
+  }
+
+  private static scopeRows(scope: RDLValue | undefined, context: RDLExpressionContext): RDLSampleRow[] {
+    if (scope === undefined || scope === null) return context.rows;
+    const rows = context.scopes[this.toText(scope)];
+    if (!rows) throw new RDLExpressionError(`Unknown scope "${this.toText(scope)}"`);
+    return rows;
+  }
+
+  private static method(target: RDLValue, name: string, args: RDLValue[]): RDLValue {
+    switch (name) {
+      case 'value':
+        return target;
+      case 'tostring':
+        return args.length > 0 ? this.format(target, this.toText(args[0])) : this.toText(target);
+      case 'toupper':
+        return this.toText(target).toUpperCase();
+      case 'tolower':
+        return this.toText(target).toLowerCase();
+      case 'trim':
+        return this.toText(target).trim();
+      case 'length':
+        return Array.isArray(target) ? target.length : this.toText(target).length;
+      default:
+        throw new RDLExpressionError(`.${name} is not supported in the preview`);
+    }
+  }
+
+  private static binary(node: Extract<RDLExpressionNode, { type: 'binary' }>, context: RDLExpressionContext): RDLValue {
+    const left = this.evaluateNode(node.left, context);
+    // AndAlso and OrElse short-circuit
+    if (node.operator === 'andalso' && !this.toBoolean(left)) return false;
+    if (node.operator === 'orelse' && this.toBoolean(left)) return true;
+    const right = this.evaluateNode(node.right, context);
+
+    switch (node.operator) {
+      case '&':
+        return this.toText(left) + this.toText(right);
+      case '+':
+        // + joins two strings and adds anything else
+        return typeof left === 'string' && typeof right === 'string' ? left + right : this.toNumber(left) + this.toNumber(right);
+      case '-':
+        return this.toNumber(left) - this.toNumber(right);
+      case '*':
+        return this.toNumber(left) * this.toNumber(right);
+      case '/':
+        return this.toNumber(left) / this.toNumber(right);
+      case '\\':
+        return Math.trunc(this.toNumber(left) / this.toNumber(right));
+      case 'mod':
+        return this.toNumber(left) % this.toNumber(right);
+      case '^':
+        return this.toNumber(left) ** this.toNumber(right);
+      case 'and':
+      case 'andalso':
+        return this.toBoolean(left) && this.toBoolean(right);
+      case 'or':
+      case 'orelse':
+        return this.toBoolean(left) || this.toBoolean(right);
+      case 'xor':
+        return this.toBoolean(left) !== this.toBoolean(right);
+      case 'like':
+        return this.like(this.toText(left), this.toText(right));
+      default:
+        return this.compare(node.operator, left, right);
+    }
+  }
+
+  private static compare(operator: string, left: RDLValue, right: RDLValue): boolean {
+    const numeric = !isNaN(this.parseNumber(left)) && !isNaN(this.parseNumber(right)) &&
+      (typeof left !== 'string' || typeof right !== 'string');
+    const a = numeric ? this.parseNumber(left) : this.toText(left);
+    const b = numeric ? this.parseNumber(right) : this.toText(right);
+    switch (operator) {
+      case '=': return a === b;
+      case '<>': return a !== b;
+      case '<': return a < b;
+      case '>': return a > b;
+      case '<=': return a <= b;
+      default: return a >= b;
+    }
+  }
+
+  // VB Like: * any text, ? one character, # one digit
+  private static like(text: string, pattern: string): boolean {
+    const source = pattern.replace(/[.+^${}()|\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.').replace(/#/g, '\\d');
+    return new RegExp(`^${source}$`).test(text);
+  }
+
+  private static extreme(values: RDLValue[], direction: 1 | -1): RDLValue {
+    let best: RDLValue = null;
+    for (const value of values) {
+      if (value === null) continue;
+      if (best === null || this.compare(direction > 0 ? '>' : '<', value, best)) best = value;
+    }
+    return best;
+  }
+
+  private static tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < expression.length) {
+      const rest = expression.slice(i);
+      const space = rest.match(/^\s+/);
+      if (space) {
+        i += space[0].length;
+        continue;
+      }
+
+      // VB strings double their quotes
+      const text = rest.match(/^"((?:[^"]|"")*)"/);
+      if (text) {
+        tokens.push({ kind: 'string', value: text[1].replace(/""/g, '"') });
+        i += text[0].length;
+        continue;
+      }
+      const number = rest.match(/^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?/);
+      if (number) {
+        tokens.push({ kind: 'number', value: parseFloat(number[0]) });
+        i += number[0].length;
+        continue;
+      }
+      // Names may be bracketed, as in Fields![Unit Price].Value
+      const name = rest.match(/^(?:[A-Za-z_]\w*|\[[^\]]+\])/);
+      if (name) {
+        tokens.push({ kind: 'name', value: name[0].replace(/^\[|\]$/g, '') });
+        i += name[0].length;
+        continue;
+      }
+      const operator = rest.match(/^(?:<>|<=|>=|[-+*/\\^&=<>(),!.])/);
+      if (!operator) throw new RDLExpressionError(`Unexpected "${rest[0]}" in ${expression}`);
+      tokens.push({ kind: 'operator', value: operator[0] });
+      i += operator[0].length;
+    }
+    return tokens;
+  }
+
+  private static toNumber(value: RDLValue | undefined): number {
+    if (value === null || value === undefined) return 0;
+    const number = this.parseNumber(value);
+    if (isNaN(number)) throw new RDLExpressionError(`"${this.toText(value)}" is not a number`);
+    return number;
+  }
+
+  // Numbers as printed in a PDF: "$1,234.50", "(12.00)" and "-5%" all count
+  private static parseNumber(value: RDLValue): number {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? -1 : 0;
+    if (typeof value !== 'string') return NaN;
+    const text = value.trim();
+    const negative = /^\(.*\)$/.test(text);
+    const cleaned = text.replace(/^\((.*)\)$/, '$1').replace(/[$,\s]/g, '');
+    const percent = cleaned.endsWith('%');
+    if (!/^[-+]?(?:\d+(?:\.\d*)?|\.\d+)%?$/.test(cleaned)) return NaN;
+    const number = parseFloat(cleaned) / (percent ? 100 : 1);
+    return negative ? -number : number;
+  }
+
+  private static toBoolean(value: RDLValue | undefined): boolean {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) return value.trim().toLowerCase() === 'true';
+    return this.toNumber(value) !== 0;
+  }
+
+  private static toDate(value: RDLValue | undefined): Date {
+    if (value instanceof Date) return value;
+    const date = new Date(this.toText(value));
+    if (isNaN(date.getTime())) throw new RDLExpressionError(`"${this.toText(value)}" is not a date`);
+    return date;
+  }
+
+  private static signed(number: number, text: string): string {
+    return number < 0 && /[1-9]/.test(text) ? `-${text}` : text;
+  }
+
+  private static formatFixed(number: number, minDecimals: number, maxDecimals: number, grouping: boolean, minIntegers: number): string {
+    const [integer, fraction = ''] = number.toFixed(maxDecimals).split('.');
+    const decimals = fraction.replace(/0+$/, '').padEnd(minDecimals, '0');
+    // "#.##" drops a zero integer part, "0.##" keeps it
+    const digits = integer === '0' && minIntegers === 0 ? '' : integer.padStart(minIntegers, '0');
+    const grouped = grouping ? digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',') : digits;
+    return decimals ? `${grouped}.${decimals}` : grouped;
+  }
+
+  // Custom numeric formats such as "#,##0.00", "0%" or "$#,##0.00;($#,##0.00)"
+  private static formatCustomNumber(number: number, format: string): string {
+    const sections = format.split(';');
+    const section = number < 0 && sections[1] !== undefined ? sections[1] : number === 0 && sections[2] !== undefined ? sections[2] : sections[0];
+    const explicitNegative = number < 0 && sections[1] !== undefined;
+
+    const start = section.search(/[#0]/);
+    if (start < 0) return this.unquote(section);
+    const end = section.length - [...section].reverse().join('').search(/[#0]/);
+    const pattern = section.slice(start, end);
+    const [integerPart, fractionPart = ''] = pattern.split('.');
+    const percent = section.includes('%');
+    const scaled = Math.abs(number) * (percent ? 100 : 1);
+
+    const text = this.formatFixed(
+      scaled,
+      (fractionPart.match(/0/g) || []).length,
+      (fractionPart.match(/[0#]/g) || []).length,
+      integerPart.includes(','),
+      (integerPart.match(/0/g) || []).length
+    );
+    const sign = number < 0 && !explicitNegative && /[1-9]/.test(text) ? '-' : '';
+    return `${sign}${this.unquote(section.slice(0, start))}${text}${this.unquote(section.slice(end))}`;
+  }
+
+  private static unquote(text: string): string {
+    return text.replace(/"([^"]*)"|'([^']*)'|\\(.)/g, (_, double, single, escaped) => double ?? single ?? escaped);
+  }
+
+  private static formatDate(date: Date, pattern: string): string {
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const hours12 = date.getHours() % 12 || 12;
+    const tokens: Record<string, () => string> = {
+      yyyy: () => pad(date.getFullYear(), 4),
+      yy: () => pad(date.getFullYear() % 100),
+      MMMM: () => MONTHS[date.getMonth()],
+      MMM: () => MONTHS[date.getMonth()].slice(0, 3),
+      MM: () => pad(date.getMonth() + 1),
+      M: () => String(date.getMonth() + 1),
+      dddd: () => DAYS[date.getDay()],
+      ddd: () => DAYS[date.getDay()].slice(0, 3),
+      dd: () => pad(date.getDate()),
+      d: () => String(date.getDate()),
+      HH: () => pad(date.getHours()),
+      H: () => String(date.getHours()),
+      hh: () => pad(hours12),
+      h: () => String(hours12),
+      mm: () => pad(date.getMinutes()),
+      m: () => String(date.getMinutes()),
+      ss: () => pad(date.getSeconds()),
+      s: () => String(date.getSeconds()),
+      tt: () => (date.getHours() < 12 ? 'AM' : 'PM')
+    };
+    return pattern.replace(/yyyy|yy|MMMM|MMM|MM|M|dddd|ddd|dd|d|HH|H|hh|h|mm|m|ss|s|tt|"[^"]*"|'[^']*'|\\./g, token =>
+      tokens[token] ? tokens[token]() : this.unquote(token)
+    );
+  }
+}
@@ -0,0 +1,90 @@
+// Fields declared by the datasets of an uploaded base RDL. Header data is bound to
+// these instead of field names invented from the PDF text.
+import { RDLMergeEngine, RDLMergeError } from './RDLMergeEngine';
+
+export interface RDLCatalogField {
+  name: string;
+  dataSet: string;
+  // Column name for query fields; undefined for calculated fields
+  dataField?: string;
+  // rd:TypeName, e.g. System.Int32 or System.DateTime
+  typeName?: string;
+  isCalculated: boolean;
+}
+
+// Value and MIME type expressions for an Image item whose Source is Database
+export interface RDLImageFieldSource {
+  value: string;
+  mimeType: string;
+}
+
+export class RDLFieldCatalog {
+  // Unparseable base RDL yields an empty catalog; the merge reports the error itself
+  static fromRDL(rdlContent: string): RDLCatalogField[] {
+    if (!rdlContent) return [];
+
+    let root: Element;
+    try {
+      root = RDLMergeEngine.parse(rdlContent).root;
+    } catch (error) {
+      if (error instanceof RDLMergeError) return [];
+      throw error;
+    }
+
+    const fields: RDLCatalogField[] = [];
+    const dataSets = RDLMergeEngine.findElement(root, ['DataSets']);
+    if (!dataSets) return fields;
+
+    for (const dataSet of RDLMergeEngine.childElements(dataSets, 'DataSet')) {
+      const dataSetName = dataSet.getAttribute('Name') || '';
+      const fieldList = RDLMergeEngine.findElement(dataSet, ['Fields']);
+      if (!fieldList) continue;
+
+      for (const field of RDLMergeEngine.childElements(fieldList, 'Field')) {
+        const name = field.getAttribute('Name');
+        if (!name) continue;
+
+        const dataField = RDLMergeEngine.findElement(field, ['DataField'])?.textContent?.trim();
+        const typeName = field.getElementsByTagNameNS(RDLMergeEngine.DESIGNER_NAMESPACE, 'TypeName')[0]?.textContent?.trim();
+        fields.push({
+          name,
+          dataSet: dataSetName,
+          dataField: dataField || undefined,
+          typeName: typeName || undefined,
+          isCalculated: !dataField && !!RDLMergeEngine.findElement(field, ['Value'])
+        });
+      }
+    }
+
+    return fields;
+  }
+
+  // Page headers cannot reference fields directly, so the value is scoped to its dataset
+  static expressionFor(field: RDLCatalogField): string {
+    return `=First(Fields!${field.name}.Value, "${field.dataSet}")`;
+  }
+
+  // Fields that can hold image bytes: typed System.Byte[] or named like a logo or picture
+  static imageFields(catalog: RDLCatalogField[]): RDLCatalogField[] {
+    return catalog.filter(field =>
+      !this.isMimeTypeField(field) &&
+      (field.typeName === 'System.Byte[]' || /logo|image|picture|photo/i.test(field.name))
+    );
+  }
+
+  // The MIME type comes from a field of the same dataset such as LogoMimeType; PNG otherwise
+  static imageSourceFor(field: RDLCatalogField, catalog: RDLCatalogField[]): RDLImageFieldSource {
+    const mimeTypeFields = catalog.filter(other => other.dataSet === field.dataSet && this.isMimeTypeField(other));
+    const mimeTypeField = mimeTypeFields.find(other => other.name.toLowerCase().startsWith(field.name.toLowerCase())) ||
+      (mimeTypeFields.length === 1 ? mimeTypeFields[0] : undefined);
+
+    return {
+      value: this.expressionFor(field),
+      mimeType: mimeTypeField ? this.expressionFor(mimeTypeField) : 'image/png'
+    };
+  }
+
+  private static isMimeTypeField(field: RDLCatalogField): boolean {
+    return /mime/i.test(field.name);
+  }
+}
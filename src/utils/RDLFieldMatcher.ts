@@ -0,0 +1,236 @@
+// Links label-data pairs from the PDF header to fields of the base RDL catalog.
+// A candidate is scored on how well its name matches the label text (or the
+// analyzer's suggested field name) and on whether the sample value fits rd:TypeName.
+// Candidates whose names match equally well are taken from the header's dataset first.
+import { HeaderComponent, SmartHeaderAnalysis } from './EnhancedPDFParser';
+import { RDLCatalogField, RDLFieldCatalog } from './RDLFieldCatalog';
+
+export interface RDLFieldBinding {
+  field: RDLCatalogField;
+  expression: string;
+  // 0-1; name similarity weighted with type compatibility
+  score: number;
+}
+
+type ValueKind = 'date' | 'number' | 'boolean' | 'text';
+
+interface Candidate {
+  field: RDLCatalogField;
+  nameScore: number;
+  score: number;
+}
+
+interface RankedCandidate extends Candidate {
+  // Best score among the candidates with the same name score
+  rank: number;
+  inDataSet: boolean;
+}
+
+export class RDLFieldMatcher {
+  private static readonly NAME_WEIGHT = 0.7;
+  private static readonly TYPE_WEIGHT = 0.3;
+  // Below these a candidate is not bound and the field keeps its fallback expression
+  private static readonly MIN_NAME_SCORE = 0.5;
+  private static readonly MIN_SCORE = 0.55;
+
+  // Abbreviations used in field names and printed labels, folded to one spelling
+  private static readonly SYNONYMS: Record<string, string> = {
+    no: 'num', nbr: 'num', number: 'num', '#': 'num',
+    dt: 'date', dte: 'date',
+    quantity: 'qty',
+    customer: 'cust',
+    invoice: 'inv', invc: 'inv',
+    address: 'addr',
+    amount: 'amt',
+    telephone: 'phone', tel: 'phone',
+    reference: 'ref'
+  };
+
+  // Tokens that say where a field comes from rather than what it holds
+  private static readonly NOISE_TOKENS = new Set(['calc', 'doc', 'the', 'of']);
+
+  // Best catalog field for a label and its sample value; dataSet defaults to the base RDL's first
+  static match(
+    label: string,
+    value: string,
+    catalog: RDLCatalogField[],
+    dataSet = catalog[0]?.dataSet
+  ): RDLFieldBinding | null {
+    const best = this.rank(this.candidates(label, value, catalog), dataSet)[0];
+    return best ? this.toBinding(best) : null;
+  }
+
+  // One binding per data component; each catalog field is used at most once, best scores first
+  static bindHeader(
+    headerAnalysis: SmartHeaderAnalysis,
+    catalog: RDLCatalogField[],
+    dataSet = catalog[0]?.dataSet
+  ): Map<HeaderComponent, RDLFieldBinding> {
+    const scored: Array<{ data: HeaderComponent; candidate: RankedCandidate }> = [];
+
+    for (const data of headerAnalysis.dynamicData) {
+      const pair = this.pairFor(headerAnalysis, data);
+      const names = [pair?.label.text, data.fieldMapping].filter((name): name is string => !!name);
+
+      const candidates = new Map<RDLCatalogField, Candidate>();
+      for (const name of names) {
+        for (const candidate of this.candidates(name, data.text, catalog)) {
+          const existing = candidates.get(candidate.field);
+          if (!existing || existing.score < candidate.score) candidates.set(candidate.field, candidate);
+        }
+      }
+      this.rank([...candidates.values()], dataSet).forEach(candidate => scored.push({ data, candidate }));
+    }
+
+    scored.sort((a, b) => this.compareRanked(a.candidate, b.candidate));
+
+    const bindings = new Map<HeaderComponent, RDLFieldBinding>();
+    const usedFields = new Set<RDLCatalogField>();
+    for (const { data, candidate } of scored) {
+      if (bindings.has(data) || usedFields.has(candidate.field)) continue;
+      bindings.set(data, this.toBinding(candidate));
+      usedFields.add(candidate.field);
+    }
+    return bindings;
+  }
+
+  // Fields named alike (InvoiceNum in several datasets) rank together, so neither the type
+  // fit assumed for an untyped field nor another dataset's type beats the header's dataset
+  private static rank(candidates: Candidate[], dataSet: string | undefined): RankedCandidate[] {
+    return candidates
+      .map(candidate => ({
+        ...candidate,
+        rank: Math.max(...candidates.filter(other => other.nameScore === candidate.nameScore).map(other => other.score)),
+        inDataSet: candidate.field.dataSet === dataSet
+      }))
+      .sort((a, b) => this.compareRanked(a, b));
+  }
+
+  private static compareRanked(a: RankedCandidate, b: RankedCandidate): number {
+    return b.rank - a.rank || Number(b.inDataSet) - Number(a.inDataSet) || b.score - a.score;
+  }
+
+  private static toBinding({ field, score }: Candidate): RDLFieldBinding {
+    return { field, expression: RDLFieldCatalog.expressionFor(field), score };
+  }
+
+  private static candidates(label: string, value: string, catalog: RDLCatalogField[]): Candidate[] {
+    const labelTokens = this.tokenize(label);
+    if (labelTokens.length === 0) return [];
+    const valueKind = this.valueKind(value);
+
+    return catalog
+      .filter(field => this.isDataField(field))
+      .map(field => {
+        const nameScore = this.nameSimilarity(labelTokens, this.tokenize(field.name));
+        const score = nameScore * this.NAME_WEIGHT + this.typeCompatibility(valueKind, field.typeName) * this.TYPE_WEIGHT;
+        return { field, nameScore, score };
+      })
+      .filter(candidate => candidate.nameScore >= this.MIN_NAME_SCORE && candidate.score >= this.MIN_SCORE);
+  }
+
+  // Pairs may come through the analysis worker, so fall back to comparing text and position
+  private static pairFor(headerAnalysis: SmartHeaderAnalysis, data: HeaderComponent) {
+    return headerAnalysis.labelDataPairs.find(pair => pair.data === data) ||
+      headerAnalysis.labelDataPairs.find(pair =>
+        pair.data.text === data.text && pair.data.x === data.x && pair.data.y === data.y
+      );
+  }
+
+  // Label_* and RptLiterals* fields carry translated label text, not report data
+  private static isDataField(field: RDLCatalogField): boolean {
+    return !/^(Label_|RptLiterals)/.test(field.name);
+  }
+
+  // "P.O. Number:" -> [po, num]; "Calc_DteOrdrd" -> [date, ordrd]; "InvcDtl_InvoiceNum" -> [inv, dtl, inv, num]
+  private static tokenize(text: string): string[] {
+    return text
+      .replace(/\./g, '')
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z\d#]+/)
+      .filter(Boolean)
+      .map(token => this.SYNONYMS[token] || token)
+      .filter(token => !this.NOISE_TOKENS.has(token));
+  }
+
+  // Best of token overlap and character bigram overlap, which catches "Salesperson" vs "SalesPerson"
+  private static nameSimilarity(labelTokens: string[], fieldTokens: string[]): number {
+    if (fieldTokens.length === 0) return 0;
+
+    const remaining = [...fieldTokens];
+    let shared = 0;
+    for (const token of labelTokens) {
+      const index = remaining.findIndex(candidate => this.tokensMatch(token, candidate));
+      if (index >= 0) {
+        shared++;
+        remaining.splice(index, 1);
+      }
+    }
+    const tokenScore = (2 * shared) / (labelTokens.length + fieldTokens.length);
+
+    return Math.max(tokenScore, this.bigramSimilarity(labelTokens.join(''), fieldTokens.join('')));
+  }
+
+  private static tokensMatch(a: string, b: string): boolean {
+    if (a === b) return true;
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    return shorter.length >= 3 && longer.startsWith(shorter);
+  }
+
+  private static bigramSimilarity(a: string, b: string): number {
+    const bigrams = (text: string) => Array.from({ length: Math.max(0, text.length - 1) }, (_, i) => text.slice(i, i + 2));
+    const aBigrams = bigrams(a);
+    const bBigrams = bigrams(b);
+    if (aBigrams.length === 0 || bBigrams.length === 0) return a === b ? 1 : 0;
+
+    const total = aBigrams.length + bBigrams.length;
+    let shared = 0;
+    for (const bigram of aBigrams) {
+      const index = bBigrams.indexOf(bigram);
+      if (index >= 0) {
+        shared++;
+        bBigrams.splice(index, 1);
+      }
+    }
+    return (2 * shared) / total;
+  }
+
+  private static valueKind(value: string): ValueKind {
+    const text = value.trim();
+    if (/^\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}$/.test(text) ||
+        /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+\d{1,2},?\s+\d{2,4}\b/i.test(text) ||
+        /^\d{1,2}[\s-](jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s-]\d{2,4}$/i.test(text)) {
+      return 'date';
+    }
+    if (/^[-+(]?[$€£¥]?\s?\d[\d,.\s]*\)?%?$/.test(text)) return 'number';
+    if (/^(yes|no|true|false)$/i.test(text)) return 'boolean';
+    return 'text';
+  }
+
+  private static typeCompatibility(kind: ValueKind, typeName?: string): number {
+    switch (typeName) {
+      case undefined:
+        // Untyped (rd:UserDefined) fields neither fit nor clash
+        return 0.5;
+      case 'System.DateTime':
+      case 'System.DateTimeOffset':
+        return kind === 'date' ? 1 : 0;
+      case 'System.Int16':
+      case 'System.Int32':
+      case 'System.Int64':
+      case 'System.Decimal':
+      case 'System.Double':
+      case 'System.Single':
+        return kind === 'number' ? 1 : 0;
+      case 'System.Boolean':
+        return kind === 'boolean' ? 1 : 0;
+      case 'System.String':
+        // Codes and formatted values are often stored as text
+        return kind === 'text' ? 1 : 0.6;
+      default:
+        return 0.5;
+    }
+  }
+}
@@ -1,3 +1,21 @@
+import { PDFGraphicPrimitive, PDFLinePrimitive } from './PDFGraphicsExtractor';
+import { PDFImagePrimitive } from './PDFImageExtractor';
+import { GraphicContainer, LayoutBounds, RDLGraphicsLayout } from './RDLGraphicsLayout';
+import { RDLHeaderExpressions } from './RDLHeaderExpressions';
+import { PageFooterOptions, RDLHeaderGenerator } from './RDLHeaderGenerator';
+import { PDFTextStyle } from './PDFTextStyleExtractor';
+import { RDLPageLayout, RDLPageSetup } from './RDLPageLayout';
+
+// Font and paragraph style of a generated textbox, as RDL Style values
+interface TextboxTextStyle {
+  fontFamily?: string;
+  fontSize?: string;
+  fontWeight?: string;
+  fontStyle?: string;
+  color?: string;
+  textAlign?: string;
+}
+
 export interface RDLField {
   name: string;
   dataField: string;
@@ -24,6 +42,9 @@ export interface PDFAnalysisResult {
     rows: Array<string[]>;
     position: { x: number; y: number; width: number; height: number };
     merged_cells?: Array<{ row: number; col: number; rowspan: number; colspan: number }>;
+    // Text style of each header cell and of each column's data, as printed in the PDF
+    headerStyles?: PDFTextStyle[];
+    columnStyles?: PDFTextStyle[];
   }>;
   textElements: Array<{
     content: string;
@@ -31,9 +52,22 @@ export interface PDFAnalysisResult {
     classification: 'header' | 'footer' | 'label' | 'data';
     styles?: any;
   }>;
+  graphics?: PDFGraphicPrimitive[];
+  // First-page images become embedded Image items at their PDF position
+  images?: PDFImagePrimitive[];
+  // Printing of the PageFooter built from 'footer' text elements; both default to true
+  footer?: PageFooterOptions;
+  // PDF page size in points; Letter when absent
+  pageWidth?: number;
+  pageHeight?: number;
 }
 
 export class RDLGenerator {
+  // Running number for generated Line/Rectangle names, reset for each report
+  private static graphicCounter = 0;
+  // A generated Tablix is a 0.3in header row over a 0.25in detail row
+  private static readonly TABLIX_HEIGHT = 0.55;
+
   static generateRDLTemplate(
     dataSources: RDLDataSource[] = [],
     dataSets: RDLDataSet[] = [],
@@ -58,7 +92,45 @@ export class RDLGenerator {
     const sources = dataSources.length > 0 ? dataSources : [defaultDataSource];
     const sets = dataSets.length > 0 ? dataSets : [defaultDataSet];
 
-    return this.buildRDLXML(sources, sets, pdfAnalysisResult);
+    // Positions are moved from the page origin to the margin origin the report lays out from
+    const pageSetup = RDLPageLayout.fromPDF(
+      pdfAnalysisResult?.pageWidth,
+      pdfAnalysisResult?.pageHeight,
+      this.contentBounds(pdfAnalysisResult)
+    );
+    const analysisInMargins = pdfAnalysisResult &&
+      this.translate(pdfAnalysisResult, -pageSetup.margins.left, -pageSetup.margins.top);
+
+    return this.buildRDLXML(sources, sets, pageSetup, analysisInMargins);
+  }
+
+  private static contentBounds(analysisResult?: PDFAnalysisResult): LayoutBounds[] {
+    if (!analysisResult) return [];
+    return [
+      ...(analysisResult.textElements || []).map(el => el.position),
+      ...(analysisResult.tables || []).map(table => table.position),
+      ...(analysisResult.graphics || [])
+        .filter(g => g.pageNumber === 1)
+        .map(g => g.kind === 'line' ? RDLGraphicsLayout.lineBounds(g) : g),
+      ...this.firstPageImages(analysisResult)
+    ];
+  }
+
+  private static translate(analysisResult: PDFAnalysisResult, dx: number, dy: number): PDFAnalysisResult {
+    const move = <T extends { x: number; y: number }>(position: T): T => ({ ...position, x: position.x + dx, y: position.y + dy });
+    return {
+      ...analysisResult,
+      tables: (analysisResult.tables || []).map(table => ({ ...table, position: move(table.position) })),
+      textElements: (analysisResult.textElements || []).map(el => ({ ...el, position: move(el.position) })),
+      graphics: analysisResult.graphics?.map(g => g.kind === 'line'
+        ? { ...g, x1: g.x1 + dx, y1: g.y1 + dy, x2: g.x2 + dx, y2: g.y2 + dy }
+        : move(g)),
+      images: analysisResult.images?.map(move)
+    };
+  }
+
+  private static firstPageImages(analysisResult?: PDFAnalysisResult): PDFImagePrimitive[] {
+    return (analysisResult?.images || []).filter(image => image.pageNumber === 1);
   }
 
   private static generateFieldsFromAnalysis(analysisResult?: PDFAnalysisResult): RDLField[] {
@@ -126,6 +198,7 @@ export class RDLGenerator {
   private static buildRDLXML(
     dataSources: RDLDataSource[],
     dataSets: RDLDataSet[],
+    pageSetup: RDLPageSetup,
     analysisResult?: PDFAnalysisResult
   ): string {
     const dataSourcesXML = dataSources.map(ds => `
@@ -157,7 +230,20 @@ export class RDLGenerator {
       </Fields>
     </DataSet>`).join('');
 
-    const reportItemsXML = this.generateReportItemsFromPDF(analysisResult);
+    this.graphicCounter = 0;
+    const bodyWidth = pageSetup.bodyWidth / 72;
+    const footer = this.generatePageFooterXML(analysisResult, bodyWidth);
+    const headerHeight = 0.5;
+
+    // Body positions start below the page header; the body is as tall as its content and
+    // SSRS breaks it across pages where it does not fit
+    const body = this.generateReportItemsFromPDF(
+      analysisResult && this.translate(analysisResult, 0, -headerHeight * 72),
+      bodyWidth
+    );
+    const bodyHeight = Math.ceil(body.height * 100) / 100;
+    const { margins } = pageSetup;
+    const embeddedImages = this.generateEmbeddedImagesXML(analysisResult);
 
     return `<?xml version="1.0" encoding="utf-8"?>
 <Report xmlns="http://schemas.microsoft.com/sqlserver/reporting/2016/01/reportdefinition" xmlns:rd="http://schemas.microsoft.com/SQLServer/reporting/reportdesigner">
@@ -183,43 +269,96 @@ export class RDLGenerator {
     <ReportSection>
       <Body>
         <ReportItems>
-          ${reportItemsXML}
+          ${body.xml}
         </ReportItems>
-        <Height>11in</Height>
+        <Height>${bodyHeight.toFixed(2)}in</Height>
         <Style />
       </Body>
-      <Width>8.5in</Width>
+      <Width>${RDLPageLayout.toInches(pageSetup.bodyWidth)}</Width>
       <Page>
         <PageHeader>
-          <Height>0.5in</Height>
+          <Height>${headerHeight}in</Height>
           <PrintOnFirstPage>true</PrintOnFirstPage>
           <PrintOnLastPage>true</PrintOnLastPage>
           <ReportItems>
             ${this.generateCorrectTextbox('PageHeaderText', '"Page " &amp; Globals!PageNumber &amp; " of " &amp; Globals!TotalPages', {
               top: '0.1in',
-              left: '5in',
-              width: '2in',
+              left: `${Math.max(0, Math.floor((bodyWidth - 2) * 100) / 100).toFixed(2)}in`,
+              width: `${Math.min(2, bodyWidth).toFixed(2)}in`,
               height: '0.25in',
               textAlign: 'Right',
               fontSize: '10pt'
             })}
           </ReportItems>
-        </PageHeader>
-        <PageHeight>11in</PageHeight>
-        <PageWidth>8.5in</PageWidth>
-        <LeftMargin>1in</LeftMargin>
-        <RightMargin>1in</RightMargin>
-        <TopMargin>1in</TopMargin>
-        <BottomMargin>1in</BottomMargin>
+        </PageHeader>${footer.xml}
+        <PageHeight>${RDLPageLayout.toInches(pageSetup.pageHeight)}</PageHeight>
+        <PageWidth>${RDLPageLayout.toInches(pageSetup.pageWidth)}</PageWidth>
+        <LeftMargin>${RDLPageLayout.toInches(margins.left)}</LeftMargin>
+        <RightMargin>${RDLPageLayout.toInches(margins.right)}</RightMargin>
+        <TopMargin>${RDLPageLayout.toInches(margins.top)}</TopMargin>
+        <BottomMargin>${RDLPageLayout.toInches(margins.bottom)}</BottomMargin>
         <Style />
       </Page>
     </ReportSection>
-  </ReportSections>
+  </ReportSections>${embeddedImages}
   <rd:ReportUnitType>Inch</rd:ReportUnitType>
   <rd:ReportID>${this.generateGUID()}</rd:ReportID>
 </Report>`;
   }
 
+  // One EmbeddedImage per distinct image data, named after the first image that uses it
+  private static generateEmbeddedImagesXML(analysisResult?: PDFAnalysisResult): string {
+    const images = this.firstPageImages(analysisResult)
+      .filter((image, index, all) => all.findIndex(other => other.data === image.data) === index);
+    if (images.length === 0) return '';
+
+    return `
+  <EmbeddedImages>${images.map(image => `
+    <EmbeddedImage Name="${image.name}">
+      <MIMEType>${image.mimeType}</MIMEType>
+      <ImageData>${image.data}</ImageData>
+    </EmbeddedImage>`).join('')}
+  </EmbeddedImages>`;
+  }
+
+  // Footer text keeps its layout relative to the topmost footer element; page numbers become expressions
+  private static generatePageFooterXML(analysisResult: PDFAnalysisResult | undefined, bodyWidth: number): { xml: string; height: number } {
+    const footerTexts = analysisResult?.textElements?.filter(el => el.classification === 'footer' && el.content?.trim()) || [];
+    if (footerTexts.length === 0) return { xml: '', height: 0 };
+
+    const footerTop = Math.min(...footerTexts.map(el => el.position.y));
+    const textboxes = footerTexts.map((el, index) => {
+      const expression = RDLHeaderExpressions.pageNumberExpression(el.content);
+      const textStyle = this.elementTextStyle(el);
+      // Kept inside the body width, like body text
+      const left = Math.min(Math.max(0, el.position.x / 72 + this.alignmentShift(el.position.width / 72, textStyle.textAlign)), Math.max(0, bodyWidth - 0.1));
+      const width = Math.min(Math.max(1, el.position.width / 72), bodyWidth - left);
+      return {
+        xml: this.generateCorrectTextbox(`FooterText_${index + 1}`, this.escapeXMLValue(expression || el.content), {
+          top: `${((el.position.y - footerTop) / 72).toFixed(2)}in`,
+          left: `${(Math.floor(left * 100) / 100).toFixed(2)}in`,
+          width: `${(Math.floor(width * 100) / 100).toFixed(2)}in`,
+          height: `${Math.max(0.25, el.position.height / 72).toFixed(2)}in`,
+          ...textStyle
+        }),
+        bottom: (el.position.y - footerTop) / 72 + Math.max(0.25, el.position.height / 72)
+      };
+    });
+    const { printOnFirstPage = true, printOnLastPage = true } = analysisResult.footer || {};
+    const height = Math.ceil(Math.max(...textboxes.map(textbox => textbox.bottom)) * 100) / 100;
+
+    const xml = `
+        <PageFooter>
+          <Height>${height.toFixed(2)}in</Height>
+          <PrintOnFirstPage>${printOnFirstPage}</PrintOnFirstPage>
+          <PrintOnLastPage>${printOnLastPage}</PrintOnLastPage>
+          <ReportItems>
+            ${textboxes.map(textbox => textbox.xml).join('')}
+          </ReportItems>
+        </PageFooter>`;
+    return { xml, height };
+  }
+
   // Corrected method to generate SSRS 2016+ compliant textboxes with absolute units
   private static generateCorrectTextbox(
     name: string,
@@ -230,8 +369,11 @@ export class RDLGenerator {
       width: string;
       height: string;
       textAlign?: string;
+      fontFamily?: string;
       fontSize?: string;
       fontWeight?: string;
+      fontStyle?: string;
+      color?: string;
       backgroundColor?: string;
       format?: string;
       paddingLeft?: string;
@@ -245,8 +387,11 @@ export class RDLGenerator {
     const {
       top, left, width, height,
       textAlign = 'Left',
+      fontFamily,
       fontSize = '10pt',
       fontWeight = 'Normal',
+      fontStyle,
+      color,
       backgroundColor,
       format,
       paddingLeft = '2pt',
@@ -271,8 +416,11 @@ export class RDLGenerator {
               <TextRun>
                 <Value>${value}</Value>
                 <Style>
+                  ${fontFamily ? `<FontFamily>${this.escapeXMLValue(fontFamily)}</FontFamily>` : ''}
                   <FontSize>${fontSize}</FontSize>
                   <FontWeight>${fontWeight}</FontWeight>
+                  ${fontStyle ? `<FontStyle>${fontStyle}</FontStyle>` : ''}
+                  ${color ? `<Color>${color}</Color>` : ''}
                   ${format ? `<Format>${format}</Format>` : ''}
                 </Style>
               </TextRun>
@@ -314,62 +462,189 @@ export class RDLGenerator {
     return value;
   }
 
-  private static generateReportItemsFromPDF(analysisResult?: PDFAnalysisResult): string {
+  // Report items with positions relative to the body, and the height they take up (inches)
+  private static generateReportItemsFromPDF(
+    analysisResult: PDFAnalysisResult | undefined,
+    bodyWidth: number
+  ): { xml: string; height: number } {
+    const defaultTable = { xml: this.generateDefaultTable(), height: 2 + this.TABLIX_HEIGHT };
     if (!analysisResult) {
-      return this.generateDefaultTable();
+      return defaultTable;
     }
 
     let reportItems = '';
-    let currentTop = 0.5; // Start after some margin
+    let currentTop = 0; // The page margins and header already hold the space above the content
+    let bottom = 0;
 
     // First, add header text elements
     const headerTexts = analysisResult.textElements?.filter(el => 
       el.classification === 'header'
     ) || [];
 
-    headerTexts.forEach((textEl, index) => {
-      const topInches = Math.max(currentTop, textEl.position.y / 72);
-      reportItems += this.generateTextboxFromElement(textEl, index, topInches);
-      currentTop = topInches + (textEl.position.height / 72) + 0.1;
-    });
-
     // Then add body labels (non-header labels)
     const bodyLabels = analysisResult.textElements?.filter(el => 
       el.classification === 'label'
     ) || [];
 
-    bodyLabels.forEach((textEl, index) => {
-      const topInches = Math.max(currentTop, textEl.position.y / 72);
-      reportItems += this.generateTextboxFromElement(textEl, index + headerTexts.length, topInches);
-      currentTop = topInches + (textEl.position.height / 72) + 0.1;
+    // Drawn boxes become Rectangles holding the text inside them; rules become Lines.
+    // Graphics inside a table are left to the Tablix borders.
+    const textElements = [...headerTexts, ...bodyLabels];
+    const graphicsLayout = RDLGraphicsLayout.buildLayout(
+      (analysisResult.graphics || []).filter(g => g.pageNumber === 1),
+      textElements,
+      el => el.position,
+      (analysisResult.tables || []).map(table => table.position)
+    );
+    const nameIndex = (el: PDFAnalysisResult['textElements'][number]) => textElements.indexOf(el);
+
+    reportItems += this.generateGraphicsXML(graphicsLayout.containers, graphicsLayout.lines, { x: 0, y: 0 }, nameIndex);
+    [
+      ...graphicsLayout.containers.map(container => container.box),
+      ...graphicsLayout.lines.map(line => RDLGraphicsLayout.lineBounds(line))
+    ].forEach(bounds => { bottom = Math.max(bottom, (bounds.y + bounds.height) / 72); });
+
+    // Images keep their PDF position and are kept inside the body width
+    const images = this.firstPageImages(analysisResult);
+    images.forEach((image, index) => {
+      reportItems += this.generateImageXML(image, `Image${index + 1}`, this.embeddedImageName(images, image), bodyWidth);
+      bottom = Math.max(bottom, (image.y + image.height) / 72);
+    });
+
+    // Text is kept inside the body width so the body never grows past the page
+    const bodyContainer = { origin: { x: 0, y: 0 }, containerWidth: bodyWidth };
+    [headerTexts, bodyLabels].forEach(group => {
+      group
+        .filter(textEl => graphicsLayout.items.includes(textEl))
+        .forEach(textEl => {
+          const height = Math.max(0.25, textEl.position.height / 72);
+          const topInches = Math.max(0, currentTop, textEl.position.y / 72);
+          reportItems += this.generateTextboxFromElement(textEl, nameIndex(textEl), topInches, bodyContainer);
+          currentTop = topInches + (textEl.position.height / 72) + 0.1;
+          bottom = Math.max(bottom, topInches + height);
+        });
     });
 
-    // Generate tables for body content
+    // Generate tables for body content at their PDF position
     if (analysisResult.tables && analysisResult.tables.length > 0) {
       analysisResult.tables.forEach((table, index) => {
-        const topInches = Math.max(currentTop, table.position.y / 72);
-        reportItems += this.generateAdvancedTableXML(table, index, topInches);
-        currentTop = topInches + (table.position.height / 72) + 0.5;
+        const topInches = Math.max(0, table.position.y / 72);
+        reportItems += this.generateAdvancedTableXML(table, index, topInches, bodyWidth);
+        bottom = Math.max(bottom, topInches + this.TABLIX_HEIGHT);
       });
     } else {
-      // If no tables detected, create a default data table
-      reportItems += this.generateDefaultDataTable(currentTop);
+      // If no tables detected, create a default data table below everything placed so far
+      const tableTop = Math.ceil(Math.max(currentTop, bottom) * 100) / 100;
+      reportItems += this.generateDefaultDataTable(tableTop, bodyWidth);
+      bottom = tableTop + this.TABLIX_HEIGHT;
     }
 
-    return reportItems || this.generateDefaultTable();
+    return reportItems ? { xml: reportItems, height: bottom } : defaultTable;
+  }
+
+  // Lines and Rectangles at their PDF positions, relative to the containing item's origin (points)
+  private static generateGraphicsXML(
+    containers: GraphicContainer<PDFAnalysisResult['textElements'][number]>[],
+    lines: PDFLinePrimitive[],
+    origin: { x: number; y: number },
+    nameIndex: (el: PDFAnalysisResult['textElements'][number]) => number
+  ): string {
+    const linesXML = lines.map(line => {
+      const bounds = RDLGraphicsLayout.lineBounds(line);
+      return `
+      <Line Name="Line${++this.graphicCounter}">
+        <Top>${this.toInches(bounds.y - origin.y)}</Top>
+        <Left>${this.toInches(bounds.x - origin.x)}</Left>
+        <Height>${this.toInches(bounds.height)}</Height>
+        <Width>${this.toInches(bounds.width)}</Width>
+        <Style>
+          <Border>
+            <Color>${line.strokeColor}</Color>
+            <Style>Solid</Style>
+            <Width>${this.toPoints(line.strokeWidth)}</Width>
+          </Border>
+        </Style>
+      </Line>`;
+    }).join('');
+
+    const rectanglesXML = containers.map(container => {
+      const { box } = container;
+      const childOrigin = { x: box.x, y: box.y };
+      const childItems = this.generateGraphicsXML(container.containers, container.lines, childOrigin, nameIndex) +
+        container.items.map(textEl => this.generateTextboxFromElement(
+          textEl,
+          nameIndex(textEl),
+          (textEl.position.y - box.y) / 72,
+          { origin: childOrigin, containerWidth: box.width / 72 }
+        )).join('');
+
+      return `
+      <Rectangle Name="Rectangle${++this.graphicCounter}">
+        ${childItems ? `<ReportItems>${childItems}
+        </ReportItems>` : ''}
+        <KeepTogether>true</KeepTogether>
+        <Top>${this.toInches(box.y - origin.y)}</Top>
+        <Left>${this.toInches(box.x - origin.x)}</Left>
+        <Height>${this.toInches(box.height)}</Height>
+        <Width>${this.toInches(box.width)}</Width>
+        <Style>
+          <Border>
+            ${box.strokeColor ? `<Color>${box.strokeColor}</Color>
+            <Style>Solid</Style>
+            <Width>${this.toPoints(box.strokeWidth || 1)}</Width>` : '<Style>None</Style>'}
+          </Border>
+          ${box.fillColor ? `<BackgroundColor>${box.fillColor}</BackgroundColor>` : ''}
+        </Style>
+      </Rectangle>`;
+    }).join('');
+
+    return linesXML + rectanglesXML;
+  }
+
+  private static embeddedImageName(images: PDFImagePrimitive[], image: PDFImagePrimitive): string {
+    return images.find(other => other.data === image.data).name;
+  }
+
+  private static generateImageXML(image: PDFImagePrimitive, name: string, embeddedName: string, bodyWidth: number): string {
+    const left = Math.min(Math.max(0, image.x / 72), Math.max(0, bodyWidth - 0.1));
+    const width = Math.min(image.width / 72, bodyWidth - left);
+    return `
+      <Image Name="${name}">
+        <Source>Embedded</Source>
+        <Value>${embeddedName}</Value>
+        <Sizing>FitProportional</Sizing>
+        <Top>${this.toInches(image.y)}</Top>
+        <Left>${(Math.floor(left * 100) / 100).toFixed(2)}in</Left>
+        <Height>${this.toInches(image.height)}</Height>
+        <Width>${(Math.floor(width * 100) / 100).toFixed(2)}in</Width>
+        <Style>
+          <Border>
+            <Style>None</Style>
+          </Border>
+        </Style>
+      </Image>`;
+  }
+
+  private static toInches(points: number): string {
+    return `${(Math.max(0, points) / 72).toFixed(5)}in`;
+  }
+
+  private static toPoints(width: number): string {
+    // SSRS accepts border widths between 0.25pt and 20pt
+    return `${Math.min(20, Math.max(0.25, width)).toFixed(2)}pt`;
   }
 
   private static generateAdvancedTableXML(
     tableData: any, 
     index: number, 
-    topInches: number
+    topInches: number,
+    availableWidth: number
   ): string {
     const headers = tableData.headers || [];
     const rows = tableData.rows || [];
     const mergedCells = tableData.merged_cells || [];
     
     // Calculate column widths based on content
-    const columnWidths = this.calculateColumnWidths(headers, rows);
+    const columnWidths = this.calculateColumnWidths(headers, rows, availableWidth);
     const totalWidth = columnWidths.reduce((sum, w) => sum + w, 0);
 
     // Generate TablixColumns
@@ -377,17 +652,21 @@ export class RDLGenerator {
       `<TablixColumn><Width>${width.toFixed(2)}in</Width></TablixColumn>`
     ).join('');
 
+    // Cell names start with the table's so several tables keep report item names unique
+    const tableName = `MainTable${index}`;
+
     // Generate header row
-    const headerRow = this.generateTableHeaderRow(headers, mergedCells, columnWidths);
+    const headerRow = this.generateTableHeaderRow(tableName, headers, RDLHeaderGenerator.columnSpans(mergedCells, [0], headers.length), columnWidths, tableData.headerStyles || []);
     
-    // Generate detail row
-    const detailRow = this.generateTableDetailRow(headers, mergedCells, columnWidths);
+    // Generate detail row from the spans every data row shares
+    const dataRows = rows.map((_: unknown, rowIndex: number) => rowIndex + 1);
+    const detailRow = this.generateTableDetailRow(tableName, headers, RDLHeaderGenerator.columnSpans(mergedCells, dataRows, headers.length), columnWidths, tableData.columnStyles || []);
 
     // Generate column hierarchy (static columns)
     const columnMembers = headers.map(() => '<TablixMember />').join('');
 
     return `
-      <Tablix Name="MainTable${index}">
+      <Tablix Name="${tableName}">
         <TablixBody>
           <TablixColumns>
             ${tablixColumns}
@@ -417,7 +696,7 @@ export class RDLGenerator {
         <Top>${topInches.toFixed(2)}in</Top>
         <Left>0in</Left>
         <Width>${totalWidth.toFixed(2)}in</Width>
-        <Height>1in</Height>
+        <Height>${this.TABLIX_HEIGHT}in</Height>
         <ZIndex>${index}</ZIndex>
         <Style>
           <Border>
@@ -428,29 +707,32 @@ export class RDLGenerator {
       </Tablix>`;
   }
 
-  private static generateTableHeaderRow(headers: string[], mergedCells: any[], columnWidths: number[]): string {
+  private static generateTableHeaderRow(tableName: string, headers: string[], spans: number[], columnWidths: number[], headerStyles: PDFTextStyle[]): string {
     const headerCells = headers.map((header, colIndex) => {
-      const mergedCell = mergedCells.find(mc => mc.row === 0 && mc.col === colIndex);
-      const colspan = mergedCell?.colspan || 1;
-      const rowspan = mergedCell?.rowspan || 1;
-      const cellWidth = columnWidths[colIndex] || 1.5;
+      // A cell covered by a ColSpan stays in the row as an empty TablixCell
+      if (spans[colIndex] === 0) return `
+        <TablixCell />`;
+      
+      const colspan = spans[colIndex];
+      const cellWidth = columnWidths
+        .slice(colIndex, colIndex + colspan)
+        .reduce((sum, width) => sum + (width || 1.5), 0) || 1.5;
       const textWidth = cellWidth - 0.02; // Padding adjustment
       
       return `
         <TablixCell>
-          ${colspan > 1 ? `<ColSpan>${colspan}</ColSpan>` : ''}
-          ${rowspan > 1 ? `<RowSpan>${rowspan}</RowSpan>` : ''}
           <CellContents>
-            <Rectangle Name="HeaderRect_${colIndex}">
+            <Rectangle Name="${tableName}_HeaderRect_${colIndex}">
               <ReportItems>
-                ${this.generateCorrectTextbox(`HeaderText_${colIndex}`, this.escapeXMLValue(header), {
+                ${this.generateCorrectTextbox(`${tableName}_HeaderText_${colIndex}`, this.escapeXMLValue(header), {
                   top: '0in',
                   left: '0in',
                   width: `${textWidth.toFixed(3)}in`,
                   height: '0.28in',
                   textAlign: 'Center',
                   fontWeight: 'Bold',
-                  backgroundColor: '#E6E6E6'
+                  backgroundColor: '#E6E6E6',
+                  ...this.textStyleOptions(headerStyles[colIndex])
                 })}
               </ReportItems>
               <Style>
@@ -464,6 +746,7 @@ export class RDLGenerator {
               <Width>${cellWidth.toFixed(3)}in</Width>
               <Height>0.3in</Height>
             </Rectangle>
+            ${colspan > 1 ? `<ColSpan>${colspan}</ColSpan>` : ''}
           </CellContents>
         </TablixCell>`;
     });
@@ -477,12 +760,18 @@ export class RDLGenerator {
       </TablixRow>`;
   }
 
-  private static generateTableDetailRow(headers: string[], mergedCells: any[], columnWidths: number[]): string {
+  private static generateTableDetailRow(tableName: string, headers: string[], spans: number[], columnWidths: number[], columnStyles: PDFTextStyle[]): string {
     const detailCells = headers.map((header, colIndex) => {
+      if (spans[colIndex] === 0) return `
+        <TablixCell />`;
+
+      const colspan = spans[colIndex];
       const fieldName = this.sanitizeFieldName(header);
       const dataType = this.inferDataType(header, []);
       const isNumeric = dataType.includes('Decimal') || dataType.includes('Int');
-      const cellWidth = columnWidths[colIndex] || 1.5;
+      const cellWidth = columnWidths
+        .slice(colIndex, colIndex + colspan)
+        .reduce((sum, width) => sum + (width || 1.5), 0) || 1.5;
       const textWidth = cellWidth - 0.02; // Padding adjustment
       
       let format = '';
@@ -495,9 +784,9 @@ export class RDLGenerator {
       return `
         <TablixCell>
           <CellContents>
-            <Rectangle Name="DataRect_${colIndex}">
+            <Rectangle Name="${tableName}_DataRect_${colIndex}">
               <ReportItems>
-                ${this.generateCorrectTextbox(`DataText_${colIndex}`, `=Fields!${fieldName}.Value`, {
+                ${this.generateCorrectTextbox(`${tableName}_DataText_${colIndex}`, `=Fields!${fieldName}.Value`, {
                   top: '0in',
                   left: '0in',
                   width: `${textWidth.toFixed(3)}in`,
@@ -505,7 +794,8 @@ export class RDLGenerator {
                   textAlign: isNumeric ? 'Right' : 'Left',
                   paddingLeft: '4pt',
                   paddingRight: '4pt',
-                  format: format || undefined
+                  format: format || undefined,
+                  ...this.textStyleOptions(columnStyles[colIndex])
                 })}
               </ReportItems>
               <Style>
@@ -519,6 +809,7 @@ export class RDLGenerator {
               <Width>${cellWidth.toFixed(3)}in</Width>
               <Height>0.25in</Height>
             </Rectangle>
+            ${colspan > 1 ? `<ColSpan>${colspan}</ColSpan>` : ''}
           </CellContents>
         </TablixCell>`;
     });
@@ -532,13 +823,15 @@ export class RDLGenerator {
       </TablixRow>`;
   }
 
-  private static generateDefaultDataTable(topInches: number): string {
+  private static generateDefaultDataTable(topInches: number, availableWidth: number): string {
     const headers = ['Description', 'Quantity', 'Unit Price', 'Total'];
     const fields = ['Description', 'Quantity', 'UnitPrice', 'LineTotal'];
     const formats = ['', 'N0', 'C', 'C'];
     const alignments = ['Left', 'Right', 'Right', 'Right'];
     
-    const columnWidths = [2, 1.5, 1.5, 1.5];
+    // 6.5in wide, narrowed to fit the body
+    const scale = Math.min(1, availableWidth / 6.5);
+    const columnWidths = [2, 1.5, 1.5, 1.5].map(width => Number((width * scale).toFixed(3)));
     const tablixColumns = columnWidths.map(width => 
       `<TablixColumn><Width>${width}in</Width></TablixColumn>`
     ).join('');
@@ -627,8 +920,8 @@ export class RDLGenerator {
         <DataSetName>MainDataSet</DataSetName>
         <Top>${topInches.toFixed(2)}in</Top>
         <Left>0in</Left>
-        <Width>6.5in</Width>
-        <Height>1in</Height>
+        <Width>${columnWidths.reduce((sum, width) => sum + width, 0).toFixed(3)}in</Width>
+        <Height>${this.TABLIX_HEIGHT}in</Height>
         <Style>
           <Border>
             <Style>Solid</Style>
@@ -638,10 +931,9 @@ export class RDLGenerator {
       </Tablix>`;
   }
 
-  private static calculateColumnWidths(headers: string[], rows: any[][]): number[] {
+  private static calculateColumnWidths(headers: string[], rows: any[][], availableWidth: number): number[] {
     const minWidth = 0.8; // Minimum column width in inches
     const maxWidth = 2.5; // Maximum column width in inches
-    const availableWidth = 6.5; // Available width for the table
     
     if (!headers.length) return [availableWidth];
 
@@ -665,13 +957,25 @@ export class RDLGenerator {
   private static generateTextboxFromElement(
     element: any, 
     index: number, 
-    topInches: number
+    topInches: number,
+    container?: { origin: { x: number; y: number }; containerWidth: number }
   ): string {
-    const leftInches = (element.position.x / 72).toFixed(2);
-    const widthInches = Math.max(1, element.position.width / 72).toFixed(2);
-    const heightInches = Math.max(0.25, element.position.height / 72).toFixed(2);
-
     const isHeader = element.classification === 'header';
+    // PDF styles win; text without them keeps the old heading and body defaults
+    const textStyle = this.elementTextStyle(element);
+    const textAlign = textStyle.textAlign || (isHeader ? 'Center' : 'Left');
+
+    const originX = container?.origin.x || 0;
+    const textWidth = element.position.width / 72;
+    const boxWidth = container
+      ? Math.min(Math.max(1, textWidth), Math.max(0.1, container.containerWidth))
+      : Math.max(1, textWidth);
+    const left = Math.max(0, (element.position.x - originX) / 72 + this.alignmentShift(textWidth, textAlign, boxWidth));
+    const leftInches = left.toFixed(2);
+    const widthInches = (container
+      ? Math.min(boxWidth, Math.max(0.1, container.containerWidth - Number(leftInches)))
+      : boxWidth).toFixed(2);
+    const heightInches = Math.max(0.25, element.position.height / 72).toFixed(2);
     
     return this.generateCorrectTextbox(`TextElement_${index}`, this.escapeXMLValue(element.content), {
       top: `${topInches.toFixed(2)}in`,
@@ -680,10 +984,52 @@ export class RDLGenerator {
       height: `${heightInches}in`,
       fontSize: isHeader ? '14pt' : '10pt',
       fontWeight: isHeader ? 'Bold' : 'Normal',
-      textAlign: isHeader ? 'Center' : 'Left'
+      ...textStyle,
+      textAlign
     });
   }
 
+  // Text elements carry PDFAnalyzer styles, where alignment is lowercase
+  private static elementTextStyle(element: PDFAnalysisResult['textElements'][number]): TextboxTextStyle {
+    return this.textStyleOptions({
+      fontFamily: element.styles?.fontFamily,
+      fontSize: element.styles?.fontSize,
+      fontWeight: element.styles?.fontWeight,
+      isItalic: element.styles?.isItalic,
+      color: element.styles?.color,
+      textAlign: this.normalizeTextAlign(element.styles?.alignment)
+    });
+  }
+
+  // Textbox options for the parts of a PDF text style that are known
+  private static textStyleOptions(style?: PDFTextStyle): TextboxTextStyle {
+    const options: TextboxTextStyle = {};
+    if (!style) return options;
+    if (style.fontFamily) options.fontFamily = style.fontFamily;
+    if (style.fontSize > 0) options.fontSize = `${Number(style.fontSize.toFixed(1))}pt`;
+    if (style.fontWeight) options.fontWeight = RDLHeaderGenerator.normalizeFontWeight(style.fontWeight);
+    if (style.isItalic) options.fontStyle = 'Italic';
+    if (style.color && style.color !== 'transparent') options.color = style.color;
+    if (style.textAlign) options.textAlign = style.textAlign;
+    return options;
+  }
+
+  // A textbox wider than its text (at least an inch) moves left so the text's right edge or center stays in place
+  private static alignmentShift(textWidth: number, textAlign?: string, boxWidth: number = Math.max(1, textWidth)): number {
+    if (textAlign === 'Right') return textWidth - boxWidth;
+    if (textAlign === 'Center') return (textWidth - boxWidth) / 2;
+    return 0;
+  }
+
+  // "right" -> "Right"; anything else is left to the caller's default
+  private static normalizeTextAlign(alignment?: string): PDFTextStyle['textAlign'] {
+    const normalized = (alignment || '').toLowerCase();
+    if (normalized === 'left') return 'Left';
+    if (normalized === 'center') return 'Center';
+    if (normalized === 'right') return 'Right';
+    return undefined;
+  }
+
   private static generateDefaultTable(): string {
     const headers = ['Item', 'Qty', 'Price', 'Total'];
     const fields = ['Description', 'Quantity', 'UnitPrice', 'LineTotal'];
@@ -780,7 +1126,7 @@ export class RDLGenerator {
         <Top>2in</Top>
         <Left>0in</Left>
         <Width>5.5in</Width>
-        <Height>1in</Height>
+        <Height>${this.TABLIX_HEIGHT}in</Height>
         <Style>
           <Border>
             <Style>Solid</Style>
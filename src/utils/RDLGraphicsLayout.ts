@@ -0,0 +1,157 @@
+// Groups detected PDF graphics into RDL containers: boxes become Rectangles,
+// and lines and text that sit inside a box are nested in its ReportItems
+import { PDFGraphicPrimitive, PDFLinePrimitive } from './PDFGraphicsExtractor';
+
+export interface LayoutBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutRectangle extends LayoutBounds {
+  strokeColor?: string;
+  strokeWidth?: number;
+  fillColor?: string;
+}
+
+export interface GraphicContainer<T> {
+  box: LayoutRectangle;
+  containers: GraphicContainer<T>[];
+  lines: PDFLinePrimitive[];
+  items: T[];
+}
+
+export interface GraphicsLayout<T> {
+  containers: GraphicContainer<T>[];
+  lines: PDFLinePrimitive[];
+  items: T[];
+}
+
+export class RDLGraphicsLayout {
+  // Points of slack when testing containment and edge overlap
+  private static readonly TOLERANCE = 2;
+
+  static buildLayout<T>(
+    graphics: PDFGraphicPrimitive[],
+    items: T[],
+    getBounds: (item: T) => LayoutBounds,
+    excludeRegions: LayoutBounds[] = []
+  ): GraphicsLayout<T> {
+    const layout: GraphicsLayout<T> = { containers: [], lines: [], items: [] };
+    const isExcluded = (bounds: LayoutBounds) => excludeRegions.some(region => this.contains(region, bounds));
+
+    const boxes = this.mergeDuplicateBoxes(
+      graphics
+        .filter(g => g.kind === 'rectangle' || (g.kind === 'fill' && g.isRectangular))
+        .map(g => this.toLayoutRectangle(g))
+        .filter(box => !isExcluded(box))
+    );
+
+    // Largest boxes first so every box finds its parent before its children are placed
+    boxes
+      .sort((a, b) => b.width * b.height - a.width * a.height)
+      .forEach(box => this.insertBox(layout.containers, {
+        box,
+        containers: [],
+        lines: [],
+        items: []
+      }));
+
+    graphics
+      .filter((g): g is PDFLinePrimitive => g.kind === 'line' && g.orientation !== 'diagonal')
+      .filter(line => !isExcluded(this.lineBounds(line)) && !boxes.some(box => this.isOnBoxEdge(line, box)))
+      .forEach(line => {
+        const container = this.findDeepestContainer(layout.containers, this.lineBounds(line));
+        (container ? container.lines : layout.lines).push(line);
+      });
+
+    items.forEach(item => {
+      const container = this.findDeepestContainer(layout.containers, getBounds(item));
+      (container ? container.items : layout.items).push(item);
+    });
+
+    return layout;
+  }
+
+  static lineBounds(line: PDFLinePrimitive): LayoutBounds {
+    return {
+      x: Math.min(line.x1, line.x2),
+      y: Math.min(line.y1, line.y2),
+      width: Math.abs(line.x2 - line.x1),
+      height: Math.abs(line.y2 - line.y1)
+    };
+  }
+
+  private static toLayoutRectangle(graphic: PDFGraphicPrimitive): LayoutRectangle {
+    if (graphic.kind === 'rectangle') {
+      return {
+        x: graphic.x,
+        y: graphic.y,
+        width: graphic.width,
+        height: graphic.height,
+        strokeColor: graphic.strokeColor,
+        strokeWidth: graphic.strokeWidth,
+        fillColor: graphic.fillColor
+      };
+    }
+    if (graphic.kind === 'fill') {
+      return { x: graphic.x, y: graphic.y, width: graphic.width, height: graphic.height, fillColor: graphic.fillColor };
+    }
+    return { ...this.lineBounds(graphic) };
+  }
+
+  // A shaded background and its stroked border are usually drawn as two paths
+  private static mergeDuplicateBoxes(boxes: LayoutRectangle[]): LayoutRectangle[] {
+    const merged: LayoutRectangle[] = [];
+    for (const box of boxes) {
+      const existing = merged.find(other => this.contains(other, box) && this.contains(box, other));
+      if (existing) {
+        existing.strokeColor = existing.strokeColor || box.strokeColor;
+        existing.strokeWidth = existing.strokeWidth || box.strokeWidth;
+        existing.fillColor = existing.fillColor || box.fillColor;
+      } else {
+        merged.push({ ...box });
+      }
+    }
+    return merged;
+  }
+
+  private static insertBox<T>(containers: GraphicContainer<T>[], node: GraphicContainer<T>): void {
+    const parent = containers.find(container => this.contains(container.box, node.box));
+    if (parent) {
+      this.insertBox(parent.containers, node);
+    } else {
+      containers.push(node);
+    }
+  }
+
+  private static findDeepestContainer<T>(
+    containers: GraphicContainer<T>[],
+    bounds: LayoutBounds
+  ): GraphicContainer<T> | null {
+    const container = containers.find(c => this.contains(c.box, bounds));
+    if (!container) return null;
+    return this.findDeepestContainer(container.containers, bounds) || container;
+  }
+
+  private static isOnBoxEdge(line: PDFLinePrimitive, box: LayoutBounds): boolean {
+    const t = this.TOLERANCE;
+    const bounds = this.lineBounds(line);
+    const withinX = bounds.x >= box.x - t && bounds.x + bounds.width <= box.x + box.width + t;
+    const withinY = bounds.y >= box.y - t && bounds.y + bounds.height <= box.y + box.height + t;
+
+    if (line.orientation === 'horizontal') {
+      return withinX && (Math.abs(line.y1 - box.y) <= t || Math.abs(line.y1 - (box.y + box.height)) <= t);
+    }
+    return withinY && (Math.abs(line.x1 - box.x) <= t || Math.abs(line.x1 - (box.x + box.width)) <= t);
+  }
+
+  private static contains(outer: LayoutBounds, inner: LayoutBounds): boolean {
+    const t = this.TOLERANCE;
+    return inner.x >= outer.x - t &&
+      inner.y >= outer.y - t &&
+      inner.x + inner.width <= outer.x + outer.width + t &&
+      inner.y + inner.height <= outer.y + outer.height + t;
+  }
+}
@@ -0,0 +1,161 @@
+// Rewrites expressions for use in a page header or footer. Page sections cannot
+// read Fields! directly: field references are wrapped in aggregates scoped to a
+// dataset, and expressions that are only valid in the body are moved to a hidden
+// body textbox that the header reads through ReportItems!.
+
+export interface HeaderSafeExpression {
+  // Value for the header textbox
+  value: string;
+  strategy: 'literal' | 'dataset' | 'report-item';
+  // Expression for the hidden body textbox when strategy is 'report-item'
+  bodyExpression?: string;
+}
+
+interface ExpressionCall {
+  name: string;
+  open: number;
+  close: number;
+  // Positions of the top-level commas between the parentheses
+  commas: number[];
+}
+
+export class RDLHeaderExpressions {
+  // Functions that take a scope, by the index of their scope argument
+  private static readonly SCOPE_ARGUMENT: Record<string, number> = {
+    first: 1, last: 1, sum: 1, avg: 1, min: 1, max: 1, count: 1, countdistinct: 1,
+    stdev: 1, stdevp: 1, var: 1, varp: 1, aggregate: 1, previous: 1,
+    countrows: 0, rownumber: 0, runningvalue: 2
+  };
+
+  // Lookup arguments refer to two datasets, so their field references are left as written
+  private static readonly LOOKUPS = new Set(['lookup', 'lookupset', 'multilookup']);
+
+  // Not allowed in page sections at all, even with a dataset scope
+  private static readonly BODY_ONLY = new Set(['rownumber', 'runningvalue', 'previous']);
+
+  static toHeaderSafe(value: string, dataSet: string): HeaderSafeExpression {
+    if (!this.isExpression(value)) return { value, strategy: 'literal' };
+
+    const scopedValue = this.scopeToDataSet(value, dataSet);
+    if (this.calls(value).some(call => this.BODY_ONLY.has(call.name))) {
+      return { value: scopedValue, strategy: 'report-item', bodyExpression: scopedValue };
+    }
+    return { value: scopedValue, strategy: 'dataset' };
+  }
+
+  // =Fields!A.Value & Sum(Fields!B.Value) -> =First(Fields!A.Value, "DS") & Sum(Fields!B.Value, "DS")
+  static scopeToDataSet(expression: string, dataSet: string): string {
+    if (!this.isExpression(expression)) return expression;
+
+    const calls = this.calls(expression);
+    const scope = `"${dataSet}"`;
+    const edits: Array<{ at: number; text: string }> = [];
+
+    // Outermost scoped functions without a scope argument get the dataset as their scope
+    const scoped = calls.filter(call => call.name in this.SCOPE_ARGUMENT);
+    const outermost = scoped.filter(call => !scoped.some(other => other !== call && this.encloses(other, call.open)));
+    for (const call of outermost) {
+      const empty = expression.slice(call.open + 1, call.close).trim() === '';
+      const argumentCount = empty ? 0 : call.commas.length + 1;
+      if (argumentCount <= this.SCOPE_ARGUMENT[call.name]) {
+        edits.push({ at: call.close, text: empty ? scope : `, ${scope}` });
+      }
+    }
+
+    // Field references outside any scoped function or lookup are wrapped in First
+    for (const reference of this.fieldReferences(expression)) {
+      const enclosed = calls.some(call =>
+        (call.name in this.SCOPE_ARGUMENT || this.LOOKUPS.has(call.name)) && this.encloses(call, reference.start)
+      );
+      if (!enclosed) {
+        edits.push({ at: reference.start, text: 'First(' });
+        edits.push({ at: reference.end, text: `, ${scope})` });
+      }
+    }
+
+    // Apply from the end so earlier positions stay valid
+    return edits
+      .sort((a, b) => b.at - a.at)
+      .reduce((result, edit) => result.slice(0, edit.at) + edit.text + result.slice(edit.at), expression);
+  }
+
+  // "Page 2 of 5" -> ="Page " & Globals!PageNumber & " of " & Globals!TotalPages; null when
+  // the text is not a page number. Without the word "page" only a bare "2 of 5" qualifies.
+  static pageNumberExpression(text: string): string | null {
+    const literal = (part: string) => part ? `"${part.replace(/"/g, '""')}"` : '';
+    const mentionsPage = /\bpage\b/i.test(text);
+
+    const ofTotal = text.match(/^(.*?)(\d+)(\s*(?:of|\/)\s*)(\d+)(.*)$/i);
+    if (ofTotal && (mentionsPage || (/of/i.test(ofTotal[3]) && !(ofTotal[1] + ofTotal[5]).trim()))) {
+      const [, before, , separator, , after] = ofTotal;
+      return '=' + [literal(before), 'Globals!PageNumber', literal(separator), 'Globals!TotalPages', literal(after)]
+        .filter(Boolean)
+        .join(' & ');
+    }
+
+    const pageOnly = text.match(/^(.*\bpage\s*(?:no\.?|#)?\s*)(\d+)(\D*)$/i);
+    if (pageOnly) {
+      const [, before, , after] = pageOnly;
+      return '=' + [literal(before), 'Globals!PageNumber', literal(after)].filter(Boolean).join(' & ');
+    }
+
+    return null;
+  }
+
+  private static isExpression(value: string): boolean {
+    return value.trim().startsWith('=');
+  }
+
+  private static encloses(call: ExpressionCall, position: number): boolean {
+    return call.open < position && position < call.close;
+  }
+
+  // Fields!Name.Value, Fields!Name.IsMissing, Fields!Name("Prop")..., outside string literals
+  private static fieldReferences(expression: string): Array<{ start: number; end: number }> {
+    const references: Array<{ start: number; end: number }> = [];
+    const pattern = /"(?:[^"]|"")*"|\bFields!\w+(?:\.\w+)?/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(expression)) !== null) {
+      if (!match[0].startsWith('"')) {
+        references.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+    return references;
+  }
+
+  // Every function call in the expression with its parentheses and argument separators
+  private static calls(expression: string): ExpressionCall[] {
+    const calls: ExpressionCall[] = [];
+    const open: Array<ExpressionCall | null> = [];
+    let inString = false;
+
+    for (let i = 0; i < expression.length; i++) {
+      const char = expression[i];
+      if (char === '"') {
+        // VB escapes a quote inside a string by doubling it
+        if (inString && expression[i + 1] === '"') {
+          i++;
+        } else {
+          inString = !inString;
+        }
+        continue;
+      }
+      if (inString) continue;
+
+      if (char === '(') {
+        const name = expression.slice(0, i).match(/(\w+)\s*$/)?.[1];
+        open.push(name ? { name: name.toLowerCase(), open: i, close: -1, commas: [] } : null);
+      } else if (char === ')') {
+        const call = open.pop();
+        if (call) {
+          call.close = i;
+          calls.push(call);
+        }
+      } else if (char === ',' && open.length > 0) {
+        open[open.length - 1]?.commas.push(i);
+      }
+    }
+
+    return calls;
+  }
+}
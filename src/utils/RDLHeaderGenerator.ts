@@ -1,3 +1,13 @@
+import { PDFGraphicPrimitive, PDFLinePrimitive } from './PDFGraphicsExtractor';
+import { GraphicContainer, LayoutBounds, RDLGraphicsLayout } from './RDLGraphicsLayout';
+import { RDLMergeDocument, RDLMergeEngine, RDLMergeError } from './RDLMergeEngine';
+import { HeaderComponent } from './EnhancedPDFParser';
+import { RDLFieldBinding } from './RDLFieldMatcher';
+import { RDLHeaderExpressions } from './RDLHeaderExpressions';
+import { PDFImagePrimitive } from './PDFImageExtractor';
+import { RDLImageFieldSource } from './RDLFieldCatalog';
+import { PDFTextAlign, PDFTextStyle } from './PDFTextStyleExtractor';
+
 export interface HeaderTextbox {
   name: string;
   value: string;
@@ -10,6 +20,7 @@ export interface HeaderTextbox {
   fontWeight?: string;
   color?: string;
   isItalic?: boolean;
+  textAlign?: PDFTextAlign;
   type?: 'static-label' | 'dynamic-data' | 'standalone-text';
   confidence?: number;
 }
@@ -21,6 +32,9 @@ export interface TableBodyData {
     rows: Array<string[]>;
     position: { x: number; y: number; width: number; height: number };
     merged_cells?: Array<{ row: number; col: number; rowspan: number; colspan: number }>;
+    // Text style of each header cell and of each column's data, as printed in the PDF
+    headerStyles?: PDFTextStyle[];
+    columnStyles?: PDFTextStyle[];
     styling?: {
       headerBackgroundColor?: string;
       headerFontWeight?: string;
@@ -36,96 +50,301 @@ export interface TableBodyData {
   }>;
 }
 
+export interface HeaderImage {
+  name: string;
+  top: string;
+  left: string;
+  width: string;
+  height: string;
+  // Embedded images name an EmbeddedImage; database images read their value from a field
+  source: 'Embedded' | 'Database';
+  // EmbeddedImage name, or the image field expression
+  value: string;
+  // MIME type, or an expression returning it for database images
+  mimeType: string;
+  // Base64 data of an embedded image
+  imageData?: string;
+}
+
+export interface PageFooterOptions {
+  printOnFirstPage: boolean;
+  printOnLastPage: boolean;
+}
+
+export interface PageFooterData extends PageFooterOptions {
+  // Textbox positions are relative to the top of the footer and the left edge of the page
+  textboxes: HeaderTextbox[];
+  height: string;
+}
+
 export class RDLHeaderGenerator {
+  static readonly DEFAULT_FOOTER_OPTIONS: PageFooterOptions = { printOnFirstPage: true, printOnLastPage: true };
+  // Sizes in inches per unit
+  private static readonly UNIT_INCHES: Record<string, number> = { in: 1, cm: 1 / 2.54, mm: 1 / 25.4, pt: 1 / 72, pc: 1 / 6 };
+
+  // Report children that follow EmbeddedImages; it is inserted before the first one present
+  private static readonly AFTER_EMBEDDED_IMAGES = [
+    'Language', 'CodeModules', 'Classes', 'DataTransform', 'DataSchema', 'DataElementName',
+    'DataElementStyle', 'ConsumeContainerWhitespace', 'Variables', 'DeferVariableEvaluation', 'DocumentMap'
+  ];
+
   static updateCompleteRDL(
     baseRDLContent: string, 
     headerComponents: HeaderTextbox[], 
-    tableBodyData?: TableBodyData
+    tableBodyData?: TableBodyData,
+    graphics: PDFGraphicPrimitive[] = [],
+    headerDataSet?: string,
+    footer?: PageFooterData,
+    images: HeaderImage[] = []
   ): string {
-    let updatedRDL = baseRDLContent;
+    const rdl = RDLMergeEngine.parse(baseRDLContent);
     
-    // Step 1: Update header without affecting body
-    if (headerComponents && headerComponents.length > 0) {
-      updatedRDL = this.updateHeaderInRDL(updatedRDL, headerComponents);
+    // Step 1: Update header and footer without affecting body
+    if ((headerComponents && headerComponents.length > 0) || images.length > 0) {
+      this.mergeHeader(rdl, headerComponents || [], graphics, headerDataSet, images);
+    }
+    if (footer && footer.textboxes.length > 0) {
+      this.mergeFooter(rdl, footer, headerDataSet);
     }
     
     // Step 2: Update body table data without affecting header
     if (tableBodyData && tableBodyData.tables.length > 0) {
-      updatedRDL = this.updateBodyTablesInRDL(updatedRDL, tableBodyData);
+      this.mergeBodyTables(rdl, tableBodyData, headerDataSet);
     }
     
     // Step 3: Ensure proper XML formatting and namespaces
-    updatedRDL = this.ensureProperNamespaces(updatedRDL);
-    
-    return updatedRDL;
+    return this.ensureProperNamespaces(RDLMergeEngine.serialize(rdl));
   }
 
-  static updateHeaderInRDL(baseRDLContent: string, headerComponents: HeaderTextbox[]): string {
-    // Generate complete PageHeader structure based on analyzed PDF components
-    const newHeaderContent = this.generateCompletePageHeader(headerComponents);
-    
-    // Replace the entire PageHeader section in the RDL without affecting other sections
-    const headerRegex = /<(?:ns0:)?PageHeader>([\s\S]*?)<\/(?:ns0:)?PageHeader>/;
-    
-    if (headerRegex.test(baseRDLContent)) {
-      return baseRDLContent.replace(headerRegex, newHeaderContent);
-    } else {
-      // If no PageHeader exists, add it after Page element opening
-      return baseRDLContent.replace(
-        /(<(?:ns0:)?Page[^>]*>)/,
-        `$1\n        ${newHeaderContent}`
-      );
+  static updateHeaderInRDL(
+    baseRDLContent: string, 
+    headerComponents: HeaderTextbox[], 
+    graphics: PDFGraphicPrimitive[] = [],
+    headerDataSet?: string,
+    images: HeaderImage[] = []
+  ): string {
+    const rdl = RDLMergeEngine.parse(baseRDLContent);
+    this.mergeHeader(rdl, headerComponents, graphics, headerDataSet, images);
+    return RDLMergeEngine.serialize(rdl);
+  }
+
+  static updateBodyTablesInRDL(baseRDLContent: string, tableBodyData: TableBodyData, dataSetName?: string): string {
+    const rdl = RDLMergeEngine.parse(baseRDLContent);
+    this.mergeBodyTables(rdl, tableBodyData, dataSetName);
+    return RDLMergeEngine.serialize(rdl);
+  }
+
+  private static mergeHeader(
+    rdl: RDLMergeDocument,
+    headerComponents: HeaderTextbox[],
+    graphics: PDFGraphicPrimitive[],
+    headerDataSet?: string,
+    images: HeaderImage[] = []
+  ): void {
+    const page = this.findPage(rdl, 'page header');
+    const area = this.bodyArea(page);
+    const { components, bodyTextboxes } = this.headerSafeComponents(rdl, this.fitToBody(headerComponents, area), headerDataSet);
+    const fittedImages = this.fitToBody(images, area);
+
+    // PageHeader is the first child of Page in every schema version
+    const newHeaderContent = this.applyNamespaceStyle(
+      rdl,
+      this.generateCompletePageHeader(components, this.fitGraphicsToBody(graphics, area), fittedImages)
+    );
+    RDLMergeEngine.replaceOrInsert(rdl, page, newHeaderContent, RDLMergeEngine.childElements(page)[0] || null);
+    this.mergeHiddenBodyTextboxes(rdl, bodyTextboxes);
+    this.mergeEmbeddedImages(rdl, fittedImages);
+  }
+
+  // Embedded images replace EmbeddedImage entries of the same name; the base's own images are kept
+  private static mergeEmbeddedImages(rdl: RDLMergeDocument, images: HeaderImage[]): void {
+    const embedded = images.filter(image => image.source === 'Embedded' && image.imageData);
+    const unique = embedded.filter((image, index) => embedded.findIndex(other => other.value === image.value) === index);
+    if (unique.length === 0) return;
+
+    const before = RDLMergeEngine.childElements(rdl.root).find(child =>
+      this.AFTER_EMBEDDED_IMAGES.includes(child.localName) || child.namespaceURI === RDLMergeEngine.DESIGNER_NAMESPACE
+    ) || null;
+    const embeddedImages = RDLMergeEngine.ensureElement(rdl, rdl.root, 'EmbeddedImages', before);
+    const imagesXML = unique.map(image => `
+    <ns0:EmbeddedImage Name="${image.value}">
+      <ns0:MIMEType>${image.mimeType}</ns0:MIMEType>
+      <ns0:ImageData>${image.imageData}</ns0:ImageData>
+    </ns0:EmbeddedImage>`).join('');
+    RDLMergeEngine.upsertNamed(rdl, embeddedImages, this.applyNamespaceStyle(rdl, imagesXML));
+  }
+
+  private static mergeFooter(rdl: RDLMergeDocument, footer: PageFooterData, headerDataSet?: string): void {
+    const page = this.findPage(rdl, 'page footer');
+    const { components, bodyTextboxes } = this.headerSafeComponents(rdl, this.fitToBody(footer.textboxes, this.bodyArea(page)), headerDataSet);
+
+    // PageFooter follows PageHeader and precedes the page size and margins
+    const newFooterContent = this.applyNamespaceStyle(rdl, this.generateCompletePageFooter({ ...footer, textboxes: components }));
+    const before = RDLMergeEngine.childElements(page).find(child => child.localName !== 'PageHeader') || null;
+    RDLMergeEngine.replaceOrInsert(rdl, page, newFooterContent, before);
+    this.mergeHiddenBodyTextboxes(rdl, bodyTextboxes);
+  }
+
+  // The base report's left margin and body width in inches. Header and footer items move from the
+  // page's left edge to the margin and are kept inside the body width, like RDLGenerator writes them.
+  private static bodyArea(page: Element): { leftMargin: number; bodyWidth: number } {
+    const inches = (element: Element | null | undefined) => {
+      const match = element?.textContent?.trim().match(/^([-+]?(?:\d+(?:\.\d*)?|\.\d+))\s*(in|cm|mm|pt|pc)$/);
+      return match ? parseFloat(match[1]) * this.UNIT_INCHES[match[2]] : null;
+    };
+    return {
+      leftMargin: inches(RDLMergeEngine.childElements(page, 'LeftMargin')[0]) ?? 0,
+      // ReportSection holds the body width from RDL 2010 on, Report before that
+      bodyWidth: inches(page.parentElement && RDLMergeEngine.childElements(page.parentElement, 'Width')[0]) ?? Number.POSITIVE_INFINITY
+    };
+  }
+
+  private static fitToBody<T extends { left: string; width: string }>(items: T[], area: { leftMargin: number; bodyWidth: number }): T[] {
+    return items.map(item => {
+      const left = Math.min(Math.max(0, parseFloat(item.left) - area.leftMargin), Math.max(0, area.bodyWidth - 0.1));
+      const width = Math.min(parseFloat(item.width), area.bodyWidth - left);
+      return {
+        ...item,
+        left: `${(Math.floor(left * 10000) / 10000).toFixed(4)}in`,
+        width: `${(Math.floor(width * 10000) / 10000).toFixed(4)}in`
+      };
+    });
+  }
+
+  // Graphics are in page points; lines are cut where they cross the body edges and boxes trimmed to them
+  private static fitGraphicsToBody(
+    graphics: PDFGraphicPrimitive[],
+    area: { leftMargin: number; bodyWidth: number }
+  ): PDFGraphicPrimitive[] {
+    const shift = area.leftMargin * 72;
+    const right = area.bodyWidth * 72;
+    return graphics.flatMap((graphic): PDFGraphicPrimitive[] => {
+      if (graphic.kind === 'line') {
+        const x1 = graphic.x1 - shift;
+        const x2 = graphic.x2 - shift;
+        if (Math.max(x1, x2) < 0 || Math.min(x1, x2) > right) return [];
+        // Only ends of a line crossing an edge move, and such a line has x1 !== x2
+        const clip = (x: number) => Math.min(Math.max(x, 0), right);
+        const yAt = (x: number) => graphic.y1 + (graphic.y2 - graphic.y1) * (x - x1) / (x2 - x1);
+        return [{
+          ...graphic,
+          x1: clip(x1),
+          y1: clip(x1) === x1 ? graphic.y1 : yAt(clip(x1)),
+          x2: clip(x2),
+          y2: clip(x2) === x2 ? graphic.y2 : yAt(clip(x2))
+        }];
+      }
+      const x = Math.max(0, graphic.x - shift);
+      const width = Math.min(right, graphic.x - shift + graphic.width) - x;
+      return width > 0 ? [{ ...graphic, x, width }] : [];
+    });
+  }
+
+  // Page holds the header and footer from RDL 2010 on; 2008 reports keep it directly under Report
+  private static findPage(rdl: RDLMergeDocument, purpose: string): Element {
+    const page = RDLMergeEngine.findFirst(rdl.root, [['ReportSections', 'ReportSection', 'Page'], ['Page']]);
+    if (!page) {
+      throw new RDLMergeError(`The base RDL has no Page element to hold the ${purpose}`);
+    }
+    return page;
+  }
+
+  private static mergeHiddenBodyTextboxes(rdl: RDLMergeDocument, bodyTextboxes: string[]): void {
+    if (bodyTextboxes.length === 0) return;
+
+    const body = RDLMergeEngine.findFirst(rdl.root, [['ReportSections', 'ReportSection', 'Body'], ['Body']]);
+    if (!body) {
+      throw new RDLMergeError('The base RDL has no Body element to hold the header and footer values');
     }
+    const reportItems = RDLMergeEngine.ensureElement(rdl, body, 'ReportItems');
+    RDLMergeEngine.upsertNamed(rdl, reportItems, this.applyNamespaceStyle(rdl, bodyTextboxes.join('')));
+  }
+
+  // Header and footer expressions are scoped to the chosen dataset (the report's first by
+  // default). Expressions only valid in the body are evaluated by a hidden body textbox and
+  // read through ReportItems!, which shows the value on the pages where that textbox renders.
+  private static headerSafeComponents(
+    rdl: RDLMergeDocument,
+    headerComponents: HeaderTextbox[],
+    headerDataSet?: string
+  ): { components: HeaderTextbox[]; bodyTextboxes: string[] } {
+    const dataSet = headerDataSet ||
+      RDLMergeEngine.findElement(rdl.root, ['DataSets', 'DataSet'])?.getAttribute('Name');
+    if (!dataSet) return { components: headerComponents, bodyTextboxes: [] };
+
+    const bodyTextboxes: string[] = [];
+    const components = headerComponents.map((component, index) => {
+      const expression = RDLHeaderExpressions.toHeaderSafe(component.value, dataSet);
+      if (expression.strategy !== 'report-item') {
+        return { ...component, value: expression.value };
+      }
+
+      const bodyName = `PageValue_${component.name || `Textbox${index + 1}`}`;
+      bodyTextboxes.push(this.generateHiddenBodyTextboxXML(bodyName, expression.bodyExpression));
+      return { ...component, value: `=ReportItems!${bodyName}.Value` };
+    });
+
+    return { components, bodyTextboxes };
   }
 
-  static updateBodyTablesInRDL(baseRDLContent: string, tableBodyData: TableBodyData): string {
+  // The tables read the dataset their fields are merged into
+  private static mergeBodyTables(rdl: RDLMergeDocument, tableBodyData: TableBodyData, dataSetName?: string): void {
     // Update DataSets first
-    let updatedRDL = this.updateDataSets(baseRDLContent, tableBodyData.fields);
+    const dataSet = this.findTableDataSet(rdl, dataSetName);
+    this.mergeDataSetFields(rdl, dataSet, tableBodyData.fields);
     
     // Update ReportItems in Body
-    updatedRDL = this.updateReportItemsInBody(updatedRDL, tableBodyData.tables);
-    
-    return updatedRDL;
+    this.mergeBodyReportItems(rdl, tableBodyData.tables, dataSet?.getAttribute('Name') || 'MainDataSet');
+  }
+
+  // The chosen dataset, or the report's first when none was chosen or it does not exist
+  private static findTableDataSet(rdl: RDLMergeDocument, dataSetName?: string): Element | undefined {
+    const dataSets = RDLMergeEngine.findElement(rdl.root, ['DataSets']);
+    const candidates = dataSets ? RDLMergeEngine.childElements(dataSets, 'DataSet') : [];
+    return candidates.find(dataSet => dataSet.getAttribute('Name') === dataSetName) || candidates[0];
   }
 
-  private static updateDataSets(rdlContent: string, fields: any[]): string {
+  // Fields are merged into the dataset by name; other datasets are left alone
+  private static mergeDataSetFields(rdl: RDLMergeDocument, dataSet: Element | undefined, fields: TableBodyData['fields']): void {
+    if (!dataSet || fields.length === 0) return;
+
     const fieldsXML = fields.map(field => `
             <ns0:Field Name="${field.name}">
               <ns0:DataField>${field.dataField}</ns0:DataField>
               <ns1:TypeName>${field.typeName}</ns1:TypeName>
             </ns0:Field>`).join('');
 
-    const dataSetPattern = /(<ns0:DataSet Name="[^"]*">[\s\S]*?<ns0:Fields>)([\s\S]*?)(<\/ns0:Fields>[\s\S]*?<\/ns0:DataSet>)/;
-    
-    if (dataSetPattern.test(rdlContent)) {
-      return rdlContent.replace(dataSetPattern, `$1${fieldsXML}$3`);
-    }
-    
-    return rdlContent;
+    // Fields follows Query in a DataSet
+    const afterQuery = RDLMergeEngine.childElements(dataSet).find(child => child.localName !== 'Query') || null;
+    const fieldsElement = RDLMergeEngine.ensureElement(rdl, dataSet, 'Fields', afterQuery);
+    RDLMergeEngine.upsertNamed(rdl, fieldsElement, this.applyNamespaceStyle(rdl, fieldsXML));
   }
 
-  private static updateReportItemsInBody(rdlContent: string, tables: any[]): string {
+  private static mergeBodyReportItems(rdl: RDLMergeDocument, tables: TableBodyData['tables'], dataSetName: string): void {
+    const body = RDLMergeEngine.findFirst(rdl.root, [['ReportSections', 'ReportSection', 'Body'], ['Body']]);
+    if (!body) {
+      throw new RDLMergeError('The base RDL has no Body element to hold the tables');
+    }
+
     const tablesXML = tables.map((table, index) => 
-      this.generateAdvancedTableXML(table, index)
+      this.generateAdvancedTableXML(table, index, dataSetName)
     ).join('');
 
-    // Pattern to match ReportItems in Body (not in PageHeader)
-    const bodyReportItemsPattern = /((?:ns0:)?Body>[\s\S]*?<(?:ns0:)?ReportItems>)([\s\S]*?)(<\/(?:ns0:)?ReportItems>[\s\S]*?<\/(?:ns0:)?Body>)/;
-    
-    if (bodyReportItemsPattern.test(rdlContent)) {
-      return rdlContent.replace(bodyReportItemsPattern, `$1${tablesXML}$3`);
-    } else {
-      // If no ReportItems in Body, add them
-      const bodyPattern = /(<(?:ns0:)?Body[^>]*>)([\s\S]*?)(<\/(?:ns0:)?Body>)/;
-      return rdlContent.replace(bodyPattern, 
-        `$1
-        <ns0:ReportItems>${tablesXML}
-        </ns0:ReportItems>$2$3`
-      );
-    }
+    // Tables replace report items of the same name; the rest of the body is kept
+    const reportItems = RDLMergeEngine.ensureElement(rdl, body, 'ReportItems');
+    RDLMergeEngine.upsertNamed(rdl, reportItems, this.applyNamespaceStyle(rdl, tablesXML));
+  }
+
+  // Generated XML is written with ns0 (report) and ns1 (designer) prefixes; rename them to the
+  // prefixes the base RDL declares so the merged report reads like one Report Builder saved
+  private static applyNamespaceStyle(rdl: RDLMergeDocument, xml: string): string {
+    const reportPrefix = rdl.reportPrefix ? `${rdl.reportPrefix}:` : '';
+    return xml
+      .replace(/(<\/?)ns0:/g, `$1${reportPrefix}`)
+      .replace(/(<\/?)ns1:/g, `$1${rdl.designerPrefix}:`);
   }
 
-  private static generateAdvancedTableXML(tableData: any, index: number): string {
+  private static generateAdvancedTableXML(tableData: any, index: number, dataSetName: string): string {
     const headers = tableData.headers || [];
     const mergedCells = tableData.merged_cells || [];
     const styling = tableData.styling || {};
@@ -139,11 +358,15 @@ export class RDLHeaderGenerator {
       `<ns0:TablixColumn><ns0:Width>${width.toFixed(2)}in</ns0:Width></ns0:TablixColumn>`
     ).join('');
 
+    // Cell names start with the table's so several merged tables keep report item names unique
+    const tableName = tableData.name || `MainTable${index}`;
+
     // Generate header row
-    const headerRow = this.generateTableHeaderRow(headers, mergedCells, styling);
+    const headerRow = this.generateTableHeaderRow(tableName, headers, this.columnSpans(mergedCells, [0], headers.length), styling, tableData.headerStyles || []);
     
-    // Generate detail row
-    const detailRow = this.generateTableDetailRow(headers, styling);
+    // Generate detail row from the spans every data row shares
+    const dataRows = (tableData.rows || []).map((_: unknown, rowIndex: number) => rowIndex + 1);
+    const detailRow = this.generateTableDetailRow(tableName, headers, this.columnSpans(mergedCells, dataRows, headers.length), styling, tableData.columnStyles || []);
 
     // Generate column hierarchy
     const columnMembers = headers.map(() => '<ns0:TablixMember />').join('');
@@ -151,7 +374,7 @@ export class RDLHeaderGenerator {
     const topInches = Math.max(0.5, (tableData.position?.y || 0) / 72);
 
     return `
-          <ns0:Tablix Name="${tableData.name || `MainTable${index}`}">
+          <ns0:Tablix Name="${tableName}">
             <ns0:TablixBody>
               <ns0:TablixColumns>
                 ${tablixColumns}
@@ -177,7 +400,7 @@ export class RDLHeaderGenerator {
                 </ns0:TablixMember>
               </ns0:TablixMembers>
             </ns0:TablixRowHierarchy>
-            <ns0:DataSetName>MainDataSet</ns0:DataSetName>
+            <ns0:DataSetName>${this.escapeXML(dataSetName)}</ns0:DataSetName>
             <ns0:Top>${topInches.toFixed(2)}in</ns0:Top>
             <ns0:Left>0in</ns0:Left>
             <ns0:Width>${totalWidth.toFixed(2)}in</ns0:Width>
@@ -192,48 +415,30 @@ export class RDLHeaderGenerator {
           </ns0:Tablix>`;
   }
 
-  private static generateTableHeaderRow(headers: string[], mergedCells: any[], styling: any): string {
+  private static generateTableHeaderRow(tableName: string, headers: string[], spans: number[], styling: any, headerStyles: PDFTextStyle[]): string {
     const headerCells = headers.map((header, colIndex) => {
-      const mergedCell = mergedCells.find(mc => mc.row === 0 && mc.col === colIndex);
-      const colspan = mergedCell?.colspan || 1;
-      const rowspan = mergedCell?.rowspan || 1;
+      // A cell covered by a ColSpan stays in the row as an empty TablixCell
+      if (spans[colIndex] === 0) return `
+                <ns0:TablixCell />`;
+      
+      const textStyle = headerStyles[colIndex] || {};
+      const padding = styling.cellPadding || '2pt';
       
       return `
                 <ns0:TablixCell>
-                  ${colspan > 1 ? `<ns0:ColSpan>${colspan}</ns0:ColSpan>` : ''}
-                  ${rowspan > 1 ? `<ns0:RowSpan>${rowspan}</ns0:RowSpan>` : ''}
                   <ns0:CellContents>
-                    <ns0:Rectangle Name="HeaderRect_${colIndex}">
-                      <ns0:ReportItems>
-                        <ns0:Textbox Name="HeaderText_${colIndex}">
-                          <ns0:Value>${this.escapeXML(header)}</ns0:Value>
-                          <ns0:Style>
-                            <ns0:FontWeight>${styling.headerFontWeight || 'Bold'}</ns0:FontWeight>
-                            <ns0:BackgroundColor>${styling.headerBackgroundColor || '#E6E6E6'}</ns0:BackgroundColor>
-                            <ns0:TextAlign>Center</ns0:TextAlign>
-                            <ns0:VerticalAlign>Middle</ns0:VerticalAlign>
-                            <ns0:PaddingLeft>${styling.cellPadding || '2pt'}</ns0:PaddingLeft>
-                            <ns0:PaddingRight>${styling.cellPadding || '2pt'}</ns0:PaddingRight>
-                            <ns0:PaddingTop>${styling.cellPadding || '2pt'}</ns0:PaddingTop>
-                            <ns0:PaddingBottom>${styling.cellPadding || '2pt'}</ns0:PaddingBottom>
-                          </ns0:Style>
-                          <ns0:Top>0in</ns0:Top>
-                          <ns0:Left>0in</ns0:Left>
-                          <ns0:Width>100%</ns0:Width>
-                          <ns0:Height>100%</ns0:Height>
-                        </ns0:Textbox>
-                      </ns0:ReportItems>
-                      <ns0:Style>
-                        <ns0:Border>
-                          <ns0:Style>${styling.borderStyle || 'Solid'}</ns0:Style>
-                          <ns0:Width>1pt</ns0:Width>
-                        </ns0:Border>
-                      </ns0:Style>
-                      <ns0:Top>0in</ns0:Top>
-                      <ns0:Left>0in</ns0:Left>
-                      <ns0:Width>100%</ns0:Width>
-                      <ns0:Height>100%</ns0:Height>
-                    </ns0:Rectangle>
+                    ${this.generateTableCellTextboxXML(`${tableName}_HeaderText_${colIndex}`, header, {
+                      textRunStyle: [
+                        this.generateCellFontXML(textStyle),
+                        `<ns0:FontWeight>${textStyle.fontWeight ? this.normalizeFontWeight(textStyle.fontWeight) : styling.headerFontWeight || 'Bold'}</ns0:FontWeight>`
+                      ],
+                      textAlign: textStyle.textAlign || 'Center',
+                      borderWidth: '1pt',
+                      borderStyle: styling.borderStyle || 'Solid',
+                      backgroundColor: styling.headerBackgroundColor || '#E6E6E6',
+                      padding: [padding, padding, padding, padding]
+                    })}
+                    ${spans[colIndex] > 1 ? `<ns0:ColSpan>${spans[colIndex]}</ns0:ColSpan>` : ''}
                   </ns0:CellContents>
                 </ns0:TablixCell>`;
     });
@@ -247,46 +452,52 @@ export class RDLHeaderGenerator {
               </ns0:TablixRow>`;
   }
 
-  private static generateTableDetailRow(headers: string[], styling: any): string {
+  // Column span of each cell of a generated row standing for the given PDF rows; 0 marks a covered cell.
+  // Only spans all of those rows share are kept. The header and detail rows are separate row
+  // members, so a RowSpan could not join them and none is written
+  static columnSpans(mergedCells: Array<{ row: number; col: number; colspan?: number }>, rows: number[], columnCount: number): number[] {
+    const spans = Array<number>(columnCount).fill(1);
+    if (rows.length === 0) return spans;
+
+    for (let col = 0; col < columnCount; col++) {
+      if (spans[col] === 0) continue;
+      const colspan = Math.min(
+        columnCount - col,
+        ...rows.map(row => mergedCells.find(mc => mc.row === row && mc.col === col)?.colspan || 1)
+      );
+      spans[col] = colspan;
+      for (let covered = col + 1; covered < col + colspan; covered++) spans[covered] = 0;
+    }
+    return spans;
+  }
+
+  private static generateTableDetailRow(tableName: string, headers: string[], spans: number[], styling: any, columnStyles: PDFTextStyle[]): string {
     const detailCells = headers.map((header, colIndex) => {
+      if (spans[colIndex] === 0) return `
+                <ns0:TablixCell />`;
+
       const fieldName = this.sanitizeFieldName(header);
       const dataType = this.inferDataType(header);
       const isNumeric = dataType.includes('Decimal') || dataType.includes('Int');
+      const textStyle = columnStyles[colIndex] || {};
+      const format = isNumeric ? (header.toLowerCase().includes('amount') ? 'C' : 'N0') : '';
+      const padding = styling.cellPadding || '4pt';
       
       return `
                 <ns0:TablixCell>
                   <ns0:CellContents>
-                    <ns0:Rectangle Name="DataRect_${colIndex}">
-                      <ns0:ReportItems>
-                        <ns0:Textbox Name="DataText_${colIndex}">
-                          <ns0:Value>=Fields!${fieldName}.Value</ns0:Value>
-                          <ns0:Style>
-                            <ns0:TextAlign>${isNumeric ? 'Right' : 'Left'}</ns0:TextAlign>
-                            <ns0:VerticalAlign>Middle</ns0:VerticalAlign>
-                            <ns0:PaddingLeft>${styling.cellPadding || '4pt'}</ns0:PaddingLeft>
-                            <ns0:PaddingRight>${styling.cellPadding || '4pt'}</ns0:PaddingRight>
-                            <ns0:PaddingTop>2pt</ns0:PaddingTop>
-                            <ns0:PaddingBottom>2pt</ns0:PaddingBottom>
-                            ${isNumeric && header.toLowerCase().includes('amount') ? '<ns0:Format>C</ns0:Format>' : ''}
-                            ${isNumeric && !header.toLowerCase().includes('amount') ? '<ns0:Format>N0</ns0:Format>' : ''}
-                          </ns0:Style>
-                          <ns0:Top>0in</ns0:Top>
-                          <ns0:Left>0in</ns0:Left>
-                          <ns0:Width>100%</ns0:Width>
-                          <ns0:Height>100%</ns0:Height>
-                        </ns0:Textbox>
-                      </ns0:ReportItems>
-                      <ns0:Style>
-                        <ns0:Border>
-                          <ns0:Style>${styling.borderStyle || 'Solid'}</ns0:Style>
-                          <ns0:Width>0.5pt</ns0:Width>
-                        </ns0:Border>
-                      </ns0:Style>
-                      <ns0:Top>0in</ns0:Top>
-                      <ns0:Left>0in</ns0:Left>
-                      <ns0:Width>100%</ns0:Width>
-                      <ns0:Height>100%</ns0:Height>
-                    </ns0:Rectangle>
+                    ${this.generateTableCellTextboxXML(`${tableName}_DataText_${colIndex}`, `=Fields!${fieldName}.Value`, {
+                      textRunStyle: [
+                        this.generateCellFontXML(textStyle),
+                        textStyle.fontWeight && `<ns0:FontWeight>${this.normalizeFontWeight(textStyle.fontWeight)}</ns0:FontWeight>`,
+                        format && `<ns0:Format>${format}</ns0:Format>`
+                      ],
+                      textAlign: textStyle.textAlign || (isNumeric ? 'Right' : 'Left'),
+                      borderWidth: '0.5pt',
+                      borderStyle: styling.borderStyle || 'Solid',
+                      padding: [padding, padding, '2pt', '2pt']
+                    })}
+                    ${spans[colIndex] > 1 ? `<ns0:ColSpan>${spans[colIndex]}</ns0:ColSpan>` : ''}
                   </ns0:CellContents>
                 </ns0:TablixCell>`;
     });
@@ -300,6 +511,66 @@ export class RDLHeaderGenerator {
               </ns0:TablixRow>`;
   }
 
+  // A Tablix cell's Textbox fills the cell, so it has no position or size of its own.
+  // Font and format go on the TextRun, alignment on the Paragraph and the box look on the Textbox.
+  private static generateTableCellTextboxXML(
+    name: string,
+    value: string,
+    style: {
+      textRunStyle: Array<string | false | undefined>;
+      textAlign: string;
+      borderWidth: string;
+      borderStyle: string;
+      backgroundColor?: string;
+      // left, right, top, bottom
+      padding: [string, string, string, string];
+    }
+  ): string {
+    const [paddingLeft, paddingRight, paddingTop, paddingBottom] = style.padding;
+    return `<ns0:Textbox Name="${name}">
+                      <ns0:CanGrow>true</ns0:CanGrow>
+                      <ns0:KeepTogether>true</ns0:KeepTogether>
+                      <ns0:Paragraphs>
+                        <ns0:Paragraph>
+                          <ns0:TextRuns>
+                            <ns0:TextRun>
+                              <ns0:Value>${this.escapeXML(value)}</ns0:Value>
+                              <ns0:Style>
+                                ${style.textRunStyle.filter(Boolean).join('\n                                ')}
+                              </ns0:Style>
+                            </ns0:TextRun>
+                          </ns0:TextRuns>
+                          <ns0:Style>
+                            <ns0:TextAlign>${style.textAlign}</ns0:TextAlign>
+                          </ns0:Style>
+                        </ns0:Paragraph>
+                      </ns0:Paragraphs>
+                      <ns1:DefaultName>${name}</ns1:DefaultName>
+                      <ns0:Style>
+                        <ns0:Border>
+                          <ns0:Style>${style.borderStyle}</ns0:Style>
+                          <ns0:Width>${style.borderWidth}</ns0:Width>
+                        </ns0:Border>
+                        ${style.backgroundColor ? `<ns0:BackgroundColor>${style.backgroundColor}</ns0:BackgroundColor>` : ''}
+                        <ns0:VerticalAlign>Middle</ns0:VerticalAlign>
+                        <ns0:PaddingLeft>${paddingLeft}</ns0:PaddingLeft>
+                        <ns0:PaddingRight>${paddingRight}</ns0:PaddingRight>
+                        <ns0:PaddingTop>${paddingTop}</ns0:PaddingTop>
+                        <ns0:PaddingBottom>${paddingBottom}</ns0:PaddingBottom>
+                      </ns0:Style>
+                    </ns0:Textbox>`;
+  }
+
+  // Font of a table cell taken from the PDF; weight and alignment have per-row defaults
+  private static generateCellFontXML(textStyle: PDFTextStyle): string {
+    return [
+      textStyle.fontFamily && `<ns0:FontFamily>${this.escapeXML(textStyle.fontFamily)}</ns0:FontFamily>`,
+      textStyle.fontSize && `<ns0:FontSize>${Number(textStyle.fontSize.toFixed(1))}pt</ns0:FontSize>`,
+      textStyle.isItalic && '<ns0:FontStyle>Italic</ns0:FontStyle>',
+      textStyle.color && `<ns0:Color>${textStyle.color}</ns0:Color>`
+    ].filter(Boolean).join('\n                                ');
+  }
+
   private static calculateColumnWidths(headers: string[]): number[] {
     const minWidth = 0.8;
     const maxWidth = 2.5;
@@ -345,8 +616,12 @@ export class RDLHeaderGenerator {
     return 'System.String';
   }
 
-  private static generateCompletePageHeader(headerComponents: HeaderTextbox[]): string {
-    const reportItems = this.generateHeaderReportItems(headerComponents);
+  private static generateCompletePageHeader(
+    headerComponents: HeaderTextbox[],
+    graphics: PDFGraphicPrimitive[] = [],
+    images: HeaderImage[] = []
+  ): string {
+    const reportItems = this.generateHeaderReportItems(headerComponents, graphics, images);
     return `<ns0:PageHeader>
           <ns0:Height>0.70417in</ns0:Height>
           <ns0:PrintOnFirstPage>true</ns0:PrintOnFirstPage>
@@ -361,12 +636,134 @@ export class RDLHeaderGenerator {
         </ns0:PageHeader>`;
   }
 
-  private static generateHeaderReportItems(headerComponents: HeaderTextbox[]): string {
-    if (headerComponents.length === 0) {
+  private static generateCompletePageFooter(footer: PageFooterData): string {
+    const reportItems = footer.textboxes.map((component, index) => this.generateHeaderTextboxXML(component, index)).join('');
+    return `<ns0:PageFooter>
+          <ns0:Height>${footer.height}</ns0:Height>
+          <ns0:PrintOnFirstPage>${footer.printOnFirstPage}</ns0:PrintOnFirstPage>
+          <ns0:PrintOnLastPage>${footer.printOnLastPage}</ns0:PrintOnLastPage>
+          <ns0:ReportItems>${reportItems}
+          </ns0:ReportItems>
+          <ns0:Style>
+            <ns0:Border>
+              <ns0:Style>None</ns0:Style>
+            </ns0:Border>
+          </ns0:Style>
+        </ns0:PageFooter>`;
+  }
+
+  private static generateHeaderReportItems(
+    headerComponents: HeaderTextbox[],
+    graphics: PDFGraphicPrimitive[] = [],
+    images: HeaderImage[] = []
+  ): string {
+    const items: Array<HeaderTextbox | HeaderImage> = [...images, ...headerComponents];
+    if (items.length === 0) {
       return '';
     }
     
-    return headerComponents.map((component, index) => `
+    // Only graphics from the first page that end within the header band are drawn in the PageHeader
+    const headerBottom = Math.max(...items.map(c => this.textboxBounds(c).y + this.textboxBounds(c).height));
+    const headerGraphics = graphics.filter(g => {
+      const bounds = g.kind === 'line' ? RDLGraphicsLayout.lineBounds(g) : g;
+      return g.pageNumber === 1 && bounds.y + bounds.height <= headerBottom + 2;
+    });
+    
+    // Images take part in the layout like text, so a logo inside a box is nested in its Rectangle
+    const layout = RDLGraphicsLayout.buildLayout(headerGraphics, items, c => this.textboxBounds(c));
+    const counter = { lines: 0, rectangles: 0 };
+    
+    return this.generateHeaderGraphicsXML(layout.containers, layout.lines, { x: 0, y: 0 }, headerComponents, counter) +
+      layout.items.map(item => this.generateHeaderItemXML(item, headerComponents)).join('');
+  }
+
+  private static generateHeaderItemXML(item: HeaderTextbox | HeaderImage, headerComponents: HeaderTextbox[]): string {
+    return this.isHeaderImage(item)
+      ? this.generateHeaderImageXML(item)
+      : this.generateHeaderTextboxXML(item, headerComponents.indexOf(item));
+  }
+
+  private static isHeaderImage(item: HeaderTextbox | HeaderImage): item is HeaderImage {
+    return 'source' in item;
+  }
+
+  // HeaderTextbox and HeaderImage positions are inch strings; the graphics layout works in points
+  private static textboxBounds(component: HeaderTextbox | HeaderImage): LayoutBounds {
+    const toPoints = (value: string) => (parseFloat(value) || 0) * 72;
+    return {
+      x: toPoints(component.left),
+      y: toPoints(component.top),
+      width: toPoints(component.width),
+      height: toPoints(component.height)
+    };
+  }
+
+  private static generateHeaderGraphicsXML(
+    containers: GraphicContainer<HeaderTextbox | HeaderImage>[],
+    lines: PDFLinePrimitive[],
+    origin: { x: number; y: number },
+    headerComponents: HeaderTextbox[],
+    counter: { lines: number; rectangles: number }
+  ): string {
+    const toInches = (points: number) => `${(Math.max(0, points) / 72).toFixed(4)}in`;
+    const toBorderWidth = (width: number) => `${Math.min(20, Math.max(0.25, width)).toFixed(2)}pt`;
+    
+    const linesXML = lines.map(line => {
+      const bounds = RDLGraphicsLayout.lineBounds(line);
+      return `
+            <ns0:Line Name="HeaderLine${++counter.lines}">
+              <ns0:Top>${toInches(bounds.y - origin.y)}</ns0:Top>
+              <ns0:Left>${toInches(bounds.x - origin.x)}</ns0:Left>
+              <ns0:Height>${toInches(bounds.height)}</ns0:Height>
+              <ns0:Width>${toInches(bounds.width)}</ns0:Width>
+              <ns0:Style>
+                <ns0:Border>
+                  <ns0:Color>${line.strokeColor}</ns0:Color>
+                  <ns0:Style>Solid</ns0:Style>
+                  <ns0:Width>${toBorderWidth(line.strokeWidth)}</ns0:Width>
+                </ns0:Border>
+              </ns0:Style>
+            </ns0:Line>`;
+    }).join('');
+    
+    const rectanglesXML = containers.map(container => {
+      const { box } = container;
+      const childOrigin = { x: box.x, y: box.y };
+      const nestedTextboxes = container.items.map(item => {
+        const bounds = this.textboxBounds(item);
+        const position = { top: toInches(bounds.y - childOrigin.y), left: toInches(bounds.x - childOrigin.x) };
+        return this.isHeaderImage(item)
+          ? this.generateHeaderImageXML({ ...item, ...position })
+          : this.generateHeaderTextboxXML({ ...item, ...position }, headerComponents.indexOf(item));
+      }).join('');
+      const childItems = this.generateHeaderGraphicsXML(container.containers, container.lines, childOrigin, headerComponents, counter) +
+        nestedTextboxes;
+      
+      return `
+            <ns0:Rectangle Name="HeaderRectangle${++counter.rectangles}">
+              ${childItems ? `<ns0:ReportItems>${childItems}
+              </ns0:ReportItems>` : ''}
+              <ns0:KeepTogether>true</ns0:KeepTogether>
+              <ns0:Top>${toInches(box.y - origin.y)}</ns0:Top>
+              <ns0:Left>${toInches(box.x - origin.x)}</ns0:Left>
+              <ns0:Height>${toInches(box.height)}</ns0:Height>
+              <ns0:Width>${toInches(box.width)}</ns0:Width>
+              <ns0:Style>
+                <ns0:Border>
+                  ${box.strokeColor ? `<ns0:Color>${box.strokeColor}</ns0:Color>
+                  <ns0:Style>Solid</ns0:Style>
+                  <ns0:Width>${toBorderWidth(box.strokeWidth || 1)}</ns0:Width>` : '<ns0:Style>None</ns0:Style>'}
+                </ns0:Border>
+                ${box.fillColor ? `<ns0:BackgroundColor>${box.fillColor}</ns0:BackgroundColor>` : ''}
+              </ns0:Style>
+            </ns0:Rectangle>`;
+    }).join('');
+    
+    return linesXML + rectanglesXML;
+  }
+
+  private static generateHeaderTextboxXML(component: HeaderTextbox, index: number): string {
+    return `
             <ns0:Textbox Name="${component.name || `Textbox${index + 1}`}">
               <ns0:CanGrow>true</ns0:CanGrow>
               <ns0:KeepTogether>true</ns0:KeepTogether>
@@ -384,7 +781,9 @@ export class RDLHeaderGenerator {
                        </ns0:Style>
                      </ns0:TextRun>
                   </ns0:TextRuns>
-                  <ns0:Style />
+                  ${component.textAlign ? `<ns0:Style>
+                    <ns0:TextAlign>${component.textAlign}</ns0:TextAlign>
+                  </ns0:Style>` : '<ns0:Style />'}
                 </ns0:Paragraph>
               </ns0:Paragraphs>
               <ns1:DefaultName>${component.name || `Textbox${index + 1}`}</ns1:DefaultName>
@@ -401,9 +800,55 @@ export class RDLHeaderGenerator {
                 <ns0:PaddingTop>2pt</ns0:PaddingTop>
                 <ns0:PaddingBottom>2pt</ns0:PaddingBottom>
               </ns0:Style>
-            </ns0:Textbox>`).join('');
+            </ns0:Textbox>`;
+  }
+
+  private static generateHeaderImageXML(image: HeaderImage): string {
+    return `
+            <ns0:Image Name="${image.name}">
+              <ns0:Source>${image.source}</ns0:Source>
+              <ns0:Value>${this.escapeXML(image.value)}</ns0:Value>
+              ${image.source === 'Database' ? `<ns0:MIMEType>${this.escapeXML(image.mimeType)}</ns0:MIMEType>` : ''}
+              <ns0:Sizing>FitProportional</ns0:Sizing>
+              <ns0:Top>${image.top}</ns0:Top>
+              <ns0:Left>${image.left}</ns0:Left>
+              <ns0:Height>${image.height}</ns0:Height>
+              <ns0:Width>${image.width}</ns0:Width>
+              <ns0:Style>
+                <ns0:Border>
+                  <ns0:Style>None</ns0:Style>
+                </ns0:Border>
+              </ns0:Style>
+            </ns0:Image>`;
+  }
+
+  private static generateHiddenBodyTextboxXML(name: string, expression: string): string {
+    return `
+            <ns0:Textbox Name="${name}">
+              <ns0:Paragraphs>
+                <ns0:Paragraph>
+                  <ns0:TextRuns>
+                    <ns0:TextRun>
+                      <ns0:Value>${this.escapeXML(expression)}</ns0:Value>
+                      <ns0:Style />
+                    </ns0:TextRun>
+                  </ns0:TextRuns>
+                  <ns0:Style />
+                </ns0:Paragraph>
+              </ns0:Paragraphs>
+              <ns1:DefaultName>${name}</ns1:DefaultName>
+              <ns0:Top>0in</ns0:Top>
+              <ns0:Left>0in</ns0:Left>
+              <ns0:Height>0.25in</ns0:Height>
+              <ns0:Width>1in</ns0:Width>
+              <ns0:Visibility>
+                <ns0:Hidden>true</ns0:Hidden>
+              </ns0:Visibility>
+              <ns0:Style />
+            </ns0:Textbox>`;
   }
 
+  // "Page X of Y" text becomes a Globals!PageNumber / Globals!TotalPages expression
   static convertPDFComponentsToHeaderTextboxes(pdfComponents: any[]): HeaderTextbox[] {
     return pdfComponents
       .filter(component => 
@@ -412,37 +857,114 @@ export class RDLHeaderGenerator {
         component.text.trim().toLowerCase() !== 'header text' && 
         !component.text.trim().match(/^header\s*text$/i)
       )
-      .map((component, index) => ({
-        name: component.type === 'static-label' 
-          ? `Label_${component.text.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20)}_${index + 1}`
-          : component.type === 'dynamic-data'
-          ? `Data_${index + 1}`
-          : `Text_${index + 1}`,
-        value: component.text || component.content || 'Header Text',
-        top: `${Math.max(0, (component.y / 72)).toFixed(4)}in`,
-        left: `${Math.max(0, (component.x / 72)).toFixed(4)}in`,
-        width: `${Math.max(0.5, (component.width / 72)).toFixed(4)}in`,
-        height: `${Math.max(0.25, (component.height || component.fontSize || 12) / 72).toFixed(4)}in`,
-        fontSize: `${component.fontSize || 10}pt`,
-        fontFamily: component.fontFamily || 'Arial',
-        fontWeight: this.normalizeFontWeight(component.fontWeight || 'Normal'),
-        color: component.color || '#000000',
-        isItalic: component.isItalic || false,
-        type: component.type || 'standalone-text',
-        confidence: component.confidence || 0.5
-      }));
-  }
-
-  static convertEnhancedHeaderAnalysis(headerAnalysis: any): HeaderTextbox[] {
+      .map((component, index) => {
+        const width = Math.max(0.5, (component.width / 72));
+        return {
+          name: component.type === 'static-label' 
+            ? `Label_${component.text.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20)}_${index + 1}`
+            : component.type === 'dynamic-data'
+            ? `Data_${index + 1}`
+            : `Text_${index + 1}`,
+          value: component.expression || RDLHeaderExpressions.pageNumberExpression(component.text) || component.text || component.content || 'Header Text',
+          top: `${Math.max(0, (component.y / 72)).toFixed(4)}in`,
+          left: `${Math.max(0, this.alignedLeft(component.x / 72, (component.width || 0) / 72, width, component.textAlign)).toFixed(4)}in`,
+          width: `${width.toFixed(4)}in`,
+          height: `${Math.max(0.25, (component.height || component.fontSize || 12) / 72).toFixed(4)}in`,
+          fontSize: `${component.fontSize || 10}pt`,
+          fontFamily: component.fontFamily || 'Arial',
+          fontWeight: this.normalizeFontWeight(component.fontWeight || 'Normal'),
+          color: component.color || '#000000',
+          isItalic: component.isItalic || false,
+          textAlign: component.textAlign,
+          type: component.type || 'standalone-text',
+          confidence: component.confidence || 0.5
+        };
+      });
+  }
+
+  // A textbox wider than its text keeps the text's right edge or center where the PDF has it
+  private static alignedLeft(textLeft: number, textWidth: number, boxWidth: number, textAlign?: PDFTextAlign): number {
+    if (textAlign === 'Right') return textLeft + textWidth - boxWidth;
+    if (textAlign === 'Center') return textLeft + (textWidth - boxWidth) / 2;
+    return textLeft;
+  }
+
+  // Bound data components take their dataset expression instead of the sample text
+  static convertEnhancedHeaderAnalysis(headerAnalysis: any, bindings?: Map<HeaderComponent, RDLFieldBinding>): HeaderTextbox[] {
     const allComponents = [
       ...headerAnalysis.staticLabels,
-      ...headerAnalysis.dynamicData,
+      ...headerAnalysis.dynamicData.map((data: HeaderComponent) =>
+        bindings?.has(data) ? { ...data, expression: bindings.get(data).expression } : data
+      ),
       ...headerAnalysis.standaloneText
     ];
     
     return this.convertPDFComponentsToHeaderTextboxes(allComponents);
   }
 
+  // First-page images that start within the header band. Images listed in databaseSources
+  // (by PDF image name) read a database field; the rest are embedded, with identical image
+  // data sharing one EmbeddedImage.
+  static convertPDFImages(
+    images: PDFImagePrimitive[],
+    headerComponents: HeaderTextbox[],
+    databaseSources: Record<string, RDLImageFieldSource> = {}
+  ): HeaderImage[] {
+    const headerBottom = Math.max(0, ...headerComponents.map(c => this.textboxBounds(c).y + this.textboxBounds(c).height));
+    const toInches = (points: number) => `${(Math.max(0, points) / 72).toFixed(4)}in`;
+    const embeddedNames = new Map<string, string>();
+
+    return (images || [])
+      .filter(image => image.pageNumber === 1 && image.y < headerBottom)
+      .map((image, index) => {
+        const position = {
+          name: `HeaderImage${index + 1}`,
+          top: toInches(image.y),
+          left: toInches(image.x),
+          width: toInches(image.width),
+          height: toInches(image.height)
+        };
+
+        const databaseSource = databaseSources[image.name];
+        if (databaseSource) {
+          return { ...position, source: 'Database' as const, ...databaseSource };
+        }
+
+        if (!embeddedNames.has(image.data)) embeddedNames.set(image.data, image.name);
+        return {
+          ...position,
+          source: 'Embedded' as const,
+          value: embeddedNames.get(image.data),
+          mimeType: image.mimeType,
+          imageData: image.data
+        };
+      });
+  }
+
+  // Footer components carry page positions; they are moved to the footer's origin
+  static convertFooterAnalysis(
+    footerAnalysis: { components: HeaderComponent[] },
+    options: PageFooterOptions = this.DEFAULT_FOOTER_OPTIONS
+  ): PageFooterData | undefined {
+    const components = (footerAnalysis?.components || []).filter(component => component.text?.trim());
+    if (components.length === 0) return undefined;
+
+    const footerTop = Math.min(...components.map(component => component.y));
+    const footerBottom = Math.max(...components.map(component => component.y + (component.height || component.fontSize || 12)));
+    const textboxes = this.convertPDFComponentsToHeaderTextboxes(components.map(component => ({
+      ...component,
+      y: component.y - footerTop
+    }))).map((textbox, index) => ({ ...textbox, name: `Footer_${index + 1}` }));
+
+    // Tall enough for the lowest textbox, which is at least a quarter inch high
+    const textboxBottom = Math.max(...textboxes.map(textbox => parseFloat(textbox.top) + parseFloat(textbox.height)));
+    return {
+      ...options,
+      textboxes,
+      height: `${Math.max(textboxBottom, (footerBottom - footerTop) / 72).toFixed(4)}in`
+    };
+  }
+
   static convertTableBodyData(pdfAnalysisResult: any): TableBodyData {
     const fields = this.generateFieldsFromTables(pdfAnalysisResult.tables || []);
     
@@ -490,7 +1012,8 @@ export class RDLHeaderGenerator {
     ];
   }
 
-  private static normalizeFontWeight(fontWeight: string): string {
+  // PDF and CSS weight names (any case) to RDL FontWeight values
+  static normalizeFontWeight(fontWeight: string): string {
     const normalized = fontWeight.toLowerCase();
     switch (normalized) {
       case 'normal': return 'Normal';
@@ -518,10 +1041,14 @@ export class RDLHeaderGenerator {
   static generateExecutableRDL(
     baseRDLContent: string, 
     headerComponents: HeaderTextbox[], 
-    tableBodyData?: TableBodyData
+    tableBodyData?: TableBodyData,
+    graphics: PDFGraphicPrimitive[] = [],
+    headerDataSet?: string,
+    footer?: PageFooterData,
+    images: HeaderImage[] = []
   ): string {
-    // Update both header and body without conflicts
-    let updatedRDL = this.updateCompleteRDL(baseRDLContent, headerComponents, tableBodyData);
+    // Update header, footer and body without conflicts
+    let updatedRDL = this.updateCompleteRDL(baseRDLContent, headerComponents, tableBodyData, graphics, headerDataSet, footer, images);
     
     // Ensure proper XML formatting and namespaces
     updatedRDL = this.ensureProperNamespaces(updatedRDL);
@@ -530,17 +1057,12 @@ export class RDLHeaderGenerator {
   }
 
   private static ensureProperNamespaces(rdlContent: string): string {
-    // Ensure the RDL has proper namespace declarations
-    if (!rdlContent.includes('xmlns:ns0=')) {
-      rdlContent = rdlContent.replace(
-        /<Report[^>]*>/,
-        '<Report xmlns:ns0="http://schemas.microsoft.com/sqlserver/reporting/2016/01/reportdefinition" xmlns:ns1="http://schemas.microsoft.com/SQLServer/reporting/reportdesigner">'
-      );
-    }
-    
-    // Ensure proper XML declaration
-    if (!rdlContent.startsWith('<?xml')) {
-      rdlContent = '<?xml version="1.0" encoding="utf-8"?>\n' + rdlContent;
+    // Namespace declarations come from the base RDL and are kept by the merge; only the
+    // XML declaration may be missing (a leading byte order mark is not part of it)
+    const content = rdlContent.replace(/^\uFEFF/, '');
+    if (!content.startsWith('<?xml')) {
+      const bom = content.length < rdlContent.length ? '\uFEFF' : '';
+      rdlContent = bom + '<?xml version="1.0" encoding="utf-8"?>\n' + content;
     }
     
     return rdlContent;
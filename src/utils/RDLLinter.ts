@@ -0,0 +1,417 @@
+// Report-level checks the schema cannot express: names, field and dataset
+// references, layout against the page, and parameters. Findings that have an
+// obvious repair carry an autofix that edits the RDL through RDLMergeEngine.
+import { RDLHeaderExpressions } from './RDLHeaderExpressions';
+import { RDLLocator } from './RDLLocator';
+import { RDLMergeDocument, RDLMergeEngine, RDLMergeError } from './RDLMergeEngine';
+
+export type RDLLintSeverity = 'error' | 'warning' | 'info';
+
+export type RDLLintRule =
+  | 'well-formed'
+  | 'duplicate-name'
+  | 'unknown-field'
+  | 'field-in-page-section'
+  | 'unknown-dataset'
+  | 'orphaned-datasource'
+  | 'outside-body'
+  | 'page-too-wide'
+  | 'overlapping-items'
+  | 'unused-parameter';
+
+export interface RDLLintFix {
+  description: string;
+  // Applied to the element at the finding's path in a freshly parsed copy of the report
+  apply: (element: Element, rdl: RDLMergeDocument) => void;
+}
+
+export interface RDLLintFinding {
+  rule: RDLLintRule;
+  severity: RDLLintSeverity;
+  message: string;
+  path: string;
+  line: number;
+  fix?: RDLLintFix;
+}
+
+type LintReporter = (element: Element, finding: Omit<RDLLintFinding, 'path' | 'line'>) => void;
+
+interface ItemBounds {
+  element: Element;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+const REPORT_ITEM_TYPES = ['Line', 'Rectangle', 'Textbox', 'Image', 'Subreport', 'Tablix', 'Chart', 'GaugePanel', 'Map', 'CustomReportItem'];
+
+// Sizes in inches per unit
+const UNIT_INCHES: Record<string, number> = { in: 1, cm: 1 / 2.54, mm: 1 / 25.4, pt: 1 / 72, pc: 1 / 6 };
+
+// Default PageWidth when the report does not set one (US Letter)
+const DEFAULT_PAGE_WIDTH = 8.5;
+// Rounding in designer-written sizes
+const SIZE_TOLERANCE = 0.001;
+// Guard against fixes that keep producing new findings
+const MAX_FIX_PASSES = 100;
+
+export class RDLLinter {
+  static lint(rdlContent: string): RDLLintFinding[] {
+    let rdl: RDLMergeDocument;
+    try {
+      rdl = RDLMergeEngine.parse(rdlContent);
+    } catch (error) {
+      if (!(error instanceof RDLMergeError)) throw error;
+      return [{ rule: 'well-formed', severity: 'error', message: error.message, path: '/', line: 1 }];
+    }
+
+    const locator = new RDLLocator(rdlContent, rdl.document);
+    const findings: RDLLintFinding[] = [];
+    const report: LintReporter = (element, finding) =>
+      findings.push({ ...finding, path: RDLLocator.pathOf(element), line: locator.lineOf(element) });
+
+    this.checkDuplicateNames(rdl, report);
+    this.checkDataSources(rdl, report);
+    this.checkDataSetReferences(rdl, report);
+    this.checkFieldReferences(rdl, report);
+    this.checkLayout(rdl, report);
+    this.checkParameters(rdl, report);
+
+    return findings.sort((a, b) => a.line - b.line);
+  }
+
+  static applyFix(rdlContent: string, finding: RDLLintFinding): string {
+    if (!finding.fix) return rdlContent;
+
+    const rdl = RDLMergeEngine.parse(rdlContent);
+    const element = RDLLocator.resolve(rdl.root, finding.path);
+    if (!element) {
+      throw new RDLMergeError(`The element for this fix no longer exists: ${finding.path}`);
+    }
+
+    finding.fix.apply(element, rdl);
+    return RDLMergeEngine.serialize(rdl);
+  }
+
+  // Apply fixes one at a time, re-linting in between since a fix can move or rename elements
+  static applyAllFixes(rdlContent: string): { content: string; applied: RDLLintFinding[] } {
+    const applied: RDLLintFinding[] = [];
+    let content = rdlContent;
+    const attempted = new Set<string>();
+
+    for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+      const next = this.lint(content).find(finding =>
+        finding.fix && !attempted.has(`${finding.rule}:${finding.path}:${finding.message}`)
+      );
+      if (!next) break;
+
+      attempted.add(`${next.rule}:${next.path}:${next.message}`);
+      content = this.applyFix(content, next);
+      applied.push(next);
+    }
+
+    return { content, applied };
+  }
+
+  private static checkDuplicateNames(rdl: RDLMergeDocument, report: LintReporter): void {
+    // Report items and groups share one name scope
+    const named = [...this.reportItems(rdl), ...this.descendants(rdl, 'Group')];
+    const used = new Set(named.map(element => element.getAttribute('Name') || ''));
+    const seen = new Set<string>();
+
+    for (const element of named) {
+      const name = element.getAttribute('Name');
+      if (!name) continue;
+      if (!seen.has(name)) {
+        seen.add(name);
+        continue;
+      }
+
+      let suffix = 2;
+      while (used.has(`${name}_${suffix}`)) suffix++;
+      const replacement = `${name}_${suffix}`;
+      used.add(replacement);
+
+      report(element, {
+        rule: 'duplicate-name',
+        severity: 'error',
+        message: `The name "${name}" is already used by another report item or group`,
+        fix: {
+          description: `Rename to "${replacement}"`,
+          apply: target => target.setAttribute('Name', replacement)
+        }
+      });
+    }
+  }
+
+  private static checkDataSources(rdl: RDLMergeDocument, report: LintReporter): void {
+    const dataSources = this.namesOf(rdl, ['DataSources'], 'DataSource');
+
+    for (const dataSourceName of this.descendants(rdl, 'DataSourceName')) {
+      const name = dataSourceName.textContent?.trim() || '';
+      if (dataSources.includes(name)) continue;
+
+      report(dataSourceName, {
+        rule: 'orphaned-datasource',
+        severity: 'error',
+        message: `DataSourceName "${name}" does not match any data source in the report`,
+        fix: dataSources.length === 1 ? {
+          description: `Use data source "${dataSources[0]}"`,
+          apply: target => { target.textContent = dataSources[0]; }
+        } : undefined
+      });
+    }
+  }
+
+  private static checkDataSetReferences(rdl: RDLMergeDocument, report: LintReporter): void {
+    const dataSets = this.namesOf(rdl, ['DataSets'], 'DataSet');
+
+    for (const dataSetName of this.descendants(rdl, 'DataSetName')) {
+      const name = dataSetName.textContent?.trim() || '';
+      if (dataSets.includes(name)) continue;
+
+      report(dataSetName, {
+        rule: 'unknown-dataset',
+        severity: 'error',
+        message: `DataSetName "${name}" does not match any dataset in the report`,
+        fix: dataSets.length === 1 ? {
+          description: `Use dataset "${dataSets[0]}"`,
+          apply: target => { target.textContent = dataSets[0]; }
+        } : undefined
+      });
+    }
+  }
+
+  private static checkFieldReferences(rdl: RDLMergeDocument, report: LintReporter): void {
+    const fieldsByDataSet = new Map<string, string[]>();
+    const dataSetsElement = RDLMergeEngine.findElement(rdl.root, ['DataSets']);
+    for (const dataSet of dataSetsElement ? RDLMergeEngine.childElements(dataSetsElement, 'DataSet') : []) {
+      const fields = RDLMergeEngine.findElement(dataSet, ['Fields']);
+      fieldsByDataSet.set(
+        dataSet.getAttribute('Name') || '',
+        fields ? RDLMergeEngine.childElements(fields, 'Field').map(field => field.getAttribute('Name') || '') : []
+      );
+    }
+    const onlyDataSet = fieldsByDataSet.size === 1 ? Array.from(fieldsByDataSet.keys())[0] : null;
+
+    for (const element of Array.from(rdl.root.getElementsByTagName('*'))) {
+      if (element.children.length > 0) continue;
+      const expression = element.textContent || '';
+      if (!expression.trim().startsWith('=') || !expression.includes('Fields!')) continue;
+
+      const inPageSection = this.closest(element, ['PageHeader', 'PageFooter']) !== null;
+      const references = expression.matchAll(/Fields!(\w+)(?:\.\w+)?(?:\s*,\s*"([^"]+)")?/g);
+
+      for (const [reference, fieldName, explicitScope] of references) {
+        const scope = explicitScope || this.dataSetScope(element) || (inPageSection ? null : onlyDataSet);
+        if (inPageSection && !explicitScope) {
+          report(element, {
+            rule: 'field-in-page-section',
+            severity: 'error',
+            message: `${reference} is used in a page header or footer without a dataset scope`,
+            fix: onlyDataSet ? {
+              description: `Scope the field references to dataset "${onlyDataSet}"`,
+              apply: target => { target.textContent = RDLHeaderExpressions.scopeToDataSet(target.textContent || '', onlyDataSet); }
+            } : undefined
+          });
+          continue;
+        }
+
+        const fields = scope !== null ? fieldsByDataSet.get(scope) : undefined;
+        if (!fields || fields.includes(fieldName)) continue;
+
+        const caseMatch = fields.find(field => field.toLowerCase() === fieldName.toLowerCase());
+        report(element, {
+          rule: 'unknown-field',
+          severity: 'error',
+          message: `Field "${fieldName}" does not exist in dataset "${scope}"`,
+          fix: caseMatch ? {
+            description: `Use Fields!${caseMatch}`,
+            apply: target => {
+              target.textContent = (target.textContent || '').replace(new RegExp(`Fields!${fieldName}\\b`, 'g'), `Fields!${caseMatch}`);
+            }
+          } : undefined
+        });
+      }
+    }
+  }
+
+  private static checkLayout(rdl: RDLMergeDocument, report: LintReporter): void {
+    const sections = RDLMergeEngine.findElement(rdl.root, ['ReportSections']);
+    // 2008 reports keep Body, Width and Page directly under Report
+    const sectionElements = sections ? RDLMergeEngine.childElements(sections, 'ReportSection') : [rdl.root];
+
+    for (const section of sectionElements) {
+      const widthElement = RDLMergeEngine.findElement(section, ['Width']);
+      const bodyWidth = this.parseSize(widthElement?.textContent);
+      const page = RDLMergeEngine.findElement(section, ['Page']);
+      if (!widthElement || bodyWidth === null) continue;
+
+      const containers = ['Body', 'Page/PageHeader', 'Page/PageFooter']
+        .map(path => RDLMergeEngine.findElement(section, [...path.split('/'), 'ReportItems']))
+        .filter((items): items is Element => items !== null);
+
+      let rightmostEdge = 0;
+      for (const container of containers) {
+        const items = this.itemBounds(container);
+        items.forEach(item => { rightmostEdge = Math.max(rightmostEdge, item.left + item.width); });
+
+        for (const item of items) {
+          if (item.left + item.width <= bodyWidth + SIZE_TOLERANCE) continue;
+          const fitsInBody = item.width <= bodyWidth;
+          report(item.element, {
+            rule: 'outside-body',
+            severity: 'warning',
+            message: `${item.element.localName} "${item.element.getAttribute('Name')}" ends at ${this.formatInches(item.left + item.width)}, beyond the body width of ${this.formatInches(bodyWidth)}`,
+            fix: fitsInBody ? {
+              description: `Move it to Left ${this.formatInches(bodyWidth - item.width)}`,
+              apply: target => this.setSize(rdl, target, 'Left', bodyWidth - item.width)
+            } : undefined
+          });
+        }
+
+        this.checkOverlaps(items, report);
+      }
+
+      if (!page) continue;
+      const pageWidth = this.parseSize(RDLMergeEngine.findElement(page, ['PageWidth'])?.textContent) ?? DEFAULT_PAGE_WIDTH;
+      const margins = (this.parseSize(RDLMergeEngine.findElement(page, ['LeftMargin'])?.textContent) ?? 0)
+        + (this.parseSize(RDLMergeEngine.findElement(page, ['RightMargin'])?.textContent) ?? 0);
+
+      if (bodyWidth + margins > pageWidth + SIZE_TOLERANCE) {
+        const availableWidth = pageWidth - margins;
+        report(widthElement, {
+          rule: 'page-too-wide',
+          severity: 'warning',
+          message: `Body width ${this.formatInches(bodyWidth)} plus margins ${this.formatInches(margins)} exceeds the page width of ${this.formatInches(pageWidth)}, which adds blank pages`,
+          fix: rightmostEdge <= availableWidth + SIZE_TOLERANCE && availableWidth > 0 ? {
+            description: `Reduce the body width to ${this.formatInches(availableWidth)}`,
+            apply: target => { target.textContent = this.formatInches(availableWidth); }
+          } : undefined
+        });
+      }
+    }
+
+    // Rectangles are containers too; their children are checked against each other
+    for (const rectangle of this.descendants(rdl, 'Rectangle')) {
+      const items = RDLMergeEngine.findElement(rectangle, ['ReportItems']);
+      if (items) this.checkOverlaps(this.itemBounds(items), report);
+    }
+  }
+
+  private static checkOverlaps(items: ItemBounds[], report: LintReporter): void {
+    // Lines are usually drawn on top of other items on purpose, and hidden items never render
+    const boxes = items.filter(item =>
+      item.element.localName !== 'Line' && !this.isHidden(item.element) && item.width > 0 && item.height > 0
+    );
+
+    boxes.forEach((item, index) => {
+      const other = boxes.slice(0, index).find(previous =>
+        item.left < previous.left + previous.width - SIZE_TOLERANCE &&
+        previous.left < item.left + item.width - SIZE_TOLERANCE &&
+        item.top < previous.top + previous.height - SIZE_TOLERANCE &&
+        previous.top < item.top + item.height - SIZE_TOLERANCE
+      );
+      if (!other) return;
+
+      report(item.element, {
+        rule: 'overlapping-items',
+        severity: 'warning',
+        message: `${item.element.localName} "${item.element.getAttribute('Name')}" overlaps ${other.element.localName} "${other.element.getAttribute('Name')}"; renderers other than the web viewer may shift or clip them`
+      });
+    });
+  }
+
+  private static checkParameters(rdl: RDLMergeDocument, report: LintReporter): void {
+    const parameters = RDLMergeEngine.findElement(rdl.root, ['ReportParameters']);
+    if (!parameters) return;
+
+    // Expressions, query parameters and other parameters' defaults and valid values can all use a parameter
+    const leaves = Array.from(rdl.root.getElementsByTagName('*')).filter(element => element.children.length === 0);
+
+    for (const parameter of RDLMergeEngine.childElements(parameters, 'ReportParameter')) {
+      const name = parameter.getAttribute('Name') || '';
+      const referencedText = leaves
+        .filter(element => !parameter.contains(element))
+        .map(element => element.textContent || '')
+        .join('\n');
+      if (new RegExp(`Parameters!${name}\\b`).test(referencedText)) continue;
+
+      // No autofix: subscriptions, URL access and subreports can set a parameter the report never reads
+      report(parameter, {
+        rule: 'unused-parameter',
+        severity: 'warning',
+        message: `Parameter "${name}" is not used by any expression or query`
+      });
+    }
+  }
+
+  // Dataset an expression is evaluated against: its own dataset for calculated fields,
+  // otherwise the nearest data region that names one
+  private static dataSetScope(element: Element): string | null {
+    for (let current = element.parentElement; current; current = current.parentElement) {
+      if (current.localName === 'DataSet') return current.getAttribute('Name');
+      const dataSetName = RDLMergeEngine.childElements(current, 'DataSetName')[0];
+      if (dataSetName) return dataSetName.textContent?.trim() || null;
+    }
+    return null;
+  }
+
+  private static isHidden(element: Element): boolean {
+    return RDLMergeEngine.findElement(element, ['Visibility', 'Hidden'])?.textContent?.trim().toLowerCase() === 'true';
+  }
+
+  private static itemBounds(reportItems: Element): ItemBounds[] {
+    return RDLMergeEngine.childElements(reportItems)
+      .filter(element => REPORT_ITEM_TYPES.includes(element.localName))
+      .map(element => ({
+        element,
+        top: this.parseSize(RDLMergeEngine.findElement(element, ['Top'])?.textContent) ?? 0,
+        left: this.parseSize(RDLMergeEngine.findElement(element, ['Left'])?.textContent) ?? 0,
+        width: this.parseSize(RDLMergeEngine.findElement(element, ['Width'])?.textContent) ?? 0,
+        height: this.parseSize(RDLMergeEngine.findElement(element, ['Height'])?.textContent) ?? 0
+      }));
+  }
+
+  private static reportItems(rdl: RDLMergeDocument): Element[] {
+    return Array.from(rdl.root.getElementsByTagNameNS(rdl.namespace, '*')).filter(element =>
+      REPORT_ITEM_TYPES.includes(element.localName) &&
+      ['ReportItems', 'CellContents'].includes(element.parentElement?.localName || '')
+    );
+  }
+
+  private static descendants(rdl: RDLMergeDocument, localName: string): Element[] {
+    return Array.from(rdl.root.getElementsByTagNameNS(rdl.namespace, localName));
+  }
+
+  private static namesOf(rdl: RDLMergeDocument, path: string[], localName: string): string[] {
+    const parent = RDLMergeEngine.findElement(rdl.root, path);
+    return parent ? RDLMergeEngine.childElements(parent, localName).map(element => element.getAttribute('Name') || '') : [];
+  }
+
+  private static closest(element: Element, localNames: string[]): Element | null {
+    for (let current = element.parentElement; current; current = current.parentElement) {
+      if (localNames.includes(current.localName)) return current;
+    }
+    return null;
+  }
+
+  private static setSize(rdl: RDLMergeDocument, item: Element, localName: string, inches: number): void {
+    const existing = RDLMergeEngine.findElement(item, [localName]);
+    if (existing) {
+      existing.textContent = this.formatInches(inches);
+    } else {
+      RDLMergeEngine.replaceOrInsert(rdl, item, `<ns0:${localName}>${this.formatInches(inches)}</ns0:${localName}>`);
+    }
+  }
+
+  private static parseSize(value: string | null | undefined): number | null {
+    const match = value?.trim().match(/^([-+]?(?:\d+(?:\.\d*)?|\.\d+))\s*(in|cm|mm|pt|pc)$/);
+    return match ? parseFloat(match[1]) * UNIT_INCHES[match[2]] : null;
+  }
+
+  private static formatInches(inches: number): string {
+    return `${Number(inches.toFixed(5))}in`;
+  }
+}
@@ -0,0 +1,69 @@
+// Source line and path of elements in a parsed RDL document. DOMParser keeps no
+// positions, so lines come from a scan of the start tags in the original text.
+
+export class RDLLocator {
+  private lines: number[];
+  private elementIndex = new Map<Element, number>();
+
+  constructor(xml: string, document: Document) {
+    this.lines = RDLLocator.elementLines(xml);
+    Array.from(document.getElementsByTagName('*')).forEach((element, index) => this.elementIndex.set(element, index));
+  }
+
+  lineOf(element: Element): number {
+    return this.lines[this.elementIndex.get(element) ?? 0] ?? 1;
+  }
+
+  // e.g. /Report/ReportSections/ReportSection/Body/ReportItems/Textbox[@Name='Title']
+  static pathOf(element: Element): string {
+    const steps: string[] = [];
+    for (let current: Element | null = element; current; current = current.parentElement) {
+      steps.unshift(this.step(current));
+    }
+    return '/' + steps.join('/');
+  }
+
+  // Element at a path produced by pathOf
+  static resolve(root: Element, path: string): Element | null {
+    const steps = path.split('/').filter(Boolean);
+    if (steps.length === 0 || this.step(root) !== steps[0]) return null;
+
+    let current: Element | null = root;
+    for (const step of steps.slice(1)) {
+      current = current && Array.from(current.children).find(child => this.step(child) === step) || null;
+    }
+    return current;
+  }
+
+  private static step(element: Element): string {
+    const name = element.getAttribute('Name');
+    const label = name ? `${element.localName}[@Name='${name}']` : element.localName;
+
+    // Position among siblings that would otherwise share the step, e.g. duplicate names
+    const parent = element.parentElement;
+    const alike = parent
+      ? Array.from(parent.children).filter(child => child.localName === element.localName && child.getAttribute('Name') === name)
+      : [element];
+    return alike.length > 1 ? `${label}[${alike.indexOf(element) + 1}]` : label;
+  }
+
+  // Line of every start tag in document order, which is also getElementsByTagName order
+  private static elementLines(xml: string): number[] {
+    const lines: number[] = [];
+    const tokens = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<([A-Za-z_][\w.:-]*)|\n/g;
+    let line = 1;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokens.exec(xml)) !== null) {
+      if (match[0] === '\n') {
+        line++;
+      } else if (match[1]) {
+        lines.push(line);
+      } else {
+        line += match[0].split('\n').length - 1;
+      }
+    }
+
+    return lines;
+  }
+}
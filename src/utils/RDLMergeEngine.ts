@@ -0,0 +1,204 @@
+// Namespace-aware merging of generated XML into a base RDL. Elements are found by
+// path, so everything the merge does not target (CodeModules, EmbeddedImages,
+// Classes, other datasets...) is left exactly as it was in the base document.
+
+export interface RDLMergeDocument {
+  document: Document;
+  root: Element;
+  // RDL namespace of the base report (2008, 2010 or 2016 schema)
+  namespace: string;
+  // Prefixes the base uses; '' when report elements are in the default namespace
+  reportPrefix: string;
+  designerPrefix: string;
+  // BOM and XML declaration, which the serializer does not reproduce
+  prolog: string;
+  lineBreak: '\n' | '\r\n';
+}
+
+export class RDLMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RDLMergeError';
+  }
+}
+
+export class RDLMergeEngine {
+  static readonly DESIGNER_NAMESPACE = 'http://schemas.microsoft.com/SQLServer/reporting/reportdesigner';
+  private static readonly XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/';
+
+  static parse(rdlContent: string): RDLMergeDocument {
+    const prolog = rdlContent.match(/^\uFEFF?(?:<\?xml[^>]*\?>\s*)?/)?.[0] ?? '';
+    const document = new DOMParser().parseFromString(rdlContent.slice(prolog.length), 'application/xml');
+    const parseError = document.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+      throw new RDLMergeError(`The base RDL is not well-formed XML: ${parseError.textContent?.trim()}`);
+    }
+
+    const root = document.documentElement;
+    if (root.localName !== 'Report') {
+      throw new RDLMergeError(`Expected a <Report> root element but found <${root.tagName}>`);
+    }
+
+    if (!root.namespaceURI) {
+      throw new RDLMergeError('The base RDL does not declare the report definition namespace on <Report>');
+    }
+
+    // Generated items use rd:DefaultName and rd:TypeName, so the designer namespace must be declared
+    let designerPrefix = root.lookupPrefix(this.DESIGNER_NAMESPACE);
+    if (!designerPrefix) {
+      designerPrefix = 'rd';
+      root.setAttributeNS(this.XMLNS_NAMESPACE, `xmlns:${designerPrefix}`, this.DESIGNER_NAMESPACE);
+    }
+
+    return {
+      document,
+      root,
+      namespace: root.namespaceURI,
+      reportPrefix: root.prefix || '',
+      designerPrefix,
+      prolog,
+      lineBreak: rdlContent.includes('\r\n') ? '\r\n' : '\n'
+    };
+  }
+
+  static serialize(rdl: RDLMergeDocument): string {
+    const xml = new XMLSerializer().serializeToString(rdl.document)
+      // Keep Report Builder's "<Style />" spelling of empty elements
+      .replace(/<([^<>]*[^\s<>/])\/>/g, '<$1 />');
+    const body = rdl.lineBreak === '\r\n' ? xml.replace(/\r?\n/g, '\r\n') : xml;
+    return rdl.prolog + body;
+  }
+
+  // First element along a path of RDL element names, e.g. ['ReportSections', 'ReportSection', 'Body']
+  static findElement(parent: Element, path: string[]): Element | null {
+    let current: Element | null = parent;
+    for (const localName of path) {
+      current = current && this.childElements(current, localName)[0] || null;
+    }
+    return current;
+  }
+
+  // First path that resolves; covers the 2008 layout (Body directly under Report) and 2010+ ReportSections
+  static findFirst(parent: Element, paths: string[][]): Element | null {
+    for (const path of paths) {
+      const element = this.findElement(parent, path);
+      if (element) return element;
+    }
+    return null;
+  }
+
+  static childElements(parent: Element, localName?: string): Element[] {
+    return Array.from(parent.children).filter(child =>
+      child.namespaceURI === parent.namespaceURI && (!localName || child.localName === localName)
+    );
+  }
+
+  static findNamed(parent: Element, localName: string, name: string): Element | null {
+    return this.childElements(parent, localName).find(child => child.getAttribute('Name') === name) || null;
+  }
+
+  // Child element, created before `before` (by default as the first child) when the base does not have one yet
+  static ensureElement(
+    rdl: RDLMergeDocument,
+    parent: Element,
+    localName: string,
+    before: Element | null = RDLMergeEngine.childElements(parent)[0] || null
+  ): Element {
+    const existing = this.childElements(parent, localName)[0];
+    if (existing) return existing;
+
+    const element = rdl.document.createElementNS(rdl.namespace, this.qualifiedName(parent, localName));
+    this.insertChild(parent, element, before);
+    element.appendChild(rdl.document.createTextNode(this.indentationOf(element)));
+    return element;
+  }
+
+  // Parse generated XML into nodes owned by the base document. Fragments may use the
+  // base's own prefixes or the ns0 (report) / ns1 (designer) prefixes.
+  static parseFragment(rdl: RDLMergeDocument, xml: string): Element[] {
+    const prefixes = new Map<string, string>([
+      ['ns0', rdl.namespace],
+      ['ns1', this.DESIGNER_NAMESPACE],
+      [rdl.designerPrefix, this.DESIGNER_NAMESPACE]
+    ]);
+    if (rdl.reportPrefix) prefixes.set(rdl.reportPrefix, rdl.namespace);
+
+    const declarations = [
+      `xmlns="${rdl.namespace}"`,
+      ...Array.from(prefixes, ([prefix, namespace]) => `xmlns:${prefix}="${namespace}"`)
+    ].join(' ');
+
+    const fragment = new DOMParser().parseFromString(`<Fragment ${declarations}>${xml}</Fragment>`, 'application/xml');
+    const parseError = fragment.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+      throw new RDLMergeError(`Generated RDL fragment is not well-formed: ${parseError.textContent?.trim()}`);
+    }
+
+    return Array.from(fragment.documentElement.children).map(element =>
+      rdl.document.importNode(element, true) as Element
+    );
+  }
+
+  // Replace the child with the same element name, or insert the fragment before `before`
+  static replaceOrInsert(rdl: RDLMergeDocument, parent: Element, xml: string, before: Element | null = null): Element[] {
+    const elements = this.parseFragment(rdl, xml);
+    for (const element of elements) {
+      const existing = this.childElements(parent, element.localName)[0];
+      if (existing) {
+        parent.replaceChild(element, existing);
+      } else {
+        this.insertChild(parent, element, before);
+      }
+    }
+    return elements;
+  }
+
+  // Replace children that have the same element name and Name attribute; append the rest
+  static upsertNamed(rdl: RDLMergeDocument, parent: Element, xml: string): Element[] {
+    const elements = this.parseFragment(rdl, xml);
+    for (const element of elements) {
+      const name = element.getAttribute('Name');
+      const existing = name ? this.findNamed(parent, element.localName, name) : null;
+      if (existing) {
+        parent.replaceChild(element, existing);
+      } else {
+        this.insertChild(parent, element, null);
+      }
+    }
+    return elements;
+  }
+
+  // Insert with the indentation the surrounding siblings use
+  private static insertChild(parent: Element, element: Element, before: Element | null): void {
+    const document = parent.ownerDocument;
+    const childIndent = this.indentationOf(parent) + '  ';
+
+    if (before) {
+      parent.insertBefore(element, before);
+      parent.insertBefore(document.createTextNode(childIndent), before);
+      return;
+    }
+
+    // Append ahead of the whitespace that closes the parent
+    const trailing = parent.lastChild;
+    if (trailing && trailing.nodeType === Node.TEXT_NODE && !trailing.textContent?.trim()) {
+      parent.insertBefore(document.createTextNode(childIndent), trailing);
+      parent.insertBefore(element, trailing);
+    } else {
+      parent.appendChild(document.createTextNode(childIndent));
+      parent.appendChild(element);
+      parent.appendChild(document.createTextNode(this.indentationOf(parent)));
+    }
+  }
+
+  private static indentationOf(element: Element): string {
+    const previous = element.previousSibling;
+    const whitespace = previous && previous.nodeType === Node.TEXT_NODE ? previous.textContent || '' : '';
+    const lastLine = whitespace.slice(whitespace.lastIndexOf('\n') + 1);
+    return '\n' + (/^\s*$/.test(lastLine) ? lastLine : '');
+  }
+
+  private static qualifiedName(parent: Element, localName: string): string {
+    return parent.prefix ? `${parent.prefix}:${localName}` : localName;
+  }
+}
@@ -0,0 +1,94 @@
+// Page size, orientation and margins for a generated report, taken from the PDF page
+// and the outermost content on it. Sizes are in points (1/72in) like PDF coordinates.
+import { LayoutBounds } from './RDLGraphicsLayout';
+
+export type RDLPaperSize = 'Letter' | 'Legal' | 'A4' | 'Custom';
+
+export interface RDLPageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface RDLPageSetup {
+  paperSize: RDLPaperSize;
+  orientation: 'Portrait' | 'Landscape';
+  pageWidth: number;
+  pageHeight: number;
+  margins: RDLPageMargins;
+  // Widest body that fits between the left and right margins
+  bodyWidth: number;
+  // Page height left between the top and bottom margins
+  printableHeight: number;
+}
+
+export class RDLPageLayout {
+  // Portrait dimensions; a page matches in either orientation
+  private static readonly PAPER_SIZES: Array<{ name: RDLPaperSize; width: number; height: number }> = [
+    { name: 'Letter', width: 612, height: 792 },
+    { name: 'Legal', width: 612, height: 1008 },
+    { name: 'A4', width: 595.28, height: 841.89 }
+  ];
+  // Points of slack when matching a page to a paper size
+  private static readonly SIZE_TOLERANCE = 3;
+  private static readonly DEFAULT_MARGIN = 72;
+  // Inferred margins are rounded down to 0.05in and kept at or under an inch
+  private static readonly MARGIN_STEP = 3.6;
+  private static readonly MAX_MARGIN = 72;
+
+  // Without a PDF page size the report is Letter portrait with one-inch margins
+  static fromPDF(pageWidth?: number, pageHeight?: number, content: LayoutBounds[] = []): RDLPageSetup {
+    const letter = this.PAPER_SIZES[0];
+    const width = pageWidth > 0 ? pageWidth : letter.width;
+    const height = pageHeight > 0 ? pageHeight : letter.height;
+    const orientation = width > height ? 'Landscape' : 'Portrait';
+
+    // Snap near-matches (e.g. A4 from a scanner at 595x842) to the exact paper size
+    const paper = this.PAPER_SIZES.find(size =>
+      Math.abs(Math.min(width, height) - size.width) <= this.SIZE_TOLERANCE &&
+      Math.abs(Math.max(width, height) - size.height) <= this.SIZE_TOLERANCE
+    );
+    const [snappedWidth, snappedHeight] = paper
+      ? (orientation === 'Landscape' ? [paper.height, paper.width] : [paper.width, paper.height])
+      : [width, height];
+
+    const margins = this.inferMargins(snappedWidth, snappedHeight, content);
+    return {
+      paperSize: paper?.name || 'Custom',
+      orientation,
+      pageWidth: snappedWidth,
+      pageHeight: snappedHeight,
+      margins,
+      bodyWidth: snappedWidth - margins.left - margins.right,
+      printableHeight: snappedHeight - margins.top - margins.bottom
+    };
+  }
+
+  // e.g. 612 -> "8.5in"
+  static toInches(points: number): string {
+    return `${Number((points / 72).toFixed(4))}in`;
+  }
+
+  private static inferMargins(pageWidth: number, pageHeight: number, content: LayoutBounds[]): RDLPageMargins {
+    const visible = content.filter(bounds => bounds.width > 0 || bounds.height > 0);
+    if (visible.length === 0) {
+      const margin = Math.min(this.DEFAULT_MARGIN, pageWidth / 4, pageHeight / 4);
+      return { top: margin, right: margin, bottom: margin, left: margin };
+    }
+
+    const left = Math.min(...visible.map(bounds => bounds.x));
+    const top = Math.min(...visible.map(bounds => bounds.y));
+    const right = Math.max(...visible.map(bounds => bounds.x + bounds.width));
+    const bottom = Math.max(...visible.map(bounds => bounds.y + bounds.height));
+
+    const toMargin = (space: number) =>
+      Math.floor(Math.min(Math.max(0, space), this.MAX_MARGIN) / this.MARGIN_STEP) * this.MARGIN_STEP;
+    return {
+      top: toMargin(top),
+      right: toMargin(pageWidth - right),
+      bottom: toMargin(pageHeight - bottom),
+      left: toMargin(left)
+    };
+  }
+}
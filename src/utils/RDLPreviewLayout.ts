@@ -0,0 +1,664 @@
+// Lays out a generated or merged RDL for preview: PageHeader, Body and PageFooter are
+// stacked on the page from their heights and margins, and report items are placed from
+// their Top/Left with resolved styles. Tablix cells become items of their own. Sizes
+// are in points (1/72in) from the top-left corner of the page.
+// Given sample data, expressions are evaluated, detail rows repeat for each row and a
+// growing Tablix pushes the items below it down; without it, expressions are shown the
+// way Report Builder shows them.
+import { RDLMergeEngine, RDLMergeError } from './RDLMergeEngine';
+import { RDLExpressionContext, RDLExpressionEvaluator, RDLSampleRow, RDLValue } from './RDLExpressionEvaluator';
+import { RDLSampleData } from './RDLSampleDataLoader';
+
+export type RDLPreviewSectionKind = 'header' | 'body' | 'footer';
+
+export interface RDLPreviewBorder {
+  style: 'Solid' | 'Dashed' | 'Dotted' | 'Double';
+  color: string;
+  width: number;
+}
+
+// null where a side has no border
+export interface RDLPreviewBorders {
+  top: RDLPreviewBorder | null;
+  right: RDLPreviewBorder | null;
+  bottom: RDLPreviewBorder | null;
+  left: RDLPreviewBorder | null;
+}
+
+export interface RDLPreviewTextStyle {
+  fontFamily: string;
+  fontSize: number;
+  // CSS weight, e.g. 400 or 700
+  fontWeight: number;
+  fontStyle: 'normal' | 'italic';
+  color: string;
+  underline: boolean;
+  lineThrough: boolean;
+}
+
+export interface RDLPreviewTextRun {
+  // Value as written in the RDL
+  value: string;
+  // What the preview shows: the formatted value, #Error, or without sample data the
+  // expression as Report Builder shows it, e.g. [InvoiceNum]
+  text: string;
+  style: RDLPreviewTextStyle;
+}
+
+export interface RDLPreviewParagraph {
+  runs: RDLPreviewTextRun[];
+  textAlign: 'left' | 'center' | 'right' | 'justify';
+}
+
+interface RDLPreviewBox {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  backgroundColor?: string;
+  borders: RDLPreviewBorders;
+}
+
+export interface RDLPreviewTextbox extends RDLPreviewBox {
+  kind: 'textbox';
+  paragraphs: RDLPreviewParagraph[];
+  verticalAlign: 'top' | 'middle' | 'bottom';
+  padding: { top: number; right: number; bottom: number; left: number };
+}
+
+export interface RDLPreviewRectangle extends RDLPreviewBox {
+  kind: 'rectangle';
+  items: RDLPreviewItem[];
+}
+
+export interface RDLPreviewImage extends RDLPreviewBox {
+  kind: 'image';
+  source: 'Embedded' | 'External' | 'Database';
+  // Data URL of an embedded image or the address of an external one; database images have none
+  url?: string;
+  sizing: 'AutoSize' | 'Fit' | 'FitProportional' | 'Clip';
+}
+
+export interface RDLPreviewLine {
+  kind: 'line';
+  name: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  border: RDLPreviewBorder;
+}
+
+export interface RDLPreviewTablixRow {
+  y: number;
+  height: number;
+  // Groups of the row's member in the row hierarchy, outermost first; empty for static rows
+  groups: string[];
+  cells: RDLPreviewItem[];
+}
+
+export interface RDLPreviewTablix extends RDLPreviewBox {
+  kind: 'tablix';
+  dataSetName?: string;
+  rows: RDLPreviewTablixRow[];
+}
+
+export type RDLPreviewItem = RDLPreviewTextbox | RDLPreviewRectangle | RDLPreviewImage | RDLPreviewLine | RDLPreviewTablix;
+
+export interface RDLPreviewSection {
+  kind: RDLPreviewSectionKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  items: RDLPreviewItem[];
+}
+
+export interface RDLPreviewPage {
+  width: number;
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+  sections: RDLPreviewSection[];
+}
+
+// Style properties as written on an element, before inheritance and defaults
+type StyleValues = Record<string, string>;
+
+interface ItemGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Embedded images by name, and the expression context when previewing with sample data
+interface LayoutScope {
+  images: Map<string, string>;
+  context?: RDLExpressionContext;
+}
+
+// A row of the TablixRows, once for each group instance it repeats for
+interface ExpandedRow {
+  index: number;
+  groups: string[];
+  headerWidth: number;
+  hidden: boolean;
+  context?: RDLExpressionContext;
+}
+
+export class RDLPreviewLayout {
+  // Points per unit
+  private static readonly UNIT_POINTS: Record<string, number> = { in: 72, cm: 72 / 2.54, mm: 72 / 25.4, pt: 1, pc: 12 };
+  // US Letter, the designer's default page
+  private static readonly DEFAULT_PAGE = { width: 612, height: 792 };
+  private static readonly FONT_WEIGHTS: Record<string, number> = {
+    thin: 100, extralight: 200, light: 300, normal: 400, medium: 500, semibold: 600, bold: 700, extrabold: 800, heavy: 900
+  };
+  private static readonly BORDER_SIDES = ['top', 'right', 'bottom', 'left'] as const;
+  // Points of slack when deciding whether an item starts below a growing one
+  private static readonly POSITION_TOLERANCE = 0.5;
+  // A preview renders one page
+  private static readonly GLOBALS: Record<string, RDLValue> = {
+    PageNumber: 1, TotalPages: 1, OverallPageNumber: 1, OverallTotalPages: 1,
+    PageName: '', ReportName: 'Report', ReportFolder: '/', ReportServerUrl: ''
+  };
+  private static readonly USER: Record<string, RDLValue> = { UserID: 'preview', Language: 'en-US' };
+
+  static fromRDL(rdlContent: string, sampleData?: RDLSampleData): RDLPreviewPage {
+    const rdl = RDLMergeEngine.parse(rdlContent);
+    const sections = RDLMergeEngine.findElement(rdl.root, ['ReportSections']);
+    // 2008 reports keep Body, Width and the page settings directly under Report
+    const section = sections ? RDLMergeEngine.childElements(sections, 'ReportSection')[0] : rdl.root;
+    if (!section) throw new RDLMergeError('The report has no ReportSection to preview');
+    const page = RDLMergeEngine.findElement(section, ['Page']) || section;
+
+    const size = (parent: Element | null, name: string, fallback: number) =>
+      (parent && this.parseSize(RDLMergeEngine.findElement(parent, [name])?.textContent)) ?? fallback;
+    const margins = {
+      top: size(page, 'TopMargin', 0),
+      right: size(page, 'RightMargin', 0),
+      bottom: size(page, 'BottomMargin', 0),
+      left: size(page, 'LeftMargin', 0)
+    };
+    const pageWidth = size(page, 'PageWidth', this.DEFAULT_PAGE.width);
+    const pageHeight = size(page, 'PageHeight', this.DEFAULT_PAGE.height);
+    const bodyWidth = size(section, 'Width', pageWidth - margins.left - margins.right);
+    const scope: LayoutScope = {
+      images: this.embeddedImages(rdl.root),
+      context: sampleData && this.expressionContext(rdl.root, sampleData)
+    };
+
+    const layoutSection = (kind: RDLPreviewSectionKind, element: Element | null, y: number): RDLPreviewSection | null => {
+      if (!element) return null;
+      const x = margins.left;
+      const reportItems = RDLMergeEngine.findElement(element, ['ReportItems']);
+      const { items, growth } = reportItems ? this.layoutItems(reportItems, x, y, scope) : { items: [], growth: 0 };
+      return {
+        kind,
+        x,
+        y,
+        width: kind === 'body' ? bodyWidth : pageWidth - margins.left - margins.right,
+        height: size(element, 'Height', 0) + growth,
+        items
+      };
+    };
+
+    // The body is laid out first so header and footer expressions can read its ReportItems
+    const headerElement = RDLMergeEngine.findElement(page, ['PageHeader']);
+    const body = layoutSection('body', RDLMergeEngine.findElement(section, ['Body']), margins.top + size(headerElement, 'Height', 0));
+    const header = layoutSection('header', headerElement, margins.top);
+    const footerElement = RDLMergeEngine.findElement(page, ['PageFooter']);
+    const bodyBottom = body ? body.y + body.height : margins.top + (header?.height || 0);
+    // The footer sits at the bottom of the page, or under a body taller than one page
+    const footerTop = Math.max(bodyBottom, pageHeight - margins.bottom - size(footerElement, 'Height', 0));
+    const footer = layoutSection('footer', footerElement, footerTop);
+
+    const laidOut = [header, body, footer].filter((item): item is RDLPreviewSection => item !== null);
+    return {
+      width: Math.max(pageWidth, margins.left + bodyWidth + margins.right),
+      height: Math.max(pageHeight, ...laidOut.map(item => item.y + item.height + margins.bottom)),
+      margins,
+      sections: laidOut
+    };
+  }
+
+  // How Report Builder shows an expression on the design surface
+  static designerText(value: string): string {
+    if (!value.trim().startsWith('=')) return value;
+    const expression = value.trim().slice(1).trim();
+
+    const field = expression.match(/^Fields!(\w+)\.Value$/i);
+    if (field) return `[${field[1]}]`;
+    const aggregate = expression.match(/^(\w+)\(\s*Fields!(\w+)\.Value\s*(?:,\s*"[^"]*"\s*)?\)$/i);
+    if (aggregate) return `[${aggregate[1]}(${aggregate[2]})]`;
+    const global = expression.match(/^Globals!(\w+)$/i);
+    if (global) return `[&${global[1]}]`;
+    const parameter = expression.match(/^Parameters!(\w+)\.Value$/i);
+    if (parameter) return `[@${parameter[1]}]`;
+    return '<<Expr>>';
+  }
+
+  // Items in ZIndex order, later items on top. A Tablix or Rectangle that grows or shrinks
+  // moves the items that start below it; growth is how much taller the container gets.
+  private static layoutItems(
+    reportItems: Element,
+    originX: number,
+    originY: number,
+    scope: LayoutScope
+  ): { items: RDLPreviewItem[]; growth: number } {
+    const laidOut = RDLMergeEngine.childElements(reportItems)
+      .filter(element => !this.isHidden(element, scope.context))
+      .map((element, index) => ({ element, index, zIndex: Number(RDLMergeEngine.findElement(element, ['ZIndex'])?.textContent) || 0 }))
+      .sort((a, b) => a.zIndex - b.zIndex || a.index - b.index)
+      .map(({ element }) => {
+        const geometry = this.geometry(element, originX, originY);
+        return { geometry, item: this.layoutItem(element, geometry, scope) };
+      })
+      .filter((entry): entry is { geometry: ItemGeometry; item: RDLPreviewItem } => entry.item !== null);
+
+    const resized = laidOut
+      .filter(({ geometry, item }) => item.kind !== 'line' && item.height !== geometry.height)
+      .map(({ geometry, item }) => ({ bottom: geometry.y + geometry.height, change: (item as RDLPreviewBox).height - geometry.height }));
+
+    let growth = 0;
+    const items = laidOut.map(({ geometry, item }) => {
+      const shift = resized
+        .filter(({ bottom }) => geometry.y >= bottom - this.POSITION_TOLERANCE)
+        .reduce((sum, { change }) => sum + change, 0);
+      const ownChange = item.kind !== 'line' ? item.height - geometry.height : 0;
+      growth = Math.max(growth, shift + ownChange);
+      return shift ? this.translate(item, shift) : item;
+    });
+    return { items, growth };
+  }
+
+  private static layoutItem(element: Element, geometry: ItemGeometry, scope: LayoutScope): RDLPreviewItem | null {
+    const name = element.getAttribute('Name') || '';
+    const style = this.styleValues(element, scope.context);
+    const box = {
+      name,
+      ...geometry,
+      backgroundColor: this.color(style.BackgroundColor),
+      borders: this.borders(element, scope.context)
+    };
+
+    switch (element.localName) {
+      case 'Textbox':
+        return { kind: 'textbox', ...box, ...this.textboxContent(element, style, scope.context) };
+      case 'Rectangle': {
+        const reportItems = RDLMergeEngine.findElement(element, ['ReportItems']);
+        const { items, growth } = reportItems ? this.layoutItems(reportItems, geometry.x, geometry.y, scope) : { items: [], growth: 0 };
+        return { kind: 'rectangle', ...box, height: box.height + growth, items };
+      }
+      case 'Image':
+        return { kind: 'image', ...box, ...this.imageSource(element, scope) };
+      case 'Line':
+        return {
+          kind: 'line',
+          name,
+          x1: geometry.x,
+          y1: geometry.y,
+          x2: geometry.x + geometry.width,
+          y2: geometry.y + geometry.height,
+          border: this.borders(element, scope.context).top || { style: 'Solid', color: 'Black', width: 1 }
+        };
+      case 'Tablix':
+        return this.layoutTablix(element, box, scope);
+      default:
+        return null;
+    }
+  }
+
+  // Line widths and heights may be negative, so they are not clamped
+  private static geometry(element: Element, originX: number, originY: number): ItemGeometry {
+    const size = (name: string) => this.parseSize(RDLMergeEngine.findElement(element, [name])?.textContent) ?? 0;
+    return { x: originX + size('Left'), y: originY + size('Top'), width: size('Width'), height: size('Height') };
+  }
+
+  private static textboxContent(
+    element: Element,
+    style: StyleValues,
+    context?: RDLExpressionContext
+  ): Pick<RDLPreviewTextbox, 'paragraphs' | 'verticalAlign' | 'padding'> {
+    const paragraphs = RDLMergeEngine.findElement(element, ['Paragraphs']);
+    const padding = (name: string) => this.parseSize(this.constant(style[name])) ?? 0;
+    const values: RDLValue[] = [];
+
+    const content: Pick<RDLPreviewTextbox, 'paragraphs' | 'verticalAlign' | 'padding'> = {
+      paragraphs: (paragraphs ? RDLMergeEngine.childElements(paragraphs, 'Paragraph') : []).map(paragraph => {
+        const paragraphStyle = { ...style, ...this.styleValues(paragraph, context) };
+        const textRuns = RDLMergeEngine.findElement(paragraph, ['TextRuns']);
+        return {
+          runs: (textRuns ? RDLMergeEngine.childElements(textRuns, 'TextRun') : []).map(run => {
+            const valueElement = RDLMergeEngine.findElement(run, ['Value']);
+            const value = valueElement?.textContent || '';
+            const runStyle = { ...paragraphStyle, ...this.styleValues(run, context) };
+            let text = value;
+            if (valueElement?.getAttribute('EvaluationMode') === 'Constant') {
+              values.push(value);
+            } else if (!context) {
+              text = this.designerText(value);
+            } else {
+              try {
+                const result = RDLExpressionEvaluator.evaluate(value, context);
+                values.push(result);
+                const format = this.constant(runStyle.Format);
+                text = (format ? RDLExpressionEvaluator.format(result, format) : RDLExpressionEvaluator.toText(result)).replace(/\r\n?/g, '\n');
+              } catch {
+                // The report server shows failed expressions the same way
+                text = '#Error';
+              }
+            }
+            return { value, text, style: this.textStyle(runStyle) };
+          }),
+          textAlign: this.textAlign(paragraphStyle.TextAlign)
+        };
+      }),
+      verticalAlign: ({ middle: 'middle', bottom: 'bottom' } as const)[this.constant(style.VerticalAlign)?.toLowerCase() || ''] || 'top',
+      padding: { top: padding('PaddingTop'), right: padding('PaddingRight'), bottom: padding('PaddingBottom'), left: padding('PaddingLeft') }
+    };
+
+    // ReportItems!Name.Value is the textbox's value, or its text when it has several runs
+    if (context) {
+      context.reportItems[element.getAttribute('Name') || ''] = values.length === 1
+        ? values[0]
+        : content.paragraphs.map(paragraph => paragraph.runs.map(run => run.text).join('')).join('\n');
+    }
+    return content;
+  }
+
+  private static imageSource(element: Element, scope: LayoutScope): Pick<RDLPreviewImage, 'source' | 'url' | 'sizing'> {
+    const text = (name: string) => RDLMergeEngine.findElement(element, [name])?.textContent?.trim() || '';
+    const source = (['Embedded', 'External', 'Database'] as const).find(candidate => candidate === text('Source')) || 'Embedded';
+    // Database images need image bytes, which sample rows do not carry
+    const value = this.constant(source === 'Database' ? '' : this.evaluated(text('Value'), scope.context));
+    const sizing = (['Fit', 'FitProportional', 'Clip'] as const).find(candidate => candidate === text('Sizing')) || 'AutoSize';
+
+    return {
+      source,
+      url: source === 'Embedded' ? scope.images.get(value || '') : source === 'External' ? value : undefined,
+      sizing
+    };
+  }
+
+  private static embeddedImages(root: Element): Map<string, string> {
+    const images = new Map<string, string>();
+    const embedded = RDLMergeEngine.findElement(root, ['EmbeddedImages']);
+    for (const image of embedded ? RDLMergeEngine.childElements(embedded, 'EmbeddedImage') : []) {
+      const mimeType = RDLMergeEngine.findElement(image, ['MIMEType'])?.textContent?.trim() || 'image/png';
+      const data = RDLMergeEngine.findElement(image, ['ImageData'])?.textContent?.replace(/\s+/g, '') || '';
+      images.set(image.getAttribute('Name') || '', `data:${mimeType};base64,${data}`);
+    }
+    return images;
+  }
+
+  // Columns come from TablixColumns and rows from TablixRows; each leaf of the row hierarchy
+  // is one row, repeated for every instance of the groups above it
+  private static layoutTablix(element: Element, box: RDLPreviewBox, scope: LayoutScope): RDLPreviewTablix {
+    const dataSetName = RDLMergeEngine.findElement(element, ['DataSetName'])?.textContent?.trim() || undefined;
+    const body = RDLMergeEngine.findElement(element, ['TablixBody']);
+    const columnList = body && RDLMergeEngine.findElement(body, ['TablixColumns']);
+    const rowList = body && RDLMergeEngine.findElement(body, ['TablixRows']);
+    const columnWidths = (columnList ? RDLMergeEngine.childElements(columnList, 'TablixColumn') : [])
+      .map(column => this.parseSize(RDLMergeEngine.findElement(column, ['Width'])?.textContent) ?? 0);
+    const rowElements = rowList ? RDLMergeEngine.childElements(rowList, 'TablixRow') : [];
+    const dataRows = scope.context && dataSetName ? scope.context.scopes[dataSetName] || [] : [];
+    const members = this.expandMembers(
+      RDLMergeEngine.findElement(element, ['TablixRowHierarchy', 'TablixMembers']),
+      0,
+      { groups: [], headerWidth: 0, hidden: false },
+      scope.context && { ...scope.context, rows: dataRows, row: dataRows[0] }
+    ).filter(member => rowElements[member.index]);
+
+    // Row header columns sit to the left of the body columns
+    const rowHeaderWidth = members[0]?.headerWidth || 0;
+    const columnLeft = columnWidths.map((_, index) => rowHeaderWidth + columnWidths.slice(0, index).reduce((sum, width) => sum + width, 0));
+    const rowHeights = members.map(member =>
+      member.hidden ? 0 : this.parseSize(RDLMergeEngine.findElement(rowElements[member.index], ['Height'])?.textContent) ?? 0
+    );
+    const rowTop = rowHeights.map((_, index) => rowHeights.slice(0, index).reduce((sum, height) => sum + height, 0));
+
+    const rows: RDLPreviewTablixRow[] = members.map((member, rowIndex) => {
+      const row = rowElements[member.index];
+      const cellScope = { ...scope, context: member.context };
+      const cellList = RDLMergeEngine.findElement(row, ['TablixCells']);
+      const cells: RDLPreviewItem[] = [];
+
+      // Every row has a TablixCell per column; cells covered by a span have no contents
+      (cellList ? RDLMergeEngine.childElements(cellList, 'TablixCell') : []).forEach((cell, column) => {
+        const contents = RDLMergeEngine.findElement(cell, ['CellContents']);
+        if (!contents) return;
+        const span = (name: string) => Math.max(1, Number(RDLMergeEngine.findElement(contents, [name])?.textContent) || 1);
+        const colSpan = span('ColSpan');
+        const rowSpan = span('RowSpan');
+
+        const item = RDLMergeEngine.childElements(contents).find(child => child.localName !== 'ColSpan' && child.localName !== 'RowSpan');
+        if (item && rowHeights[rowIndex] > 0 && !this.isHidden(item, member.context)) {
+          // A cell's item fills the cell; its own Top, Left and size are ignored
+          const geometry = {
+            x: box.x + (columnLeft[column] ?? 0),
+            y: box.y + rowTop[rowIndex],
+            width: columnWidths.slice(column, column + colSpan).reduce((sum, width) => sum + width, 0),
+            height: rowHeights.slice(rowIndex, rowIndex + rowSpan).reduce((sum, height) => sum + height, 0)
+          };
+          const laidOut = this.layoutItem(item, geometry, cellScope);
+          if (laidOut) cells.push(laidOut);
+        }
+      });
+
+      return { y: box.y + rowTop[rowIndex], height: rowHeights[rowIndex], groups: member.groups, cells };
+    });
+
+    const height = rowHeights.reduce((sum, rowHeight) => sum + rowHeight, 0);
+    return {
+      kind: 'tablix',
+      ...box,
+      width: rowHeaderWidth + columnWidths.reduce((sum, width) => sum + width, 0) || box.width,
+      // With sample data an empty dataset leaves only the static rows
+      height: scope.context ? height : height || box.height,
+      dataSetName,
+      rows
+    };
+  }
+
+  // Leaf members in document order with the groups above them and the width of their row
+  // headers. With a context, a group member repeats its subtree for each group instance
+  // and Hidden expressions are evaluated; without one, every group has a single instance.
+  private static expandMembers(
+    members: Element | null,
+    firstIndex: number,
+    parent: Pick<ExpandedRow, 'groups' | 'headerWidth' | 'hidden'>,
+    context?: RDLExpressionContext
+  ): ExpandedRow[] {
+    if (!members) return [];
+    const expanded: ExpandedRow[] = [];
+    let index = firstIndex;
+
+    for (const member of RDLMergeEngine.childElements(members, 'TablixMember')) {
+      const groupElement = RDLMergeEngine.findElement(member, ['Group']);
+      const group = groupElement?.getAttribute('Name') || undefined;
+      const children = RDLMergeEngine.findElement(member, ['TablixMembers']);
+      const memberRow = {
+        groups: group ? [...parent.groups, group] : parent.groups,
+        headerWidth: parent.headerWidth + (this.parseSize(RDLMergeEngine.findElement(member, ['TablixHeader', 'Size'])?.textContent) ?? 0)
+      };
+
+      const instances = groupElement && context ? this.groupInstances(groupElement, context) : [context];
+      for (const instance of instances) {
+        const hidden = parent.hidden || this.isHidden(member, instance);
+        expanded.push(...(children
+          ? this.expandMembers(children, index, { ...memberRow, hidden }, instance)
+          : [{ index, ...memberRow, hidden, context: instance }]));
+      }
+      index += this.leafCount(member);
+    }
+    return expanded;
+  }
+
+  // Rows with equal GroupExpressions values form one instance, in order of first appearance.
+  // A details group (no GroupExpressions) has one instance per row; those keep the parent
+  // group's rows as their scope so RowNumber(Nothing) counts within it.
+  private static groupInstances(group: Element, context: RDLExpressionContext): RDLExpressionContext[] {
+    const name = group.getAttribute('Name') || '';
+    const expressionList = RDLMergeEngine.findElement(group, ['GroupExpressions']);
+    const expressions = (expressionList ? RDLMergeEngine.childElements(expressionList, 'GroupExpression') : [])
+      .map(expression => expression.textContent || '');
+
+    if (expressions.length === 0) {
+      return context.rows.map(row => ({ ...context, row, scopes: { ...context.scopes, [name]: [row] } }));
+    }
+
+    const instances = new Map<string, RDLSampleRow[]>();
+    for (const row of context.rows) {
+      const key = JSON.stringify(expressions.map(expression => this.evaluated(expression, { ...context, row }) ?? '#Error'));
+      instances.set(key, [...(instances.get(key) || []), row]);
+    }
+    return Array.from(instances.values()).map(rows => ({ ...context, rows, row: rows[0], scopes: { ...context.scopes, [name]: rows } }));
+  }
+
+  private static leafCount(member: Element): number {
+    const children = RDLMergeEngine.findElement(member, ['TablixMembers']);
+    return children
+      ? RDLMergeEngine.childElements(children, 'TablixMember').reduce((sum, child) => sum + this.leafCount(child), 0)
+      : 1;
+  }
+
+  private static translate(item: RDLPreviewItem, dy: number): RDLPreviewItem {
+    switch (item.kind) {
+      case 'line':
+        return { ...item, y1: item.y1 + dy, y2: item.y2 + dy };
+      case 'rectangle':
+        return { ...item, y: item.y + dy, items: item.items.map(child => this.translate(child, dy)) };
+      case 'tablix':
+        return {
+          ...item,
+          y: item.y + dy,
+          rows: item.rows.map(row => ({ ...row, y: row.y + dy, cells: row.cells.map(cell => this.translate(cell, dy)) }))
+        };
+      default:
+        return { ...item, y: item.y + dy };
+    }
+  }
+
+  // Hidden expressions are evaluated with sample data and otherwise left visible
+  private static isHidden(element: Element, context?: RDLExpressionContext): boolean {
+    const hidden = this.evaluated(RDLMergeEngine.findElement(element, ['Visibility', 'Hidden'])?.textContent?.trim() || '', context);
+    return hidden?.toLowerCase() === 'true';
+  }
+
+  // Text of a value or expression; expressions without a context, or that fail, give undefined
+  private static evaluated(value: string, context?: RDLExpressionContext): string | undefined {
+    if (!value.startsWith('=')) return value;
+    if (!context) return undefined;
+    try {
+      return RDLExpressionEvaluator.toText(RDLExpressionEvaluator.evaluate(value, context));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Parameters start at their constant defaults; the sample data may override them
+  private static expressionContext(root: Element, sampleData: RDLSampleData): RDLExpressionContext {
+    const dataSetList = RDLMergeEngine.findElement(root, ['DataSets']);
+    const dataSetNames = (dataSetList ? RDLMergeEngine.childElements(dataSetList, 'DataSet') : []).map(dataSet => dataSet.getAttribute('Name') || '');
+    const scopes: Record<string, RDLSampleRow[]> = { ...sampleData.dataSets };
+    for (const name of dataSetNames) scopes[name] = scopes[name] || [];
+    // Outside data regions, fields read the first row of a report's only dataset
+    const rows = dataSetNames.length === 1 ? scopes[dataSetNames[0]] : [];
+
+    const context: RDLExpressionContext = {
+      scopes,
+      rows,
+      row: rows[0],
+      parameters: {},
+      globals: { ...this.GLOBALS, ExecutionTime: new Date() },
+      user: { ...this.USER },
+      reportItems: {}
+    };
+
+    const parameterList = RDLMergeEngine.findElement(root, ['ReportParameters']);
+    for (const parameter of parameterList ? RDLMergeEngine.childElements(parameterList, 'ReportParameter') : []) {
+      const defaultValue = RDLMergeEngine.findElement(parameter, ['DefaultValue', 'Values', 'Value'])?.textContent;
+      if (defaultValue !== null && defaultValue !== undefined) {
+        context.parameters[parameter.getAttribute('Name') || ''] = this.evaluated(defaultValue, context) ?? null;
+      }
+    }
+    Object.assign(context.parameters, sampleData.parameters);
+    return context;
+  }
+
+  private static styleValues(element: Element, context?: RDLExpressionContext): StyleValues {
+    return this.propertyValues(RDLMergeEngine.findElement(element, ['Style']), context);
+  }
+
+  // Simple child properties by name. Expressions are evaluated with sample data; ones that
+  // cannot be are left out.
+  private static propertyValues(parent: Element | null, context?: RDLExpressionContext): StyleValues {
+    const values: StyleValues = {};
+    for (const child of parent ? RDLMergeEngine.childElements(parent) : []) {
+      if (RDLMergeEngine.childElements(child).length > 0) continue;
+      const value = child.textContent?.trim() || '';
+      values[child.localName] = context ? this.evaluated(value, context) ?? '' : value;
+    }
+    return values;
+  }
+
+  private static textStyle(style: StyleValues): RDLPreviewTextStyle {
+    const decoration = this.constant(style.TextDecoration)?.toLowerCase();
+    return {
+      fontFamily: this.constant(style.FontFamily) || 'Arial',
+      fontSize: this.parseSize(this.constant(style.FontSize)) ?? 10,
+      fontWeight: this.FONT_WEIGHTS[this.constant(style.FontWeight)?.toLowerCase() || ''] || 400,
+      fontStyle: this.constant(style.FontStyle)?.toLowerCase() === 'italic' ? 'italic' : 'normal',
+      color: this.color(style.Color) || 'Black',
+      underline: decoration === 'underline',
+      lineThrough: decoration === 'linethrough'
+    };
+  }
+
+  private static textAlign(value?: string): RDLPreviewParagraph['textAlign'] {
+    const align = this.constant(value)?.toLowerCase();
+    return align === 'center' || align === 'right' || align === 'justify' ? align : 'left';
+  }
+
+  // Border sets the default for every side; TopBorder, RightBorder... override it per side
+  private static borders(element: Element, context?: RDLExpressionContext): RDLPreviewBorders {
+    const style = RDLMergeEngine.findElement(element, ['Style']);
+    const values = (name: string) => this.propertyValues(style && RDLMergeEngine.findElement(style, [name]), context);
+
+    const defaults = values('Border');
+    const borders = {} as RDLPreviewBorders;
+    for (const side of this.BORDER_SIDES) {
+      const border = { ...defaults, ...values(`${side[0].toUpperCase()}${side.slice(1)}Border`) };
+      const lineStyle = this.constant(border.Style) || 'None';
+      borders[side] = ['Solid', 'Dashed', 'Dotted', 'Double'].includes(lineStyle)
+        ? {
+          style: lineStyle as RDLPreviewBorder['style'],
+          color: this.color(border.Color) || 'Black',
+          width: this.parseSize(this.constant(border.Width)) ?? 1
+        }
+        : null;
+    }
+    return borders;
+  }
+
+  // Transparent and expression colors are left to the default
+  private static color(value?: string): string | undefined {
+    const color = this.constant(value);
+    if (!color || color.toLowerCase() === 'transparent') return undefined;
+    // #AARRGGBB in RDL is #RRGGBBAA in CSS
+    const argb = color.match(/^#([\da-f]{2})([\da-f]{6})$/i);
+    return argb ? `#${argb[2]}${argb[1]}` : color;
+  }
+
+  // Style values that are expressions depend on data and fall back to defaults
+  private static constant(value?: string): string | undefined {
+    return value && !value.startsWith('=') ? value : undefined;
+  }
+
+  private static parseSize(value: string | null | undefined): number | null {
+    const match = value?.trim().match(/^([-+]?(?:\d+(?:\.\d*)?|\.\d+))\s*(in|cm|mm|pt|pc)$/);
+    return match ? parseFloat(match[1]) * this.UNIT_POINTS[match[2]] : null;
+  }
+}
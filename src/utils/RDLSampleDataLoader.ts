@@ -0,0 +1,217 @@
+// Sample rows for previewing a report with data: loaded from a JSON or CSV file, or built
+// from the values printed in the source PDF and the fields the RDL binds them to.
+import { RDLMergeEngine } from './RDLMergeEngine';
+import { RDLSampleRow, RDLValue } from './RDLExpressionEvaluator';
+
+export interface RDLSampleData {
+  dataSets: Record<string, RDLSampleRow[]>;
+  // Override the report parameters' default values
+  parameters: Record<string, RDLValue>;
+}
+
+// Values the PDF analysis captured
+export interface PDFSampleValues {
+  // Data rows of each table in page order, without the header row
+  tables: string[][][];
+  // Printed text of header and footer values with the expression each one is bound to
+  values: Array<{ expression: string; value: string }>;
+}
+
+export class RDLSampleDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RDLSampleDataError';
+  }
+}
+
+export class RDLSampleDataLoader {
+  // Key of the parameter values in a JSON sample file
+  private static readonly PARAMETERS_KEY = 'Parameters';
+
+  static dataSetNames(rdlContent: string): string[] {
+    return this.dataSetNamesIn(RDLMergeEngine.parse(rdlContent).root);
+  }
+
+  // Either an array of rows for dataSet, or an object of row arrays by dataset name
+  // with optional parameter values under "Parameters"
+  static fromJSON(text: string, dataSet: string): RDLSampleData {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new RDLSampleDataError(`The sample data is not valid JSON: ${(error as Error).message}`);
+    }
+
+    if (Array.isArray(json)) return { dataSets: { [dataSet]: this.toRows(json, dataSet) }, parameters: {} };
+    if (!json || typeof json !== 'object') throw new RDLSampleDataError('Sample JSON must be an array of rows or an object of datasets');
+
+    const data: RDLSampleData = { dataSets: {}, parameters: {} };
+    for (const [name, value] of Object.entries(json)) {
+      if (name === this.PARAMETERS_KEY && value && typeof value === 'object' && !Array.isArray(value)) {
+        data.parameters = this.toRow(value as Record<string, unknown>);
+      } else if (Array.isArray(value)) {
+        data.dataSets[name] = this.toRows(value, name);
+      } else {
+        throw new RDLSampleDataError(`"${name}" in the sample JSON is not an array of rows`);
+      }
+    }
+    return data;
+  }
+
+  // Comma-separated with a header row of field names; quoted values may hold commas, quotes and line breaks
+  static fromCSV(text: string, dataSet: string): RDLSampleData {
+    const [header, ...records] = this.parseCSV(text.replace(/^\uFEFF/, '')).filter(record => record.some(cell => cell.trim() !== ''));
+    if (!header) throw new RDLSampleDataError('The sample CSV is empty');
+
+    const names = header.map(name => name.trim());
+    const rows = records.map(record => {
+      const row: RDLSampleRow = {};
+      // Plain numbers become numbers; everything else stays text for the expressions to convert
+      names.forEach((name, index) => {
+        const cell = record[index] ?? '';
+        row[name] = /^-?\d+(?:\.\d+)?$/.test(cell.trim()) ? Number(cell) : cell;
+      });
+      return row;
+    });
+    return { dataSets: { [dataSet]: rows }, parameters: {} };
+  }
+
+  // Table rows fill the fields of the detail row of the Tablix in the same position; bound
+  // header values are the same on every row of their dataset, since they describe the document
+  static fromPDF(rdlContent: string, captured: PDFSampleValues): RDLSampleData {
+    const root = RDLMergeEngine.parse(rdlContent).root;
+    const dataSetNames = this.dataSetNamesIn(root);
+    const dataSets: Record<string, RDLSampleRow[]> = {};
+
+    const tablixes = Array.from(root.getElementsByTagName('*')).filter(element => element.localName === 'Tablix');
+    tablixes.forEach((tablix, index) => {
+      const table = captured.tables[index];
+      const dataSet = RDLMergeEngine.findElement(tablix, ['DataSetName'])?.textContent?.trim();
+      if (!table || !dataSet) return;
+
+      const columns = this.detailFields(tablix);
+      const keyFields = this.innermostGroupFields(tablix);
+      const rows = table.map((cells, rowIndex) => {
+        const row: RDLSampleRow = {};
+        columns.forEach((field, column) => {
+          if (field && cells[column] !== undefined) row[field] = cells[column];
+        });
+        // The PDF rarely prints the innermost group's key; numbering the rows keeps each one its own instance
+        for (const field of keyFields) {
+          if (!(field in row)) row[field] = rowIndex + 1;
+        }
+        return row;
+      });
+      dataSets[dataSet] = [...(dataSets[dataSet] || []), ...rows];
+    });
+
+    for (const { expression, value } of captured.values) {
+      const field = expression.match(/Fields!(\w+)\.Value/)?.[1];
+      const scope = expression.match(/,\s*"([^"]+)"\s*\)/)?.[1];
+      const dataSet = scope && dataSetNames.includes(scope) ? scope : dataSetNames[0];
+      if (!field || !dataSet || !value.trim()) continue;
+
+      const rows = dataSets[dataSet] || (dataSets[dataSet] = [{}]);
+      if (rows.length === 0) rows.push({});
+      for (const row of rows) {
+        if (!(field in row)) row[field] = value;
+      }
+    }
+
+    return { dataSets, parameters: {} };
+  }
+
+  private static dataSetNamesIn(root: Element): string[] {
+    const dataSets = RDLMergeEngine.findElement(root, ['DataSets']);
+    return (dataSets ? RDLMergeEngine.childElements(dataSets, 'DataSet') : []).map(dataSet => dataSet.getAttribute('Name') || '');
+  }
+
+  // Fields in the GroupExpressions of the most deeply nested row group
+  private static innermostGroupFields(tablix: Element): string[] {
+    const depth = (element: Element) => {
+      let count = 0;
+      for (let parent = element.parentElement; parent && parent !== tablix; parent = parent.parentElement) count++;
+      return count;
+    };
+    const hierarchy = RDLMergeEngine.findElement(tablix, ['TablixRowHierarchy']);
+    const groups = hierarchy ? Array.from(hierarchy.getElementsByTagName('*')).filter(element => element.localName === 'Group') : [];
+    const innermost = groups.sort((a, b) => depth(b) - depth(a))[0];
+    const expressions = innermost ? Array.from(innermost.getElementsByTagName('*')).filter(element => element.localName === 'GroupExpression') : [];
+    return expressions
+      .map(expression => expression.textContent?.trim().match(/^=Fields!(\w+)\.Value$/)?.[1])
+      .filter((field): field is string => !!field);
+  }
+
+  // Field shown in each column of the Tablix row with the most simple field references;
+  // cells covered by a span are still listed, so each cell is one column
+  private static detailFields(tablix: Element): Array<string | undefined> {
+    const rowList = RDLMergeEngine.findElement(tablix, ['TablixBody', 'TablixRows']);
+    let best: Array<string | undefined> = [];
+
+    for (const row of rowList ? RDLMergeEngine.childElements(rowList, 'TablixRow') : []) {
+      const cellList = RDLMergeEngine.findElement(row, ['TablixCells']);
+      const fields: Array<string | undefined> = [];
+      for (const cell of cellList ? RDLMergeEngine.childElements(cellList, 'TablixCell') : []) {
+        const values = Array.from(cell.getElementsByTagName('*')).filter(element => element.localName === 'Value');
+        fields.push(values.map(value => value.textContent?.trim().match(/^=Fields!(\w+)\.Value$/)?.[1]).find(Boolean));
+      }
+      if (fields.filter(Boolean).length > best.filter(Boolean).length) best = fields;
+    }
+    return best;
+  }
+
+  private static toRows(items: unknown[], dataSet: string): RDLSampleRow[] {
+    return items.map((item, index) => {
+      if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        throw new RDLSampleDataError(`Row ${index + 1} of "${dataSet}" is not an object`);
+      }
+      return this.toRow(item as Record<string, unknown>);
+    });
+  }
+
+  // Nested objects and arrays are kept as their JSON text
+  private static toRow(item: Record<string, unknown>): RDLSampleRow {
+    const row: RDLSampleRow = {};
+    for (const [key, value] of Object.entries(item)) {
+      row[key] = value === null || ['string', 'number', 'boolean'].includes(typeof value)
+        ? value as RDLValue
+        : JSON.stringify(value);
+    }
+    return row;
+  }
+
+  private static parseCSV(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        records.push([...record, cell]);
+        record = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell !== '' || record.length > 0) records.push([...record, cell]);
+    return records;
+  }
+}
@@ -0,0 +1,456 @@
+// Content models of the report definition XSDs (2008/01, 2010/01 and 2016/01) that
+// RDLSchemaValidator checks against. Like the XSDs, every complex type accepts
+// elements from other namespaces (rd: designer data and extensions) anywhere.
+
+export type RDLSchemaVersion = '2008' | '2010' | '2016';
+
+export interface RDLSimpleType {
+  description: string;
+  pattern?: RegExp;
+  values?: readonly string[];
+  // Whether an "=..." expression is accepted in place of a literal
+  expression?: boolean;
+}
+
+export interface RDLComplexType {
+  // Child element name -> type name, suffixed with ! (required), + (required, repeatable)
+  // or * (repeatable); unsuffixed children are optional and may appear once
+  children: Record<string, string>;
+  // Requires a Name attribute
+  named?: boolean;
+  // Accepts RDL children this model does not list (chart, gauge and map internals)
+  open?: boolean;
+}
+
+export interface RDLSchemaDefinition {
+  version: RDLSchemaVersion;
+  namespace: string;
+  complexTypes: Record<string, RDLComplexType>;
+  simpleTypes: Record<string, RDLSimpleType>;
+}
+
+const SIZE_PATTERN = /^\s*[-+]?(\d+(\.\d*)?|\.\d+)\s*(in|cm|mm|pt|pc)\s*$/;
+
+const SIMPLE_TYPES: Record<string, RDLSimpleType> = {
+  String: { description: 'a string' },
+  Boolean: { description: 'true or false', values: ['true', 'false'] },
+  BooleanExpression: { description: 'true, false or an expression', values: ['true', 'false'], expression: true },
+  Integer: { description: 'an integer', pattern: /^\s*[-+]?\d+\s*$/ },
+  Size: { description: 'a size such as 1in, 2.5cm or 10pt', pattern: SIZE_PATTERN },
+  StyleSize: { description: 'a size such as 1in, 2.5cm or 10pt', pattern: SIZE_PATTERN, expression: true },
+  Color: { description: 'a color name or #RRGGBB value', pattern: /^\s*(#[0-9a-fA-F]{6}|#[0-9a-fA-F]{8}|[A-Za-z]+)\s*$/, expression: true },
+  BorderStyle: {
+    description: 'a border style',
+    values: ['Default', 'None', 'Dotted', 'Dashed', 'Solid', 'Double', 'DashDot', 'DashDotDot', 'Groove', 'Ridge', 'Inset', 'WindowInset', 'Outset'],
+    expression: true
+  },
+  FontStyle: { description: 'a font style', values: ['Default', 'Normal', 'Italic'], expression: true },
+  FontWeight: {
+    description: 'a font weight',
+    values: ['Default', 'Lighter', 'Thin', 'ExtraLight', 'Light', 'Normal', 'Medium', 'SemiBold', 'Bold', 'ExtraBold', 'Heavy', 'Bolder'],
+    expression: true
+  },
+  TextDecoration: { description: 'a text decoration', values: ['Default', 'None', 'Underline', 'Overline', 'LineThrough'], expression: true },
+  TextAlign: { description: 'a text alignment', values: ['Default', 'General', 'Left', 'Center', 'Right', 'Justify'], expression: true },
+  VerticalAlign: { description: 'a vertical alignment', values: ['Default', 'Top', 'Middle', 'Bottom'], expression: true },
+  CommandType: { description: 'a command type', values: ['Text', 'StoredProcedure', 'TableDirect'] },
+  ParameterDataType: { description: 'a parameter data type', values: ['Boolean', 'DateTime', 'Integer', 'Float', 'String'] },
+  UsedInQuery: { description: 'False, True or Auto', values: ['False', 'True', 'Auto'] },
+  ImageSource: { description: 'an image source', values: ['External', 'Embedded', 'Database'] },
+  ImageSizing: { description: 'an image sizing mode', values: ['AutoSize', 'Fit', 'FitProportional', 'Clip'] },
+  KeepWithGroup: { description: 'None, Before or After', values: ['None', 'Before', 'After'] },
+  SortDirection: { description: 'Ascending or Descending', values: ['Ascending', 'Descending'], expression: true },
+  ListStyle: { description: 'a list style', values: ['None', 'Numbered', 'Bulleted'], expression: true },
+  MarkupType: { description: 'None or HTML', values: ['None', 'HTML'], expression: true },
+  DataElementOutput: { description: 'a data element output', values: ['Output', 'NoOutput', 'ContentsOnly', 'Auto'] },
+  DataElementStyle: { description: 'Auto, Attribute or Element', values: ['Auto', 'Attribute', 'Element'] },
+  LayoutDirection: { description: 'LTR or RTL', values: ['LTR', 'RTL'] }
+};
+
+// Children every report item accepts
+const REPORT_ITEM: Record<string, string> = {
+  Style: 'Style',
+  Action: 'Open',
+  Top: 'Size',
+  Left: 'Size',
+  Height: 'Size',
+  Width: 'Size',
+  ZIndex: 'Integer',
+  Visibility: 'Visibility',
+  ToolTip: 'String',
+  DocumentMapLabel: 'String',
+  Bookmark: 'String',
+  RepeatWith: 'String',
+  CustomProperties: 'Open',
+  DataElementName: 'String',
+  DataElementOutput: 'DataElementOutput'
+};
+
+// Report items that can sit in a ReportItems collection or a Tablix cell
+const REPORT_ITEM_TYPES = ['Line', 'Rectangle', 'Textbox', 'Image', 'Subreport', 'Tablix', 'Chart', 'GaugePanel', 'Map', 'CustomReportItem'];
+
+const BORDER: RDLComplexType = {
+  children: { Color: 'Color', Style: 'BorderStyle', Width: 'StyleSize' }
+};
+
+const PAGE_SECTION: RDLComplexType = {
+  children: {
+    Height: 'Size!',
+    PrintOnFirstPage: 'Boolean',
+    PrintOnLastPage: 'Boolean',
+    PrintBetweenSections: 'Boolean',
+    ReportItems: 'ReportItems',
+    Style: 'Style'
+  }
+};
+
+const COMPLEX_TYPES: Record<string, RDLComplexType> = {
+  // Checked for being an element only; the XSDs define these in detail but nothing here generates them
+  Open: { children: {}, open: true },
+
+  Report: {
+    children: {
+      Description: 'String',
+      Author: 'String',
+      AutoRefresh: 'Integer',
+      InitialPageName: 'String',
+      DataSources: 'DataSources',
+      DataSets: 'DataSets',
+      ReportSections: 'ReportSections!',
+      ReportParameters: 'ReportParameters',
+      ReportParametersLayout: 'ReportParametersLayout',
+      CustomProperties: 'Open',
+      Code: 'String',
+      EmbeddedImages: 'EmbeddedImages',
+      Language: 'String',
+      CodeModules: 'CodeModules',
+      Classes: 'Classes',
+      DataTransform: 'String',
+      DataSchema: 'String',
+      DataElementName: 'String',
+      DataElementStyle: 'DataElementStyle',
+      ConsumeContainerWhitespace: 'Boolean',
+      Variables: 'Open',
+      DeferVariableEvaluation: 'Boolean',
+      DocumentMap: 'Open'
+    }
+  },
+
+  DataSources: { children: { DataSource: 'DataSource+' } },
+  DataSource: {
+    named: true,
+    children: { Transaction: 'Boolean', ConnectionProperties: 'ConnectionProperties', DataSourceReference: 'String' }
+  },
+  ConnectionProperties: {
+    children: { DataProvider: 'String!', ConnectString: 'String!', IntegratedSecurity: 'Boolean', Prompt: 'String' }
+  },
+
+  DataSets: { children: { DataSet: 'DataSet+' } },
+  DataSet: {
+    named: true,
+    children: {
+      Query: 'Query',
+      SharedDataSet: 'Open',
+      Fields: 'Fields',
+      Filters: 'Open',
+      CaseSensitivity: 'String',
+      Collation: 'String',
+      AccentSensitivity: 'String',
+      KanatypeSensitivity: 'String',
+      WidthSensitivity: 'String',
+      InterpretSubtotalsAsDetails: 'String'
+    }
+  },
+  Query: {
+    children: {
+      DataSourceName: 'String!',
+      CommandType: 'CommandType',
+      CommandText: 'String!',
+      QueryParameters: 'Open',
+      Timeout: 'Integer'
+    }
+  },
+  Fields: { children: { Field: 'Field+' } },
+  Field: { named: true, children: { DataField: 'String', Value: 'String' } },
+
+  ReportSections: { children: { ReportSection: 'ReportSection+' } },
+  ReportSection: {
+    children: { Body: 'Body!', Width: 'Size!', Page: 'Page!', DataElementName: 'String', DataElementOutput: 'DataElementOutput' }
+  },
+  Body: { children: { ReportItems: 'ReportItems', Height: 'Size!', Style: 'Style' } },
+  Page: {
+    children: {
+      PageHeader: 'PageSection',
+      PageFooter: 'PageSection',
+      PageHeight: 'Size',
+      PageWidth: 'Size',
+      InteractiveHeight: 'Size',
+      InteractiveWidth: 'Size',
+      LeftMargin: 'Size',
+      RightMargin: 'Size',
+      TopMargin: 'Size',
+      BottomMargin: 'Size',
+      Columns: 'Integer',
+      ColumnSpacing: 'Size',
+      Style: 'Style'
+    }
+  },
+  PageSection: PAGE_SECTION,
+
+  ReportItems: { children: Object.fromEntries(REPORT_ITEM_TYPES.map(type => [type, `${type}*`])) },
+  Line: { named: true, children: { ...REPORT_ITEM } },
+  Rectangle: {
+    named: true,
+    children: {
+      ...REPORT_ITEM,
+      ReportItems: 'ReportItems',
+      PageBreak: 'Open',
+      PageName: 'String',
+      KeepTogether: 'Boolean',
+      OmitBorderOnPageBreak: 'Boolean',
+      LinkToChild: 'String'
+    }
+  },
+  Textbox: {
+    named: true,
+    children: {
+      ...REPORT_ITEM,
+      CanGrow: 'Boolean',
+      CanShrink: 'Boolean',
+      HideDuplicates: 'String',
+      ToggleImage: 'Open',
+      UserSort: 'Open',
+      Paragraphs: 'Paragraphs!',
+      KeepTogether: 'Boolean',
+      DataElementStyle: 'DataElementStyle'
+    }
+  },
+  Paragraphs: { children: { Paragraph: 'Paragraph+' } },
+  Paragraph: {
+    children: {
+      TextRuns: 'TextRuns!',
+      Style: 'Style',
+      LeftIndent: 'StyleSize',
+      RightIndent: 'StyleSize',
+      HangingIndent: 'StyleSize',
+      ListStyle: 'ListStyle',
+      ListLevel: 'Integer',
+      SpaceBefore: 'StyleSize',
+      SpaceAfter: 'StyleSize'
+    }
+  },
+  TextRuns: { children: { TextRun: 'TextRun+' } },
+  TextRun: {
+    children: { Value: 'String!', Label: 'String', ToolTip: 'String', MarkupType: 'MarkupType', Style: 'Style', Action: 'Open' }
+  },
+  Image: {
+    named: true,
+    children: {
+      ...REPORT_ITEM,
+      Source: 'ImageSource!',
+      Value: 'String!',
+      MIMEType: 'String',
+      Sizing: 'ImageSizing',
+      ImageMapAreas: 'Open'
+    }
+  },
+  Subreport: {
+    named: true,
+    children: {
+      ...REPORT_ITEM,
+      ReportName: 'String!',
+      Parameters: 'Parameters',
+      NoRowsMessage: 'String',
+      MergeTransactions: 'Boolean',
+      KeepTogether: 'Boolean',
+      OmitBorderOnPageBreak: 'Boolean'
+    }
+  },
+  Parameters: { children: { Parameter: 'Parameter+' } },
+  Parameter: { named: true, children: { Value: 'String!', Omit: 'String' } },
+
+  Tablix: {
+    named: true,
+    children: {
+      ...REPORT_ITEM,
+      TablixCorner: 'Open',
+      TablixBody: 'TablixBody!',
+      TablixColumnHierarchy: 'TablixHierarchy!',
+      TablixRowHierarchy: 'TablixHierarchy!',
+      LayoutDirection: 'LayoutDirection',
+      GroupsBeforeRowHeaders: 'Integer',
+      RepeatColumnHeaders: 'Boolean',
+      RepeatRowHeaders: 'Boolean',
+      FixedColumnHeaders: 'Boolean',
+      FixedRowHeaders: 'Boolean',
+      KeepTogether: 'Boolean',
+      NoRowsMessage: 'String',
+      DataSetName: 'String',
+      SortExpressions: 'SortExpressions',
+      Filters: 'Open',
+      PageBreak: 'Open',
+      PageName: 'String',
+      OmitBorderOnPageBreak: 'Boolean',
+      BandLayoutOptions: 'Open',
+      TopMargin: 'Size',
+      BottomMargin: 'Size',
+      LeftMargin: 'Size',
+      RightMargin: 'Size'
+    }
+  },
+  TablixBody: { children: { TablixColumns: 'TablixColumns!', TablixRows: 'TablixRows!' } },
+  TablixColumns: { children: { TablixColumn: 'TablixColumn+' } },
+  TablixColumn: { children: { Width: 'Size!' } },
+  TablixRows: { children: { TablixRow: 'TablixRow+' } },
+  TablixRow: { children: { Height: 'Size!', TablixCells: 'TablixCells!' } },
+  TablixCells: { children: { TablixCell: 'TablixCell+' } },
+  TablixCell: { children: { CellContents: 'CellContents', DataElementName: 'String', DataElementOutput: 'DataElementOutput' } },
+  CellContents: {
+    children: {
+      ...Object.fromEntries(REPORT_ITEM_TYPES.map(type => [type, type])),
+      ColSpan: 'Integer',
+      RowSpan: 'Integer'
+    }
+  },
+  TablixHierarchy: { children: { TablixMembers: 'TablixMembers!' } },
+  TablixMembers: { children: { TablixMember: 'TablixMember+' } },
+  TablixMember: {
+    children: {
+      Group: 'Group',
+      SortExpressions: 'SortExpressions',
+      TablixHeader: 'TablixHeader',
+      TablixMembers: 'TablixMembers',
+      CustomProperties: 'Open',
+      FixedData: 'Boolean',
+      Visibility: 'Visibility',
+      HideIfNoRows: 'Boolean',
+      KeepWithGroup: 'KeepWithGroup',
+      RepeatOnNewPage: 'Boolean',
+      DataElementName: 'String',
+      DataElementOutput: 'DataElementOutput',
+      KeepTogether: 'Boolean'
+    }
+  },
+  TablixHeader: { children: { Size: 'Size!', CellContents: 'CellContents!' } },
+  Group: {
+    named: true,
+    children: {
+      DocumentMapLabel: 'String',
+      GroupExpressions: 'GroupExpressions',
+      PageBreak: 'Open',
+      Filters: 'Open',
+      Parent: 'String',
+      DataElementName: 'String',
+      DataElementOutput: 'DataElementOutput',
+      Variables: 'Open',
+      PageName: 'String'
+    }
+  },
+  GroupExpressions: { children: { GroupExpression: 'String+' } },
+  SortExpressions: { children: { SortExpression: 'SortExpression+' } },
+  SortExpression: { children: { Value: 'String!', Direction: 'SortDirection' } },
+  Visibility: { children: { Hidden: 'BooleanExpression', ToggleItem: 'String' } },
+
+  // Charts and gauges add many style properties of their own, so unlisted ones are allowed
+  Style: {
+    open: true,
+    children: {
+      Border: 'Border',
+      TopBorder: 'Border',
+      BottomBorder: 'Border',
+      LeftBorder: 'Border',
+      RightBorder: 'Border',
+      BackgroundColor: 'Color',
+      BackgroundGradientEndColor: 'Color',
+      BackgroundImage: 'Open',
+      FontStyle: 'FontStyle',
+      FontFamily: 'String',
+      FontSize: 'StyleSize',
+      FontWeight: 'FontWeight',
+      Format: 'String',
+      TextDecoration: 'TextDecoration',
+      TextAlign: 'TextAlign',
+      VerticalAlign: 'VerticalAlign',
+      Color: 'Color',
+      PaddingLeft: 'StyleSize',
+      PaddingRight: 'StyleSize',
+      PaddingTop: 'StyleSize',
+      PaddingBottom: 'StyleSize',
+      LineHeight: 'StyleSize'
+    }
+  },
+  Border: BORDER,
+
+  ReportParameters: { children: { ReportParameter: 'ReportParameter+' } },
+  ReportParameter: {
+    named: true,
+    children: {
+      DataType: 'ParameterDataType!',
+      Nullable: 'Boolean',
+      DefaultValue: 'Open',
+      AllowBlank: 'Boolean',
+      Prompt: 'String',
+      ValidValues: 'Open',
+      Hidden: 'Boolean',
+      MultiValue: 'Boolean',
+      UsedInQuery: 'UsedInQuery'
+    }
+  },
+  ReportParametersLayout: { children: { GridLayoutDefinition: 'GridLayoutDefinition!' } },
+  GridLayoutDefinition: {
+    children: { NumberOfColumns: 'Integer!', NumberOfRows: 'Integer!', CellDefinitions: 'CellDefinitions' }
+  },
+  CellDefinitions: { children: { CellDefinition: 'CellDefinition+' } },
+  CellDefinition: { children: { ColumnIndex: 'Integer!', RowIndex: 'Integer!', ParameterName: 'String!' } },
+
+  EmbeddedImages: { children: { EmbeddedImage: 'EmbeddedImage+' } },
+  EmbeddedImage: { named: true, children: { MIMEType: 'String!', ImageData: 'String!' } },
+  CodeModules: { children: { CodeModule: 'String+' } },
+  Classes: { children: { Class: 'Class+' } },
+  Class: { children: { ClassName: 'String!', InstanceName: 'String!' } }
+};
+
+const withoutChildren = (type: RDLComplexType, names: string[]): RDLComplexType => ({
+  ...type,
+  children: Object.fromEntries(Object.entries(type.children).filter(([name]) => !names.includes(name)))
+});
+
+// 2016 added the parameter pane layout
+const COMPLEX_TYPES_2010: Record<string, RDLComplexType> = {
+  ...COMPLEX_TYPES,
+  Report: withoutChildren(COMPLEX_TYPES.Report, ['ReportParametersLayout'])
+};
+
+// 2008 has a single section: Body, Width and Page sit directly under Report
+const COMPLEX_TYPES_2008: Record<string, RDLComplexType> = {
+  ...COMPLEX_TYPES_2010,
+  Report: {
+    children: {
+      ...withoutChildren(COMPLEX_TYPES_2010.Report, ['ReportSections']).children,
+      Body: 'Body!',
+      Width: 'Size!',
+      Page: 'Page!'
+    }
+  }
+};
+
+export const RDL_SCHEMAS: RDLSchemaDefinition[] = [
+  {
+    version: '2008',
+    namespace: 'http://schemas.microsoft.com/sqlserver/reporting/2008/01/reportdefinition',
+    complexTypes: COMPLEX_TYPES_2008,
+    simpleTypes: SIMPLE_TYPES
+  },
+  {
+    version: '2010',
+    namespace: 'http://schemas.microsoft.com/sqlserver/reporting/2010/01/reportdefinition',
+    complexTypes: COMPLEX_TYPES_2010,
+    simpleTypes: SIMPLE_TYPES
+  },
+  {
+    version: '2016',
+    namespace: 'http://schemas.microsoft.com/sqlserver/reporting/2016/01/reportdefinition',
+    complexTypes: COMPLEX_TYPES,
+    simpleTypes: SIMPLE_TYPES
+  }
+];
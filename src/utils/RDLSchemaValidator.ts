@@ -0,0 +1,153 @@
+// Validates RDL against the bundled report definition schemas (see RDLSchema) so
+// problems show up before the report is uploaded to the SSRS server.
+import { RDLLocator } from './RDLLocator';
+import { RDL_SCHEMAS, RDLComplexType, RDLSchemaDefinition, RDLSchemaVersion } from './RDLSchema';
+
+export interface RDLSchemaViolation {
+  // e.g. /Report/ReportSections/ReportSection/Body/ReportItems/Textbox[@Name='Title']
+  path: string;
+  line: number;
+  message: string;
+}
+
+export interface RDLSchemaValidationResult {
+  version: RDLSchemaVersion | null;
+  valid: boolean;
+  violations: RDLSchemaViolation[];
+}
+
+interface ChildRule {
+  type: string;
+  required: boolean;
+  repeatable: boolean;
+}
+
+export class RDLSchemaValidator {
+  static validate(rdlContent: string): RDLSchemaValidationResult {
+    const document = new DOMParser().parseFromString(rdlContent.replace(/^\uFEFF/, ''), 'application/xml');
+    const parseError = document.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+      const message = parseError.textContent?.trim() || 'The document is not well-formed XML';
+      return { version: null, valid: false, violations: [{ path: '/', line: this.parseErrorLine(message), message }] };
+    }
+
+    const locator = new RDLLocator(rdlContent, document);
+    const lineOf = (element: Element) => locator.lineOf(element);
+
+    const root = document.documentElement;
+    const schema = RDL_SCHEMAS.find(candidate => candidate.namespace === root.namespaceURI);
+    if (!schema || root.localName !== 'Report') {
+      return {
+        version: null,
+        valid: false,
+        violations: [{
+          path: RDLLocator.pathOf(root),
+          line: lineOf(root),
+          message: `Root element must be <Report> in the 2008, 2010 or 2016 report definition namespace (found ${root.namespaceURI || 'no namespace'})`
+        }]
+      };
+    }
+
+    const violations: RDLSchemaViolation[] = [];
+    this.validateComplex(root, 'Report', schema, lineOf, violations);
+    return { version: schema.version, valid: violations.length === 0, violations };
+  }
+
+  private static validateComplex(
+    element: Element,
+    typeName: string,
+    schema: RDLSchemaDefinition,
+    lineOf: (element: Element) => number,
+    violations: RDLSchemaViolation[]
+  ): void {
+    const type = schema.complexTypes[typeName];
+    const report = (target: Element, message: string) =>
+      violations.push({ path: RDLLocator.pathOf(target), line: lineOf(target), message });
+
+    if (type.named && !element.getAttribute('Name')) {
+      report(element, `<${element.localName}> requires a Name attribute`);
+    }
+
+    const text = Array.from(element.childNodes)
+      .filter(node => node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE)
+      .map(node => node.textContent)
+      .join('')
+      .trim();
+    if (text && !type.open) {
+      report(element, `<${element.localName}> must contain only elements, not text`);
+    }
+
+    // Elements in other namespaces are allowed anywhere and not checked
+    const children = Array.from(element.children).filter(child => child.namespaceURI === schema.namespace);
+    const counts = new Map<string, number>();
+
+    for (const child of children) {
+      const rule = this.childRule(type, child.localName);
+      if (!rule) {
+        if (!type.open) {
+          report(child, `<${child.localName}> is not allowed in <${element.localName}>`);
+        }
+        continue;
+      }
+
+      const count = (counts.get(child.localName) || 0) + 1;
+      counts.set(child.localName, count);
+      if (count === 2 && !rule.repeatable) {
+        report(child, `<${child.localName}> may appear only once in <${element.localName}>`);
+      }
+
+      if (schema.complexTypes[rule.type]) {
+        this.validateComplex(child, rule.type, schema, lineOf, violations);
+      } else {
+        this.validateSimple(child, rule.type, schema, report);
+      }
+    }
+
+    for (const name of Object.keys(type.children)) {
+      if (this.childRule(type, name)?.required && !counts.has(name)) {
+        report(element, `<${element.localName}> is missing required element <${name}>`);
+      }
+    }
+  }
+
+  private static validateSimple(
+    element: Element,
+    typeName: string,
+    schema: RDLSchemaDefinition,
+    report: (target: Element, message: string) => void
+  ): void {
+    const type = schema.simpleTypes[typeName];
+    if (element.children.length > 0) {
+      report(element, `<${element.localName}> must contain only text, not elements`);
+      return;
+    }
+
+    const value = element.textContent || '';
+    if (type.expression && value.trim().startsWith('=')) return;
+
+    const validValue = type.values
+      ? type.values.includes(value.trim())
+      : !type.pattern || type.pattern.test(value);
+    if (!validValue) {
+      report(element, `"${value.trim()}" is not valid for <${element.localName}>; expected ${type.description}`);
+    }
+  }
+
+  private static childRule(type: RDLComplexType, name: string): ChildRule | null {
+    const spec = type.children[name];
+    if (!spec) return null;
+    const suffix = spec.slice(-1);
+    const isModifier = ['!', '+', '*'].includes(suffix);
+    return {
+      type: isModifier ? spec.slice(0, -1) : spec,
+      required: suffix === '!' || suffix === '+',
+      repeatable: suffix === '+' || suffix === '*'
+    };
+  }
+
+  // Browsers word parser errors differently: "error on line 7 at column 23" or "7:23: ..."
+  private static parseErrorLine(message: string): number {
+    const match = message.match(/line (\d+)/i) || message.match(/^(\d+):\d+/);
+    return match ? Number(match[1]) : 1;
+  }
+}
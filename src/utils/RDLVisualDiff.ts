@@ -0,0 +1,220 @@
+// Compares where the source PDF prints its text with where the RDL preview places its
+// textboxes. Each PDF text item joins the textbox covering most of it, or failing that a
+// nearby textbox with the same text; a textbox matches when the IoU of its bounds with
+// the union of its text items reaches MATCH_IOU. Coordinates are points from the top-left.
+import { EnhancedPDFTextItem } from './EnhancedPDFParser';
+import { RDLPreviewItem, RDLPreviewPage, RDLPreviewSectionKind } from './RDLPreviewLayout';
+
+export interface RDLDiffBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type RDLDiffStatus = 'matched' | 'misaligned' | 'missing' | 'extra';
+
+export interface RDLDiffPair {
+  status: RDLDiffStatus;
+  region: RDLPreviewSectionKind;
+  // Union of the PDF text items placed in the textbox; undefined for extra textboxes
+  pdfBounds?: RDLDiffBox;
+  pdfText: string;
+  // Undefined for PDF text no textbox shows
+  rdlBounds?: RDLDiffBox;
+  rdlName?: string;
+  rdlText: string;
+  iou: number;
+}
+
+export interface RDLRegionScore {
+  region: RDLPreviewSectionKind;
+  // 0-1: mean IoU over the region's PDF text items, items without a textbox counting as 0
+  score: number;
+  textItems: number;
+  matched: number;
+  // Median offset of the textboxes from their PDF text; positive is right and down
+  offset: { x: number; y: number };
+}
+
+export interface RDLVisualDiffResult {
+  pairs: RDLDiffPair[];
+  regions: RDLRegionScore[];
+  // Mean IoU over every PDF text item on the page
+  score: number;
+}
+
+interface PreviewTextbox {
+  name: string;
+  text: string;
+  region: RDLPreviewSectionKind;
+  bounds: RDLDiffBox;
+}
+
+interface PDFText {
+  text: string;
+  region: RDLPreviewSectionKind;
+  bounds: RDLDiffBox;
+}
+
+export class RDLVisualDiff {
+  static readonly MATCH_IOU = 0.5;
+  // Points a misplaced textbox may be from its text and still be paired with it
+  private static readonly SEARCH_RADIUS = 36;
+  private static readonly REGIONS: RDLPreviewSectionKind[] = ['header', 'body', 'footer'];
+
+  static compare(textItems: EnhancedPDFTextItem[], page: RDLPreviewPage, pageNumber = 1): RDLVisualDiffResult {
+    // Text item y is the baseline; the box extends one font height above it
+    const pdfTexts: PDFText[] = textItems
+      .filter(item => (item.pageNumber ?? 1) === pageNumber && item.text.trim())
+      .map(item => ({
+        text: item.text,
+        region: item.rdlRegion || 'body',
+        bounds: { x: item.x, y: item.y - item.height, width: item.width, height: item.height }
+      }));
+    const textboxes = page.sections.flatMap(section => this.textboxes(section.items, section.kind));
+
+    // Text items by the index of their textbox; -1 for none
+    const assignment = pdfTexts.map(pdfText => this.coveringTextbox(pdfText, textboxes));
+    pdfTexts.forEach((pdfText, index) => {
+      if (assignment[index] < 0) assignment[index] = this.nearbyTextbox(pdfText, textboxes, assignment);
+    });
+
+    const pairs: RDLDiffPair[] = [];
+    const itemIoU = new Array<number>(pdfTexts.length).fill(0);
+    textboxes.forEach((textbox, textboxIndex) => {
+      const members = pdfTexts.map((_, index) => index).filter(index => assignment[index] === textboxIndex);
+      if (members.length === 0) {
+        pairs.push({ status: 'extra', region: textbox.region, pdfText: '', rdlBounds: textbox.bounds, rdlName: textbox.name, rdlText: textbox.text, iou: 0 });
+        return;
+      }
+
+      const pdfBounds = this.union(members.map(index => pdfTexts[index].bounds));
+      const iou = this.iou(pdfBounds, textbox.bounds);
+      members.forEach(index => { itemIoU[index] = iou; });
+      pairs.push({
+        status: iou >= this.MATCH_IOU ? 'matched' : 'misaligned',
+        region: textbox.region,
+        pdfBounds,
+        pdfText: this.readingOrder(members.map(index => pdfTexts[index])).join(' '),
+        rdlBounds: textbox.bounds,
+        rdlName: textbox.name,
+        rdlText: textbox.text,
+        iou
+      });
+    });
+    pdfTexts.forEach((pdfText, index) => {
+      if (assignment[index] < 0) {
+        pairs.push({ status: 'missing', region: pdfText.region, pdfBounds: pdfText.bounds, pdfText: pdfText.text, rdlText: '', iou: 0 });
+      }
+    });
+
+    const regions = this.REGIONS.map(region => {
+      const indexes = pdfTexts.map((_, index) => index).filter(index => pdfTexts[index].region === region);
+      const placed = pairs.filter(pair => pair.region === region && pair.pdfBounds && pair.rdlBounds);
+      return {
+        region,
+        score: indexes.length > 0 ? indexes.reduce((sum, index) => sum + itemIoU[index], 0) / indexes.length : 1,
+        textItems: indexes.length,
+        matched: indexes.filter(index => itemIoU[index] >= this.MATCH_IOU).length,
+        offset: {
+          x: this.median(placed.map(pair => pair.rdlBounds!.x - pair.pdfBounds!.x)),
+          y: this.median(placed.map(pair => pair.rdlBounds!.y - pair.pdfBounds!.y))
+        }
+      };
+    });
+
+    return {
+      pairs,
+      regions,
+      score: pdfTexts.length > 0 ? itemIoU.reduce((sum, iou) => sum + iou, 0) / pdfTexts.length : 1
+    };
+  }
+
+  static iou(a: RDLDiffBox, b: RDLDiffBox): number {
+    const intersection = this.intersection(a, b);
+    const union = a.width * a.height + b.width * b.height - intersection;
+    return union > 0 ? intersection / union : 0;
+  }
+
+  // Textboxes with text, including those in rectangles and Tablix cells
+  private static textboxes(items: RDLPreviewItem[], region: RDLPreviewSectionKind): PreviewTextbox[] {
+    return items.flatMap(item => {
+      switch (item.kind) {
+        case 'textbox': {
+          const text = item.paragraphs.map(paragraph => paragraph.runs.map(run => run.text).join('')).join('\n').trim();
+          const { x, y, width, height } = item;
+          return text ? [{ name: item.name, text, region, bounds: { x, y, width, height } }] : [];
+        }
+        case 'rectangle':
+          return this.textboxes(item.items, region);
+        case 'tablix':
+          return item.rows.flatMap(row => this.textboxes(row.cells, region));
+        default:
+          return [];
+      }
+    });
+  }
+
+  // The textbox covering the largest share of the text item, if any does
+  private static coveringTextbox(pdfText: PDFText, textboxes: PreviewTextbox[]): number {
+    const area = pdfText.bounds.width * pdfText.bounds.height;
+    let best = -1;
+    let bestCoverage = 0;
+    textboxes.forEach((textbox, index) => {
+      const coverage = area > 0 ? this.intersection(pdfText.bounds, textbox.bounds) / area : 0;
+      if (coverage > bestCoverage) {
+        best = index;
+        bestCoverage = coverage;
+      }
+    });
+    return best;
+  }
+
+  // An unused textbox in the same region with the same text or, failing that, the closest one in reach
+  private static nearbyTextbox(pdfText: PDFText, textboxes: PreviewTextbox[], assignment: number[]): number {
+    const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+    const candidates = textboxes
+      .map((textbox, index) => ({ textbox, index, distance: this.centerDistance(pdfText.bounds, textbox.bounds) }))
+      .filter(({ textbox, index, distance }) =>
+        textbox.region === pdfText.region && !assignment.includes(index) && distance <= this.SEARCH_RADIUS
+      )
+      .sort((a, b) => a.distance - b.distance);
+
+    const sameText = candidates.find(({ textbox }) => normalize(textbox.text) === normalize(pdfText.text));
+    return (sameText || candidates[0])?.index ?? -1;
+  }
+
+  private static readingOrder(texts: PDFText[]): string[] {
+    return [...texts]
+      .sort((a, b) => Math.abs(a.bounds.y - b.bounds.y) > Math.min(a.bounds.height, b.bounds.height) / 2
+        ? a.bounds.y - b.bounds.y
+        : a.bounds.x - b.bounds.x)
+      .map(text => text.text);
+  }
+
+  private static intersection(a: RDLDiffBox, b: RDLDiffBox): number {
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    return width > 0 && height > 0 ? width * height : 0;
+  }
+
+  private static union(boxes: RDLDiffBox[]): RDLDiffBox {
+    const left = Math.min(...boxes.map(box => box.x));
+    const top = Math.min(...boxes.map(box => box.y));
+    const right = Math.max(...boxes.map(box => box.x + box.width));
+    const bottom = Math.max(...boxes.map(box => box.y + box.height));
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  private static centerDistance(a: RDLDiffBox, b: RDLDiffBox): number {
+    return Math.hypot(a.x + a.width / 2 - (b.x + b.width / 2), a.y + a.height / 2 - (b.y + b.height / 2));
+  }
+
+  private static median(values: number[]): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+}
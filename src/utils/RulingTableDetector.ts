@@ -0,0 +1,247 @@
+// Detects tables from drawn ruling lines: the intersections of horizontal and
+// vertical rules define the cell grid, and missing rules between grid cells
+// reveal merged (spanned) cells
+import { EnhancedPDFComponent, TableStructure } from './AIPDFAnalyzer';
+import { PDFGraphicPrimitive } from './PDFGraphicsExtractor';
+import { TableCellBuilder } from './TableCellBuilder';
+
+interface RulingSegment {
+  orientation: 'horizontal' | 'vertical';
+  position: number; // y for horizontal rules, x for vertical rules
+  start: number;
+  end: number;
+}
+
+interface GridCell {
+  row: number;
+  col: number;
+  rowspan: number;
+  colspan: number;
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+export class RulingTableDetector {
+  // Points of slack when matching rule positions and intersections
+  private static readonly TOLERANCE = 2;
+  // Rules shorter than this are tick marks or underline fragments
+  private static readonly MIN_SEGMENT_LENGTH = 3;
+
+  static detectTables(graphics: PDFGraphicPrimitive[], components: EnhancedPDFComponent[]): TableStructure[] {
+    const segments = this.collectSegments(graphics);
+    if (segments.length < 6) return [];
+
+    const tables: TableStructure[] = [];
+    for (const cluster of this.clusterSegments(segments)) {
+      const rowEdges = this.mergePositions(cluster.filter(s => s.orientation === 'horizontal').map(s => s.position));
+      const colEdges = this.mergePositions(cluster.filter(s => s.orientation === 'vertical').map(s => s.position));
+      if (rowEdges.length < 3 || colEdges.length < 3) continue;
+
+      const cells = this.buildCells(cluster, rowEdges, colEdges);
+      const table = this.createTableStructure(cells, rowEdges, colEdges, components);
+      if (table) tables.push(table);
+    }
+
+    return tables;
+  }
+
+  private static collectSegments(graphics: PDFGraphicPrimitive[]): RulingSegment[] {
+    const segments: RulingSegment[] = [];
+
+    for (const graphic of graphics) {
+      if (graphic.kind === 'line' && graphic.orientation !== 'diagonal') {
+        segments.push(graphic.orientation === 'horizontal'
+          ? { orientation: 'horizontal', position: graphic.y1, start: Math.min(graphic.x1, graphic.x2), end: Math.max(graphic.x1, graphic.x2) }
+          : { orientation: 'vertical', position: graphic.x1, start: Math.min(graphic.y1, graphic.y2), end: Math.max(graphic.y1, graphic.y2) });
+      } else if (graphic.kind === 'rectangle') {
+        // A stroked box contributes its four edges
+        const right = graphic.x + graphic.width;
+        const bottom = graphic.y + graphic.height;
+        segments.push(
+          { orientation: 'horizontal', position: graphic.y, start: graphic.x, end: right },
+          { orientation: 'horizontal', position: bottom, start: graphic.x, end: right },
+          { orientation: 'vertical', position: graphic.x, start: graphic.y, end: bottom },
+          { orientation: 'vertical', position: right, start: graphic.y, end: bottom }
+        );
+      }
+    }
+
+    return segments.filter(s => s.end - s.start >= this.MIN_SEGMENT_LENGTH);
+  }
+
+  // Group rules into connected networks; each network is a table candidate
+  private static clusterSegments(segments: RulingSegment[]): RulingSegment[][] {
+    const parent = segments.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        if (this.isConnected(segments[i], segments[j])) {
+          parent[find(i)] = find(j);
+        }
+      }
+    }
+
+    const clusters = new Map<number, RulingSegment[]>();
+    segments.forEach((segment, index) => {
+      const root = find(index);
+      clusters.set(root, [...(clusters.get(root) || []), segment]);
+    });
+
+    return [...clusters.values()];
+  }
+
+  private static isConnected(a: RulingSegment, b: RulingSegment): boolean {
+    const t = this.TOLERANCE;
+
+    if (a.orientation === b.orientation) {
+      // Collinear pieces of the same rule
+      return Math.abs(a.position - b.position) <= t && a.start <= b.end + t && b.start <= a.end + t;
+    }
+
+    const [horizontal, vertical] = a.orientation === 'horizontal' ? [a, b] : [b, a];
+    return vertical.position >= horizontal.start - t &&
+      vertical.position <= horizontal.end + t &&
+      horizontal.position >= vertical.start - t &&
+      horizontal.position <= vertical.end + t;
+  }
+
+  private static mergePositions(positions: number[]): number[] {
+    const merged: number[][] = [];
+    [...positions].sort((a, b) => a - b).forEach(position => {
+      const last = merged[merged.length - 1];
+      if (last && position - last[last.length - 1] <= this.TOLERANCE) {
+        last.push(position);
+      } else {
+        merged.push([position]);
+      }
+    });
+    return merged.map(group => group.reduce((sum, p) => sum + p, 0) / group.length);
+  }
+
+  // Join grid slots that have no rule between them into spanned cells
+  private static buildCells(segments: RulingSegment[], rowEdges: number[], colEdges: number[]): GridCell[] {
+    const rowCount = rowEdges.length - 1;
+    const colCount = colEdges.length - 1;
+    const parent = Array.from({ length: rowCount * colCount }, (_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    for (let row = 0; row < rowCount; row++) {
+      for (let col = 0; col < colCount; col++) {
+        const middleY = (rowEdges[row] + rowEdges[row + 1]) / 2;
+        const middleX = (colEdges[col] + colEdges[col + 1]) / 2;
+
+        if (col + 1 < colCount && !this.hasRule(segments, 'vertical', colEdges[col + 1], middleY)) {
+          parent[find(row * colCount + col)] = find(row * colCount + col + 1);
+        }
+        if (row + 1 < rowCount && !this.hasRule(segments, 'horizontal', rowEdges[row + 1], middleX)) {
+          parent[find(row * colCount + col)] = find((row + 1) * colCount + col);
+        }
+      }
+    }
+
+    const groups = new Map<number, Array<{ row: number; col: number }>>();
+    for (let row = 0; row < rowCount; row++) {
+      for (let col = 0; col < colCount; col++) {
+        const root = find(row * colCount + col);
+        groups.set(root, [...(groups.get(root) || []), { row, col }]);
+      }
+    }
+
+    return [...groups.values()].map(slots => {
+      const firstRow = Math.min(...slots.map(s => s.row));
+      const lastRow = Math.max(...slots.map(s => s.row));
+      const firstCol = Math.min(...slots.map(s => s.col));
+      const lastCol = Math.max(...slots.map(s => s.col));
+      return {
+        row: firstRow,
+        col: firstCol,
+        rowspan: lastRow - firstRow + 1,
+        colspan: lastCol - firstCol + 1,
+        bounds: {
+          x: colEdges[firstCol],
+          y: rowEdges[firstRow],
+          width: colEdges[lastCol + 1] - colEdges[firstCol],
+          height: rowEdges[lastRow + 1] - rowEdges[firstRow]
+        }
+      };
+    });
+  }
+
+  private static hasRule(
+    segments: RulingSegment[],
+    orientation: RulingSegment['orientation'],
+    position: number,
+    along: number
+  ): boolean {
+    const t = this.TOLERANCE;
+    return segments.some(s =>
+      s.orientation === orientation &&
+      Math.abs(s.position - position) <= t &&
+      s.start - t <= along &&
+      s.end + t >= along
+    );
+  }
+
+  private static createTableStructure(
+    cells: GridCell[],
+    rowEdges: number[],
+    colEdges: number[],
+    components: EnhancedPDFComponent[]
+  ): TableStructure | null {
+    const rowCount = rowEdges.length - 1;
+    const colCount = colEdges.length - 1;
+
+    // A single box split by one rule is a layout frame, not a table
+    if (cells.length < 4) return null;
+
+    const grid: EnhancedPDFComponent[][] = Array.from({ length: rowCount }, (_, row) =>
+      Array.from({ length: colCount }, (_, col) => TableCellBuilder.createEmptyCell(
+        colEdges[col],
+        rowEdges[row],
+        colEdges[col + 1] - colEdges[col],
+        rowEdges[row + 1] - rowEdges[row]
+      ))
+    );
+
+    let hasText = false;
+    for (const cell of cells) {
+      const cellComponents = components.filter(c => TableCellBuilder.isCenterWithin(c, cell.bounds));
+      if (cellComponents.length > 0) {
+        grid[cell.row][cell.col] = TableCellBuilder.mergeComponents(cellComponents);
+        hasText = true;
+      }
+    }
+    if (!hasText) return null;
+
+    const [first] = colEdges;
+    const last = colEdges[colEdges.length - 1];
+
+    return {
+      headers: grid[0],
+      rows: grid.slice(1),
+      bounds: {
+        x: first,
+        y: rowEdges[0],
+        width: last - first,
+        height: rowEdges[rowEdges.length - 1] - rowEdges[0]
+      },
+      columnCount: colCount,
+      rowCount: rowCount - 1,
+      merged_cells: cells
+        .filter(cell => cell.rowspan > 1 || cell.colspan > 1)
+        .map(({ row, col, rowspan, colspan }) => ({ row, col, rowspan, colspan }))
+    };
+  }
+}
@@ -0,0 +1,48 @@
+// Shared helpers for table detectors that build a cell grid from text components
+import { EnhancedPDFComponent } from './AIPDFAnalyzer';
+
+export class TableCellBuilder {
+  // Several text items inside one cell become a single component; line breaks are kept
+  static mergeComponents(components: EnhancedPDFComponent[]): EnhancedPDFComponent {
+    if (components.length === 1) return components[0];
+
+    const sorted = [...components].sort((a, b) => a.y - b.y || a.x - b.x);
+    const lines: EnhancedPDFComponent[][] = [];
+    for (const component of sorted) {
+      const line = lines[lines.length - 1];
+      if (line && Math.abs(component.y - line[0].y) <= component.height / 2) {
+        line.push(component);
+      } else {
+        lines.push([component]);
+      }
+    }
+
+    const minX = Math.min(...components.map(c => c.x));
+    const minY = Math.min(...components.map(c => c.y));
+    const maxX = Math.max(...components.map(c => c.x + c.width));
+    const maxY = Math.max(...components.map(c => c.y + c.height));
+
+    return {
+      ...sorted[0],
+      text: lines.map(line => line.sort((a, b) => a.x - b.x).map(c => c.text.trim()).join(' ')).join('\n'),
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY
+    };
+  }
+
+  static createEmptyCell(x: number, y: number, width: number, height: number): EnhancedPDFComponent {
+    return { text: '', x, y, width, height, fontSize: 0, fontFamily: '' };
+  }
+
+  static isCenterWithin(
+    component: EnhancedPDFComponent,
+    bounds: { x: number; y: number; width: number; height: number }
+  ): boolean {
+    const centerX = component.x + component.width / 2;
+    const centerY = component.y + component.height / 2;
+    return centerX >= bounds.x && centerX <= bounds.x + bounds.width &&
+      centerY >= bounds.y && centerY <= bounds.y + bounds.height;
+  }
+}
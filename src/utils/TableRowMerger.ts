@@ -0,0 +1,65 @@
+// Merges text lines that belong to the same logical table row. PDF.js returns one
+// item per line, so a wrapped cell arrives as extra lines that only fill some columns.
+import { EnhancedPDFComponent } from './AIPDFAnalyzer';
+
+// One text line split into columns: cells[column] holds that column's items
+export type TableLineCells = EnhancedPDFComponent[][];
+
+export class TableRowMerger {
+  // A line further below the previous one than this many line heights starts a new row
+  private static readonly MAX_WRAP_GAP = 1;
+
+  static mergeWrappedLines(lines: TableLineCells[]): TableLineCells[] {
+    if (lines.length < 2) return lines;
+
+    const anchorColumn = this.findAnchorColumn(lines);
+    const rows: TableLineCells[] = [];
+    let previousLine: TableLineCells | null = null;
+
+    for (const line of lines) {
+      const current = rows[rows.length - 1];
+      const startsRow = !current ||
+        line[anchorColumn].length > 0 ||
+        (previousLine !== null && this.verticalGap(previousLine, line) > this.lineHeight(previousLine) * this.MAX_WRAP_GAP);
+
+      if (startsRow) {
+        rows.push(line.map(cell => [...cell]));
+      } else {
+        line.forEach((cell, column) => current[column].push(...cell));
+      }
+      previousLine = line;
+    }
+
+    return rows;
+  }
+
+  // The anchor is the column that is filled on every full line but wraps the least,
+  // e.g. Line No. or Qty; a new logical row only starts when it has a value
+  private static findAnchorColumn(lines: TableLineCells[]): number {
+    const columnCount = lines[0].length;
+    const filledCount = (line: TableLineCells) => line.filter(cell => cell.length > 0).length;
+    const fullLines = lines.filter(line => filledCount(line) >= columnCount / 2);
+
+    let anchor = 0;
+    let anchorFill = Number.POSITIVE_INFINITY;
+    for (let column = 0; column < columnCount; column++) {
+      if (!fullLines.every(line => line[column].length > 0)) continue;
+      const fill = lines.filter(line => line[column].length > 0).length;
+      if (fill < anchorFill) {
+        anchor = column;
+        anchorFill = fill;
+      }
+    }
+    return anchor;
+  }
+
+  private static verticalGap(previous: TableLineCells, line: TableLineCells): number {
+    const previousBottom = Math.max(...previous.flat().map(c => c.y + c.height));
+    const top = Math.min(...line.flat().map(c => c.y));
+    return top - previousBottom;
+  }
+
+  private static lineHeight(line: TableLineCells): number {
+    return Math.max(1, ...line.flat().map(c => c.height));
+  }
+}
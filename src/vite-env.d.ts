@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CLASSIFIER_BACKEND?: string;
+  readonly VITE_CLASSIFIER_MODEL?: string;
+  readonly VITE_CLASSIFIER_MODEL_PATH?: string;
+  readonly VITE_CLASSIFIER_MODEL_REVISION?: string;
+  readonly VITE_CLASSIFIER_WASM_PATH?: string;
+}
@@ -0,0 +1,73 @@
+// Runs the whole PDF analysis pipeline off the main thread
+import { AIPDFAnalyzer } from '@/utils/AIPDFAnalyzer';
+import { AnalysisOptions, AnalysisProgress, AnalysisProgressEvent } from '@/utils/AnalysisProgress';
+import { CorrectionExample } from '@/utils/ClassificationCorrections';
+import { EnhancedPDFParser } from '@/utils/EnhancedPDFParser';
+import { PDFJSLoader } from '@/utils/PDFJSLoader';
+import { PDFParser } from '@/utils/PDFParser';
+import { PDFAnalysisRequest, PDFAnalysisResponse, STAGE_PROGRESS } from './pdfAnalysisProtocol';
+
+const workerScope = self as unknown as Worker;
+const activeJobs = new Map<number, AbortController>();
+
+const post = (message: PDFAnalysisResponse) => workerScope.postMessage(message);
+
+const toPercent = ({ stage, page, pageCount }: AnalysisProgressEvent): number => {
+  const [start, end] = STAGE_PROGRESS[stage];
+  if (!page || !pageCount) return start;
+  return Math.round(start + (end - start) * (page - 1) / pageCount);
+};
+
+const runAnalysis = async (requestId: number, file: File, corrections: CorrectionExample[]) => {
+  const controller = new AbortController();
+  activeJobs.set(requestId, controller);
+
+  const options: AnalysisOptions = {
+    signal: controller.signal,
+    onProgress: event => post({ type: 'progress', requestId, progress: { ...event, percent: toPercent(event) } })
+  };
+
+  try {
+    AnalysisProgress.report(options, { stage: 'loading-engine' });
+    await PDFJSLoader.load();
+
+    AnalysisProgress.throwIfCancelled(options);
+    AnalysisProgress.report(options, { stage: 'loading-model' });
+    await AIPDFAnalyzer.initializeModel();
+    AIPDFAnalyzer.setCorrections(corrections);
+
+    // Both analyses read the same loaded document
+    const { pdfjsLib, pdf } = await PDFJSLoader.openDocument(await file.arrayBuffer());
+    try {
+      const enhanced = await EnhancedPDFParser.parseDocument(pdfjsLib, pdf, options);
+      const legacy = await PDFParser.parseDocument(pdf, options);
+
+      AnalysisProgress.report(options, { stage: 'complete' });
+      post({ type: 'result', requestId, output: { enhanced, legacy } });
+    } finally {
+      pdf.destroy();
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      post({ type: 'cancelled', requestId });
+    } else {
+      post({
+        type: 'error',
+        requestId,
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  } finally {
+    activeJobs.delete(requestId);
+  }
+};
+
+workerScope.addEventListener('message', (event: MessageEvent<PDFAnalysisRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    activeJobs.get(request.requestId)?.abort();
+  } else {
+    void runAnalysis(request.requestId, request.file, request.corrections);
+  }
+});
@@ -0,0 +1,55 @@
+// Messages exchanged between the UI and the PDF analysis worker
+import { AnalysisStage } from '@/utils/AnalysisProgress';
+import { CorrectionExample } from '@/utils/ClassificationCorrections';
+import { CompleteDocumentAnalysis } from '@/utils/EnhancedPDFParser';
+import { PDFAnalysisResult } from '@/utils/PDFParser';
+
+export interface PDFAnalysisProgress {
+  stage: AnalysisStage;
+  percent: number; // Overall progress, 0-100
+  page?: number;
+  pageCount?: number;
+}
+
+export interface PDFAnalysisOutput {
+  enhanced: CompleteDocumentAnalysis;
+  legacy: PDFAnalysisResult;
+}
+
+export type PDFAnalysisRequest =
+  | { type: 'analyze'; requestId: number; file: File; corrections: CorrectionExample[] }
+  | { type: 'cancel'; requestId: number };
+
+export type PDFAnalysisResponse =
+  | { type: 'progress'; requestId: number; progress: PDFAnalysisProgress }
+  | { type: 'result'; requestId: number; output: PDFAnalysisOutput }
+  | { type: 'cancelled'; requestId: number }
+  | { type: 'error'; requestId: number; name: string; message: string };
+
+// Share of the overall progress bar each stage covers, as [start, end] percentages
+export const STAGE_PROGRESS: Record<AnalysisStage, [number, number]> = {
+  'loading-engine': [0, 5],
+  'loading-model': [5, 15],
+  'reading-pages': [15, 35],
+  'classifying': [35, 80],
+  'combining': [80, 85],
+  'layout': [85, 99],
+  'complete': [100, 100]
+};
+
+export const STAGE_LABELS: Record<AnalysisStage, string> = {
+  'loading-engine': 'Starting PDF engine',
+  'loading-model': 'Loading classification model',
+  'reading-pages': 'Reading page',
+  'classifying': 'Classifying page',
+  'combining': 'Combining pages',
+  'layout': 'Detecting layout on page',
+  'complete': 'Analysis complete'
+};
+
+export const describeProgress = (progress: PDFAnalysisProgress): string => {
+  const label = STAGE_LABELS[progress.stage];
+  return progress.page && progress.pageCount
+    ? `${label} ${progress.page} of ${progress.pageCount}`
+    : label;
+};
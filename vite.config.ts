@@ -19,4 +19,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The analysis worker code-splits PDF.js, which needs ES module output
+    format: "es",
+  },
 }));